@@ -0,0 +1,360 @@
+/**
+ * Audit Log
+ *
+ * Records every tool call: which tenant called which tool against which workspace, with
+ * which (redacted) arguments, how long it took and how it ended. Entries are written by the
+ * wrapper in src/tools/audit.ts and can be queried by operators at `GET /audit`.
+ *
+ * Storage is chosen from the bindings:
+ * - AUDIT_LOG (Durable Object): one SQLite-backed log shared by every Worker instance
+ * - CACHE_KV: one key per entry, expiring after AUDIT_RETENTION_DAYS
+ * - neither: the most recent entries are kept in memory in the current isolate
+ *
+ * The /audit route is only served when the AUDIT_ADMIN_TOKEN secret is set, and requires it
+ * as a bearer token.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import { type Env, getEnvNumber } from './types/env.js';
+import { randomToken, sha256 } from './utils/crypto.js';
+
+const KV_PREFIX = 'audit:';
+
+/** Default days CACHE_KV keeps an entry */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/** Upper bound for entries kept in memory per isolate */
+const MAX_MEMORY_ENTRIES = 500;
+
+/** Upper bound for entries kept by the Durable Object; the oldest are dropped first */
+const MAX_STORED_ENTRIES = 100_000;
+
+/** Entries returned by a query unless it asks for fewer */
+const DEFAULT_QUERY_LIMIT = 50;
+
+const MAX_QUERY_LIMIT = 500;
+
+/** Most CACHE_KV keys a query looks at (KV lists 1000 keys per page) */
+const MAX_KV_SCAN_KEYS = 5000;
+
+/** Largest timestamp in a KV key; keys count down from it so recent entries list first */
+const MAX_TIMESTAMP = 9_999_999_999_999;
+
+// =============================================================================
+// Audit Types
+// =============================================================================
+
+/**
+ * How a call ended: it succeeded, returned an error, or was a dry run that changed nothing
+ */
+export type AuditStatus = 'success' | 'error' | 'dry_run';
+
+export interface AuditEntry {
+  /** ISO 8601 time the call started */
+  timestamp: string;
+
+  /** Tenant fingerprint (see getTenantFingerprint) */
+  tenant: string;
+
+  /** Workspace URL */
+  host: string;
+
+  /** Tool name, or prompt:<name> for a prompt request */
+  tool: string;
+
+  /** Arguments with secrets replaced and long values shortened */
+  arguments: Record<string, unknown>;
+
+  durationMs: number;
+
+  status: AuditStatus;
+
+  /** Error code of a failed call, e.g. the Databricks error_code or TENANT_RATE_LIMITED */
+  errorCode?: string;
+}
+
+export interface AuditQuery {
+  tenant?: string;
+  host?: string;
+  tool?: string;
+  status?: AuditStatus;
+
+  /** Only entries at or after this ISO 8601 time */
+  since?: string;
+
+  /** Most entries to return (default 50, at most 500) */
+  limit?: number;
+}
+
+/**
+ * Entry fields that queries filter on, kept as KV metadata so a query can skip entries
+ * without reading them
+ */
+type AuditSummary = Pick<AuditEntry, 'timestamp' | 'tenant' | 'host' | 'tool' | 'status'>;
+
+function matches(entry: AuditSummary, query: AuditQuery): boolean {
+  return (
+    (!query.tenant || entry.tenant === query.tenant) &&
+    (!query.host || entry.host === query.host) &&
+    (!query.tool || entry.tool === query.tool) &&
+    (!query.status || entry.status === query.status) &&
+    (!query.since || entry.timestamp >= query.since)
+  );
+}
+
+function queryLimit(query: AuditQuery): number {
+  return Math.min(Math.max(query.limit ?? DEFAULT_QUERY_LIMIT, 1), MAX_QUERY_LIMIT);
+}
+
+// =============================================================================
+// Audit Log Interface
+// =============================================================================
+
+export interface AuditLog {
+  /** Append an entry */
+  record(entry: AuditEntry): Promise<void>;
+
+  /** Most recent entries matching the query, newest first */
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+// =============================================================================
+// Audit Log Implementations
+// =============================================================================
+
+const memoryEntries: AuditEntry[] = [];
+
+class MemoryAuditLog implements AuditLog {
+  async record(entry: AuditEntry): Promise<void> {
+    memoryEntries.push(entry);
+    if (memoryEntries.length > MAX_MEMORY_ENTRIES) {
+      memoryEntries.splice(0, memoryEntries.length - MAX_MEMORY_ENTRIES);
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return memoryEntries
+      .filter((entry) => matches(entry, query))
+      .reverse()
+      .slice(0, queryLimit(query));
+  }
+}
+
+class KvAuditLog implements AuditLog {
+  private kv: KVNamespace;
+  private retentionSeconds: number;
+
+  constructor(kv: KVNamespace, retentionDays: number) {
+    this.kv = kv;
+    this.retentionSeconds = retentionDays * 24 * 60 * 60;
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    const inverted = String(MAX_TIMESTAMP - Date.parse(entry.timestamp)).padStart(13, '0');
+    const metadata: AuditSummary = {
+      timestamp: entry.timestamp,
+      tenant: entry.tenant,
+      host: entry.host,
+      tool: entry.tool,
+      status: entry.status,
+    };
+    await this.kv.put(`${KV_PREFIX}${inverted}:${randomToken(6)}`, JSON.stringify(entry), {
+      expirationTtl: this.retentionSeconds,
+      metadata,
+    });
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const limit = queryLimit(query);
+    const keys: string[] = [];
+    let cursor: string | undefined;
+    let scanned = 0;
+
+    // Keys list newest first, so the scan stops at the first entry older than `since`
+    scan: do {
+      const page = await this.kv.list<AuditSummary>({ prefix: KV_PREFIX, cursor });
+      for (const key of page.keys) {
+        if (!key.metadata || (query.since && key.metadata.timestamp < query.since)) {
+          break scan;
+        }
+        if (matches(key.metadata, query)) {
+          keys.push(key.name);
+          if (keys.length >= limit) {
+            break scan;
+          }
+        }
+      }
+      scanned += page.keys.length;
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor && scanned < MAX_KV_SCAN_KEYS);
+
+    const entries = await Promise.all(keys.map((key) => this.kv.get<AuditEntry>(key, 'json')));
+    return entries.filter((entry): entry is AuditEntry => entry !== null);
+  }
+}
+
+class DurableObjectAuditLog implements AuditLog {
+  private stub: DurableObjectStub<AuditLogObject>;
+
+  constructor(namespace: DurableObjectNamespace<AuditLogObject>) {
+    // A single log for every tenant, so operators can query across them
+    this.stub = namespace.get(namespace.idFromName('audit'));
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    await this.stub.record(entry);
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return this.stub.query(query);
+  }
+}
+
+/**
+ * Durable Object that stores the audit log in SQLite (bind it as AUDIT_LOG)
+ */
+export class AuditLogObject extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.storage.sql.exec(`CREATE TABLE IF NOT EXISTS entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      timestamp TEXT NOT NULL,
+      tenant TEXT NOT NULL,
+      host TEXT NOT NULL,
+      tool TEXT NOT NULL,
+      status TEXT NOT NULL,
+      entry TEXT NOT NULL
+    )`);
+    ctx.storage.sql.exec('CREATE INDEX IF NOT EXISTS entries_timestamp ON entries (timestamp)');
+  }
+
+  async record(entry: AuditEntry): Promise<void> {
+    const sql = this.ctx.storage.sql;
+    const { id } = sql
+      .exec<{ id: number }>(
+        'INSERT INTO entries (timestamp, tenant, host, tool, status, entry) ' +
+          'VALUES (?, ?, ?, ?, ?, ?) RETURNING id',
+        entry.timestamp,
+        entry.tenant,
+        entry.host,
+        entry.tool,
+        entry.status,
+        JSON.stringify(entry)
+      )
+      .one();
+    if (id % 1000 === 0) {
+      sql.exec('DELETE FROM entries WHERE id <= ?', id - MAX_STORED_ENTRIES);
+    }
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    const conditions: string[] = [];
+    const bindings: unknown[] = [];
+    for (const column of ['tenant', 'host', 'tool', 'status'] as const) {
+      if (query[column]) {
+        conditions.push(`${column} = ?`);
+        bindings.push(query[column]);
+      }
+    }
+    if (query.since) {
+      conditions.push('timestamp >= ?');
+      bindings.push(query.since);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.ctx.storage.sql
+      .exec<{ entry: string }>(
+        `SELECT entry FROM entries ${where} ORDER BY id DESC LIMIT ?`,
+        ...bindings,
+        queryLimit(query)
+      )
+      .toArray()
+      .map((row) => JSON.parse(row.entry) as AuditEntry);
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create the audit log from the AUDIT_LOG or CACHE_KV binding, or in memory without either
+ */
+export function createAuditLog(env: Env): AuditLog {
+  if (env.AUDIT_LOG) {
+    return new DurableObjectAuditLog(env.AUDIT_LOG);
+  }
+  if (env.CACHE_KV) {
+    return new KvAuditLog(
+      env.CACHE_KV,
+      getEnvNumber(env, 'AUDIT_RETENTION_DAYS', DEFAULT_RETENTION_DAYS)
+    );
+  }
+  return new MemoryAuditLog();
+}
+
+// =============================================================================
+// Request Routing
+// =============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+  });
+}
+
+/**
+ * Whether the request carries AUDIT_ADMIN_TOKEN as its bearer token. Digests are compared
+ * so the comparison time does not depend on how much of the token matches.
+ */
+async function isAuditAdmin(request: Request, adminToken: string): Promise<boolean> {
+  const header = request.headers.get('Authorization') || '';
+  const bearer = header.toLowerCase().startsWith('bearer ') ? header.slice(7).trim() : '';
+  return bearer !== '' && (await sha256(bearer)) === (await sha256(adminToken));
+}
+
+/**
+ * Handle `GET /audit`. Returns null when the request is not for the audit route or no
+ * AUDIT_ADMIN_TOKEN is set.
+ *
+ * Query parameters filter the entries: tenant, host, tool, status, since (ISO 8601) and
+ * limit.
+ */
+export async function handleAuditRequest(request: Request, env: Env): Promise<Response | null> {
+  const url = new URL(request.url);
+  if (url.pathname !== '/audit' || !env.AUDIT_ADMIN_TOKEN) {
+    return null;
+  }
+  if (request.method !== 'GET') {
+    return jsonResponse({ error: 'Method Not Allowed' }, 405);
+  }
+  if (!(await isAuditAdmin(request, env.AUDIT_ADMIN_TOKEN))) {
+    return jsonResponse(
+      { error: 'Unauthorized', message: 'Send AUDIT_ADMIN_TOKEN as a bearer token.' },
+      401
+    );
+  }
+
+  const params = url.searchParams;
+  const status = params.get('status') || undefined;
+  if (status && !['success', 'error', 'dry_run'].includes(status)) {
+    return jsonResponse(
+      { error: 'Bad Request', message: 'status must be success, error or dry_run' },
+      400
+    );
+  }
+  const since = params.get('since') || undefined;
+  if (since && Number.isNaN(Date.parse(since))) {
+    return jsonResponse({ error: 'Bad Request', message: 'since must be an ISO 8601 time' }, 400);
+  }
+
+  const entries = await createAuditLog(env).query({
+    tenant: params.get('tenant') || undefined,
+    host: params.get('host') || undefined,
+    tool: params.get('tool') || undefined,
+    status: status as AuditStatus | undefined,
+    since: since && new Date(since).toISOString(),
+    limit: Number.parseInt(params.get('limit') || '', 10) || undefined,
+  });
+  return jsonResponse({ entries, count: entries.length });
+}
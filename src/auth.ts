@@ -0,0 +1,284 @@
+/**
+ * Databricks Authentication
+ *
+ * Resolves the bearer token sent with every Databricks API call from tenant credentials.
+ *
+ * Supported credential styles:
+ * - Personal access token (X-Databricks-Token), sent as-is
+ * - OAuth machine-to-machine (X-Databricks-Client-Id + X-Databricks-Client-Secret), exchanged
+ *   for a short-lived access token at the workspace /oidc/v1/token endpoint
+ * - Microsoft Entra ID access token (X-Databricks-Azure-Token), sent as-is
+ * - Entra ID service principal (X-Databricks-Azure-Tenant-Id + X-Databricks-Azure-Client-Id +
+ *   X-Databricks-Azure-Client-Secret), exchanged at login.microsoftonline.com for a token
+ *   scoped to the Azure Databricks resource
+ *
+ * Minted access tokens are cached per isolate until shortly before they expire, so stateless
+ * requests from the same tenant do not repeat the token exchange.
+ */
+
+import type { TenantCredentials } from './types/env.js';
+import { sha256 } from './utils/crypto.js';
+import { AuthenticationError } from './utils/errors.js';
+
+// =============================================================================
+// Token Provider Interface
+// =============================================================================
+
+export interface TokenProvider {
+  /** Whether tokens are minted by the server and can be refreshed after a 401 */
+  readonly refreshable: boolean;
+
+  /** Return a valid access token, exchanging credentials if needed */
+  getToken(): Promise<string>;
+
+  /** Drop any cached token so the next call fetches a fresh one */
+  invalidate(): Promise<void>;
+}
+
+// =============================================================================
+// Token Cache
+// =============================================================================
+
+/** Refresh cached tokens this long before they actually expire */
+const TOKEN_EXPIRY_SKEW_MS = 60_000;
+
+/** Well-known application ID of the Azure Databricks first-party resource */
+const AZURE_DATABRICKS_RESOURCE_ID = '2ff814a6-3304-4ab8-85cb-cd0e6f879c1d';
+
+const AZURE_LOGIN_HOST = 'https://login.microsoftonline.com';
+
+interface CachedToken {
+  accessToken: string;
+  expiresAt: number;
+}
+
+/** Keyed by a SHA-256 of the client secret, never the secret itself */
+const tokenCache = new Map<string, CachedToken>();
+const pendingTokens = new Map<string, Promise<CachedToken>>();
+
+/**
+ * Token provider that caches tokens minted by fetchToken() under a cache key.
+ */
+abstract class CachedTokenProvider implements TokenProvider {
+  readonly refreshable = true;
+
+  protected abstract readonly cacheKey: Promise<string>;
+
+  protected abstract fetchToken(): Promise<CachedToken>;
+
+  async getToken(): Promise<string> {
+    const cacheKey = await this.cacheKey;
+    const cached = tokenCache.get(cacheKey);
+    if (cached && cached.expiresAt - TOKEN_EXPIRY_SKEW_MS > Date.now()) {
+      return cached.accessToken;
+    }
+
+    // Share one in-flight exchange between concurrent callers
+    let pending = pendingTokens.get(cacheKey);
+    if (!pending) {
+      pending = this.fetchToken().finally(() => pendingTokens.delete(cacheKey));
+      pendingTokens.set(cacheKey, pending);
+    }
+    const token = await pending;
+    tokenCache.set(cacheKey, token);
+    return token.accessToken;
+  }
+
+  async invalidate(): Promise<void> {
+    tokenCache.delete(await this.cacheKey);
+  }
+}
+
+// =============================================================================
+// Token Provider Implementations
+// =============================================================================
+
+/**
+ * Personal access token passed through unchanged.
+ */
+class StaticTokenProvider implements TokenProvider {
+  readonly refreshable = false;
+  private token: string;
+
+  constructor(token: string) {
+    this.token = token;
+  }
+
+  async getToken(): Promise<string> {
+    return this.token;
+  }
+
+  async invalidate(): Promise<void> {
+    // Nothing to refresh
+  }
+}
+
+/**
+ * Token provider for credentials that change during a session, resolving the token from
+ * the current credentials on every call. Stateful OAuth sessions receive a refreshed
+ * access token with each request, which replaces the one the session started with.
+ */
+class CurrentCredentialsTokenProvider implements TokenProvider {
+  private getCredentials: () => TenantCredentials;
+  private baseUrl: string;
+
+  constructor(getCredentials: () => TenantCredentials, baseUrl: string) {
+    this.getCredentials = getCredentials;
+    this.baseUrl = baseUrl;
+  }
+
+  get refreshable(): boolean {
+    return this.current().refreshable;
+  }
+
+  async getToken(): Promise<string> {
+    return this.current().getToken();
+  }
+
+  async invalidate(): Promise<void> {
+    await this.current().invalidate();
+  }
+
+  private current(): TokenProvider {
+    return createTokenProvider(this.getCredentials(), this.baseUrl);
+  }
+}
+
+/**
+ * OAuth machine-to-machine flow for a Databricks service principal.
+ */
+class OAuthM2MTokenProvider extends CachedTokenProvider {
+  protected readonly cacheKey: Promise<string>;
+  private tokenUrl: string;
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor(baseUrl: string, clientId: string, clientSecret: string) {
+    super();
+    this.tokenUrl = `${baseUrl}/oidc/v1/token`;
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.cacheKey = sha256(clientSecret).then((hash) => `m2m:${baseUrl}:${clientId}:${hash}`);
+  }
+
+  protected async fetchToken(): Promise<CachedToken> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${this.clientId}:${this.clientSecret}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ grant_type: 'client_credentials', scope: 'all-apis' }),
+    });
+    return parseTokenResponse(response, 'Databricks OAuth token exchange');
+  }
+}
+
+/**
+ * Entra ID client credentials flow for an Azure service principal.
+ */
+class AzureServicePrincipalTokenProvider extends CachedTokenProvider {
+  protected readonly cacheKey: Promise<string>;
+  private tokenUrl: string;
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor(tenantId: string, clientId: string, clientSecret: string) {
+    super();
+    this.tokenUrl = `${AZURE_LOGIN_HOST}/${encodeURIComponent(tenantId)}/oauth2/v2.0/token`;
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+    this.cacheKey = sha256(clientSecret).then((hash) => `azure:${tenantId}:${clientId}:${hash}`);
+  }
+
+  protected async fetchToken(): Promise<CachedToken> {
+    const response = await fetch(this.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        scope: `${AZURE_DATABRICKS_RESOURCE_ID}/.default`,
+      }),
+    });
+    return parseTokenResponse(response, 'Azure Entra ID token exchange');
+  }
+}
+
+/**
+ * Parse a standard OAuth 2.0 token endpoint response.
+ */
+async function parseTokenResponse(response: Response, source: string): Promise<CachedToken> {
+  const text = await response.text();
+  let body: {
+    access_token?: string;
+    expires_in?: number | string;
+    error_description?: string;
+    error?: string;
+  } = {};
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    // Leave body empty and report the status below
+  }
+
+  if (!response.ok || !body.access_token) {
+    const reason = body.error_description || body.error || `HTTP ${response.status}`;
+    throw new AuthenticationError(`${source} failed: ${reason}`);
+  }
+
+  const expiresInSeconds = Number(body.expires_in) || 3600;
+  return {
+    accessToken: body.access_token,
+    expiresAt: Date.now() + expiresInSeconds * 1000,
+  };
+}
+
+// =============================================================================
+// Factory Function
+// =============================================================================
+
+/**
+ * Create the token provider matching the supplied credentials.
+ *
+ * @param credentials - Tenant credentials parsed from request headers
+ * @param baseUrl - Normalized workspace URL (no trailing slash)
+ */
+export function createTokenProvider(
+  credentials: TenantCredentials,
+  baseUrl: string
+): TokenProvider {
+  if (credentials.token) {
+    return new StaticTokenProvider(credentials.token);
+  }
+  if (credentials.azureToken) {
+    return new StaticTokenProvider(credentials.azureToken);
+  }
+  if (credentials.azureTenantId && credentials.azureClientId && credentials.azureClientSecret) {
+    return new AzureServicePrincipalTokenProvider(
+      credentials.azureTenantId,
+      credentials.azureClientId,
+      credentials.azureClientSecret
+    );
+  }
+  if (credentials.clientId && credentials.clientSecret) {
+    return new OAuthM2MTokenProvider(baseUrl, credentials.clientId, credentials.clientSecret);
+  }
+  throw new AuthenticationError(
+    'No credentials provided. Include X-Databricks-Token, X-Databricks-Client-Id and X-Databricks-Client-Secret, or X-Databricks-Azure-* headers.'
+  );
+}
+
+/**
+ * Create a token provider that reads the credentials again on every call.
+ *
+ * @param getCredentials - Returns the current tenant credentials
+ * @param baseUrl - Normalized workspace URL (no trailing slash)
+ */
+export function createCurrentTokenProvider(
+  getCredentials: () => TenantCredentials,
+  baseUrl: string
+): TokenProvider {
+  return new CurrentCredentialsTokenProvider(getCredentials, baseUrl);
+}
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createResponseCache } from './cache.js';
+import type { Env, TenantCredentials } from './types/env.js';
+
+const host = 'https://adb-1.azuredatabricks.net';
+
+/**
+ * KV namespace backed by a map, honouring the 'json' read type
+ */
+function memoryKv(): KVNamespace {
+  const values = new Map<string, string>();
+  return {
+    get: async (key: string, type?: string) => {
+      const value = values.get(key);
+      return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+  } as unknown as KVNamespace;
+}
+
+describe('createResponseCache', () => {
+  it('is disabled by RESPONSE_CACHE=off', () => {
+    assert.equal(createResponseCache({ RESPONSE_CACHE: 'Off' } as Env, { host }), undefined);
+  });
+
+  it('serves cached responses until their resource is invalidated', async () => {
+    const cache = createResponseCache({} as Env, { host, token: 'dapi-1' });
+    assert.ok(cache);
+    await cache.set('catalogs', '/catalogs', { catalogs: ['main'] });
+    await cache.set('warehouses', '/warehouses', { warehouses: [] });
+    assert.deepEqual(await cache.get('catalogs', '/catalogs'), { catalogs: ['main'] });
+    assert.equal(await cache.get('catalogs', '/other'), undefined);
+
+    await cache.invalidate(['catalogs']);
+    assert.equal(await cache.get('catalogs', '/catalogs'), undefined);
+    assert.deepEqual(await cache.get('warehouses', '/warehouses'), { warehouses: [] });
+  });
+});
+
+describe('KV response cache', () => {
+  const servicePrincipal: TenantCredentials = { host, clientId: 'sp', clientSecret: 'secret' };
+
+  it('shares entries between caches for the same credentials', async () => {
+    const env = { CACHE_KV: memoryKv() } as Env;
+    await createResponseCache(env, servicePrincipal)?.set('catalogs', '/catalogs', ['main']);
+    assert.deepEqual(
+      await createResponseCache(env, { ...servicePrincipal })?.get('catalogs', '/catalogs'),
+      ['main']
+    );
+  });
+
+  it('keys entries on the secret, not only the client ID', async () => {
+    const env = { CACHE_KV: memoryKv() } as Env;
+    await createResponseCache(env, servicePrincipal)?.set('catalogs', '/catalogs', ['main']);
+    const guess = createResponseCache(env, { ...servicePrincipal, clientSecret: 'guess' });
+    assert.equal(await guess?.get('catalogs', '/catalogs'), undefined);
+  });
+
+  it('keeps OAuth entries when the access token is refreshed', async () => {
+    const env = { CACHE_KV: memoryKv() } as Env;
+    const oauth = { host, token: 'first', subject: 'grant-1' };
+    await createResponseCache(env, oauth)?.set('schemas', '/schemas', ['default']);
+    const refreshed = createResponseCache(env, { ...oauth, token: 'refreshed' });
+    assert.deepEqual(await refreshed?.get('schemas', '/schemas'), ['default']);
+  });
+
+  it('invalidates entries for every cache of the tenant', async () => {
+    const env = { CACHE_KV: memoryKv() } as Env;
+    const writer = createResponseCache(env, servicePrincipal);
+    const reader = createResponseCache(env, servicePrincipal);
+    await writer?.set('tables', '/tables', ['t']);
+    await writer?.set('clusters', '/clusters', ['c']);
+
+    await reader?.invalidate(['tables']);
+    assert.equal(await writer?.get('tables', '/tables'), undefined);
+    assert.deepEqual(await writer?.get('clusters', '/clusters'), ['c']);
+
+    // Entries written after the invalidation are served again
+    await writer?.set('tables', '/tables', ['t2']);
+    assert.deepEqual(await reader?.get('tables', '/tables'), ['t2']);
+  });
+});
+
+describe('response cache TTL', () => {
+  /**
+   * Expiration TTL of the KV entry a cache for `credentials` writes for a catalog list
+   */
+  async function catalogTtl(credentials: TenantCredentials): Promise<number | undefined> {
+    let ttl: number | undefined;
+    const kv = {
+      get: async () => null,
+      put: async (_key: string, _value: string, options?: { expirationTtl?: number }) => {
+        ttl = options?.expirationTtl;
+      },
+    } as unknown as KVNamespace;
+    await createResponseCache({ CACHE_KV: kv } as Env, credentials)?.set('catalogs', '/c', []);
+    return ttl;
+  }
+
+  it('caps entries for tokens passed as-is at a minute', async () => {
+    assert.equal(await catalogTtl({ host, token: 'dapi-1' }), 60);
+    assert.equal(await catalogTtl({ host, azureToken: 'eyJ-1' }), 60);
+  });
+
+  it('keeps the resource TTL for service principals and OAuth grants', async () => {
+    assert.equal(await catalogTtl({ host, clientId: 'sp', clientSecret: 'secret' }), 300);
+    assert.equal(await catalogTtl({ host, token: 'access', subject: 'grant-1' }), 300);
+  });
+});
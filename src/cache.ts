@@ -0,0 +1,197 @@
+/**
+ * Response Cache
+ *
+ * Read-through cache for slow-changing workspace metadata (Unity Catalog objects, warehouse
+ * and cluster lists, MLflow experiments), so calls repeated within a conversation do not
+ * each make a round trip to the workspace. The client decides what is cached and for how
+ * long (see CACHE_TTL_SECONDS) and invalidates a resource whenever it writes to it.
+ *
+ * Entries are stored in CACHE_KV when it is bound, keyed by tenant fingerprint, so every
+ * Worker instance shares them. KV invalidation bumps a per-resource generation instead of
+ * deleting keys; as KV is eventually consistent, other locations may see the old generation
+ * for up to a minute. Without KV, each session (or stateless request) has its own cache in
+ * memory. RESPONSE_CACHE=off disables caching.
+ *
+ * A personal access token or Entra ID token passed as-is is never checked before a hit is
+ * served, so once revoked it can still read cached metadata until the entry expires. Entries
+ * for such tokens are therefore kept for at most STATIC_TOKEN_MAX_TTL_SECONDS.
+ */
+
+import { type Env, getTenantFingerprint, type TenantCredentials } from './types/env.js';
+import { sha256 } from './utils/crypto.js';
+
+const KV_PREFIX = 'cache:';
+
+/** Upper bound for entries kept in memory per session */
+const MAX_MEMORY_ENTRIES = 200;
+
+/** Shortest expiration CACHE_KV accepts */
+const MIN_KV_TTL_SECONDS = 60;
+
+/** Longest a response is cached for a PAT or Entra ID token passed as-is */
+const STATIC_TOKEN_MAX_TTL_SECONDS = 60;
+
+/** How long CACHE_KV keeps a resource generation after it last changed */
+const GENERATION_TTL_SECONDS = 24 * 60 * 60;
+
+// =============================================================================
+// Cache Types
+// =============================================================================
+
+/**
+ * Kinds of cached responses; each has its own TTL and is invalidated on its own
+ */
+export type CacheResource =
+  | 'catalogs'
+  | 'schemas'
+  | 'tables'
+  | 'volumes'
+  | 'functions'
+  | 'warehouses'
+  | 'clusters'
+  | 'experiments';
+
+/** How long a cached response is served, per resource */
+export const CACHE_TTL_SECONDS: Record<CacheResource, number> = {
+  catalogs: 300,
+  schemas: 300,
+  tables: 120,
+  volumes: 300,
+  functions: 300,
+  // Lists that include lifecycle state go stale quickly
+  warehouses: 30,
+  clusters: 30,
+  experiments: 300,
+};
+
+// =============================================================================
+// Response Cache Interface
+// =============================================================================
+
+export interface ResponseCache {
+  /** Cached response for a request, or undefined when missing or expired */
+  get<T>(resource: CacheResource, key: string): Promise<T | undefined>;
+
+  /** Cache a response for the resource's TTL, capped for static tokens */
+  set(resource: CacheResource, key: string, value: unknown): Promise<void>;
+
+  /** Drop every cached response for the resources */
+  invalidate(resources: readonly CacheResource[]): Promise<void>;
+}
+
+// =============================================================================
+// Response Cache Implementations
+// =============================================================================
+
+class MemoryResponseCache implements ResponseCache {
+  private entries = new Map<
+    string,
+    { resource: CacheResource; value: unknown; expiresAt: number }
+  >();
+  private maxTtlSeconds: number;
+
+  constructor(maxTtlSeconds: number) {
+    this.maxTtlSeconds = maxTtlSeconds;
+  }
+
+  async get<T>(resource: CacheResource, key: string): Promise<T | undefined> {
+    const entry = this.entries.get(`${resource}:${key}`);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+    return entry.value as T;
+  }
+
+  async set(resource: CacheResource, key: string, value: unknown): Promise<void> {
+    const now = Date.now();
+    for (const [stored, entry] of this.entries) {
+      if (entry.expiresAt <= now || this.entries.size >= MAX_MEMORY_ENTRIES) {
+        this.entries.delete(stored);
+      }
+    }
+    this.entries.set(`${resource}:${key}`, {
+      resource,
+      value,
+      expiresAt: now + Math.min(CACHE_TTL_SECONDS[resource], this.maxTtlSeconds) * 1000,
+    });
+  }
+
+  async invalidate(resources: readonly CacheResource[]): Promise<void> {
+    for (const [stored, entry] of this.entries) {
+      if (resources.includes(entry.resource)) {
+        this.entries.delete(stored);
+      }
+    }
+  }
+}
+
+class KvResponseCache implements ResponseCache {
+  private kv: KVNamespace;
+  private tenant: Promise<string>;
+  private maxTtlSeconds: number;
+
+  constructor(kv: KVNamespace, tenant: Promise<string>, maxTtlSeconds: number) {
+    this.kv = kv;
+    this.tenant = tenant;
+    this.maxTtlSeconds = maxTtlSeconds;
+  }
+
+  async get<T>(resource: CacheResource, key: string): Promise<T | undefined> {
+    const value = await this.kv.get<T>(await this.entryKey(resource, key), 'json');
+    return value ?? undefined;
+  }
+
+  async set(resource: CacheResource, key: string, value: unknown): Promise<void> {
+    await this.kv.put(await this.entryKey(resource, key), JSON.stringify(value), {
+      expirationTtl: Math.max(
+        Math.min(CACHE_TTL_SECONDS[resource], this.maxTtlSeconds),
+        MIN_KV_TTL_SECONDS
+      ),
+    });
+  }
+
+  async invalidate(resources: readonly CacheResource[]): Promise<void> {
+    const tenant = await this.tenant;
+    await Promise.all(
+      resources.map((resource) =>
+        this.kv.put(`${KV_PREFIX}${tenant}:${resource}:generation`, String(Date.now()), {
+          expirationTtl: GENERATION_TTL_SECONDS,
+        })
+      )
+    );
+  }
+
+  /**
+   * Key of a cached response under the resource's current generation, so bumping the
+   * generation orphans every older entry. Request keys are hashed to fit KV's key limit.
+   */
+  private async entryKey(resource: CacheResource, key: string): Promise<string> {
+    const tenant = await this.tenant;
+    const generation = (await this.kv.get(`${KV_PREFIX}${tenant}:${resource}:generation`)) ?? '0';
+    return `${KV_PREFIX}${tenant}:${resource}:${generation}:${await sha256(key)}`;
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create the response cache for a tenant, or undefined when RESPONSE_CACHE is "off"
+ */
+export function createResponseCache(
+  env: Env,
+  credentials: TenantCredentials
+): ResponseCache | undefined {
+  if ((env.RESPONSE_CACHE || '').trim().toLowerCase() === 'off') {
+    return undefined;
+  }
+  // OAuth access tokens are short-lived and checked against their grant; SP secrets are
+  // exchanged before every hit (see DatabricksClient.request)
+  const isStaticToken =
+    Boolean(credentials.token || credentials.azureToken) && !credentials.subject;
+  const maxTtlSeconds = isStaticToken ? STATIC_TOKEN_MAX_TTL_SECONDS : Number.POSITIVE_INFINITY;
+  return env.CACHE_KV
+    ? new KvResponseCache(env.CACHE_KV, getTenantFingerprint(credentials), maxTtlSeconds)
+    : new MemoryResponseCache(maxTtlSeconds);
+}
@@ -0,0 +1,26 @@
+/**
+ * Tool Call Cancellation
+ *
+ * Carries the abort signal of the MCP request a tool call serves down to the Databricks
+ * client, so the client's requests are aborted when the MCP client cancels the call or
+ * disconnects. The wrapper in src/tools/cancellation.ts binds the signal for the duration
+ * of the call; the client reads it without it being passed through every method.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+const callSignal = new AsyncLocalStorage<AbortSignal>();
+
+/**
+ * Run a tool call with the abort signal of its MCP request
+ */
+export function runWithCallSignal<T>(signal: AbortSignal, run: () => T): T {
+  return callSignal.run(signal, run);
+}
+
+/**
+ * Abort signal of the tool call currently running, if any
+ */
+export function getCallSignal(): AbortSignal | undefined {
+  return callSignal.getStore();
+}
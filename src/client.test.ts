@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { createResponseCache } from './cache.js';
+import { createDatabricksClient } from './client.js';
+import type { Env } from './types/env.js';
+import { AuthenticationError, RateLimitError, ReadOnlyModeError } from './utils/errors.js';
+
+const originalFetch = globalThis.fetch;
+
+/**
+ * Replace fetch with a handler, recording the path of every request
+ */
+function mockFetch(handler: (url: URL, init?: RequestInit) => Response): string[] {
+  const paths: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    paths.push(url.pathname);
+    return handler(url, init);
+  }) as typeof fetch;
+  return paths;
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+});
+
+describe('response cache', () => {
+  it('only serves cache hits to service principals whose secret authenticates', async () => {
+    const host = 'https://cache-auth.cloud.databricks.com';
+    const paths = mockFetch((url, init) => {
+      if (url.pathname === '/oidc/v1/token') {
+        const authorization = new Headers(init?.headers).get('Authorization');
+        return authorization === `Basic ${btoa('sp:secret')}`
+          ? json({ access_token: 'minted', expires_in: 3600 })
+          : json({ error: 'invalid_client' }, 401);
+      }
+      return json({ catalogs: [{ name: 'main' }] });
+    });
+    const cache = createResponseCache({} as Env, { host });
+
+    const owner = createDatabricksClient(
+      { host, clientId: 'sp', clientSecret: 'secret' },
+      { cache }
+    );
+    assert.deepEqual((await owner.listCatalogs()).items, [{ name: 'main' }]);
+    assert.deepEqual((await owner.listCatalogs()).items, [{ name: 'main' }]);
+    assert.deepEqual(paths, ['/oidc/v1/token', '/api/2.1/unity-catalog/catalogs']);
+
+    const guess = createDatabricksClient(
+      { host, clientId: 'sp', clientSecret: 'guess' },
+      { cache }
+    );
+    await assert.rejects(guess.listCatalogs(), AuthenticationError);
+  });
+
+  it('reads fresh data when noCache is set', async () => {
+    const host = 'https://cache-fresh.cloud.databricks.com';
+    let listed = 0;
+    mockFetch(() => json({ catalogs: [{ name: `catalog-${++listed}` }] }));
+    const credentials = { host, token: 'dapi-1' };
+    const client = createDatabricksClient(credentials, {
+      cache: createResponseCache({} as Env, credentials),
+    });
+
+    assert.deepEqual((await client.listCatalogs()).items, [{ name: 'catalog-1' }]);
+    assert.deepEqual((await client.listCatalogs()).items, [{ name: 'catalog-1' }]);
+    assert.deepEqual((await client.listCatalogs({ noCache: true })).items, [{ name: 'catalog-2' }]);
+  });
+});
+
+describe('session credentials', () => {
+  it('uses the access token refreshed partway through a session', async () => {
+    const host = 'https://session-refresh.cloud.databricks.com';
+    const tokens: (string | null)[] = [];
+    mockFetch((_url, init) => {
+      tokens.push(new Headers(init?.headers).get('Authorization'));
+      return json({ warehouses: [] });
+    });
+    // Props as the stateful session sees them; each OAuth request replaces them
+    let props = { credentials: { host, token: 'first', subject: 'grant-1' } };
+    const client = createDatabricksClient(props.credentials, {
+      getCredentials: () => props.credentials,
+    });
+
+    await client.listWarehouses();
+    props = { credentials: { ...props.credentials, token: 'refreshed' } };
+    await client.listWarehouses();
+    assert.deepEqual(tokens, ['Bearer first', 'Bearer refreshed']);
+  });
+});
+
+describe('read-only mode', () => {
+  it('runs queries and refuses mutating statements before they reach the workspace', async () => {
+    const host = 'https://read-only.cloud.databricks.com';
+    const paths = mockFetch(() => json({ statement_id: 's-1', status: { state: 'SUCCEEDED' } }));
+    const client = createDatabricksClient({ host, token: 'dapi-1', readOnly: true });
+
+    await client.executeStatement('wh-1', 'SELECT 1');
+    await assert.rejects(
+      client.executeStatement('wh-1', "SELECT '--'; DROP TABLE t"),
+      ReadOnlyModeError
+    );
+    assert.deepEqual(paths, ['/api/2.0/sql/statements']);
+  });
+});
+
+describe('retries', () => {
+  const retry = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5, budgetMs: 25_000 };
+
+  it('backs off and retries a rate limit without Retry-After', async () => {
+    const host = 'https://retry-backoff.cloud.databricks.com';
+    let attempts = 0;
+    mockFetch(() =>
+      ++attempts < 3
+        ? json({ error_code: 'REQUEST_LIMIT_EXCEEDED', message: 'slow down' }, 429)
+        : json({ warehouses: [{ id: 'wh-1' }] })
+    );
+    const client = createDatabricksClient({ host, token: 'dapi-1' }, { retry });
+
+    assert.deepEqual((await client.listWarehouses()).items, [{ id: 'wh-1' }]);
+    assert.equal(attempts, 3);
+  });
+
+  it('gives up when Retry-After is past the budget, keeping the wait for the hint', async () => {
+    const host = 'https://retry-after.cloud.databricks.com';
+    let attempts = 0;
+    mockFetch(() => {
+      attempts++;
+      return json({ error_code: 'REQUEST_LIMIT_EXCEEDED' }, 429, { 'Retry-After': '120' });
+    });
+    const client = createDatabricksClient({ host, token: 'dapi-1' }, { retry });
+
+    await assert.rejects(client.listWarehouses(), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterSeconds, 120);
+      return true;
+    });
+    assert.equal(attempts, 1);
+  });
+
+  it('suggests the default wait for a rate limit without Retry-After', async () => {
+    const host = 'https://retry-default.cloud.databricks.com';
+    mockFetch(() => json({ error_code: 'REQUEST_LIMIT_EXCEEDED' }, 429));
+    const client = createDatabricksClient(
+      { host, token: 'dapi-1' },
+      { retry: { ...retry, maxRetries: 1 } }
+    );
+
+    await assert.rejects(client.listWarehouses(), (error: unknown) => {
+      assert.ok(error instanceof RateLimitError);
+      assert.equal(error.retryAfterSeconds, 60);
+      assert.equal(error.retryAfterGiven, false);
+      return true;
+    });
+  });
+});
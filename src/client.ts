@@ -7,6 +7,10 @@
  * allowing a single server to serve multiple tenants with different workspaces.
  */
 
+import { createCurrentTokenProvider, createTokenProvider, type TokenProvider } from './auth.js';
+import type { CacheResource, ResponseCache } from './cache.js';
+import { getCallSignal } from './cancellation.js';
+import { isStatementInFlight } from './session.js';
 import type {
   Catalog,
   Cluster,
@@ -20,7 +24,10 @@ import type {
   InstancePool,
   Job,
   ModelVersion,
+  PageOptions,
+  PaginatedResponse,
   Pipeline,
+  ReadOptions,
   RegisteredModel,
   Repo,
   Run,
@@ -33,10 +40,29 @@ import type {
   Table,
   TokenInfo,
   Volume,
+  WorkspaceExportResponse,
   WorkspaceObject,
 } from './types/databricks.js';
 import type { TenantCredentials } from './types/env.js';
-import { AuthenticationError, DatabricksApiError, RateLimitError } from './utils/errors.js';
+import {
+  createApiError,
+  DatabricksApiError,
+  formatErrorForLogging,
+  isRetryableError,
+  RateLimitError,
+  ReadOnlyModeError,
+  RequestCancelledError,
+  RequestTimeoutError,
+} from './utils/errors.js';
+import {
+  getCursorOffset,
+  getCursorToken,
+  pageFromOffset,
+  pageFromToken,
+  paginateItems,
+} from './utils/pagination.js';
+import { redactText } from './utils/redact.js';
+import { isReadOnlyStatement } from './utils/sql.js';
 
 // =============================================================================
 // Databricks Client Interface
@@ -63,32 +89,30 @@ export interface DatabricksClient {
   cancelStatement(statementId: string): Promise<void>;
 
   // SQL Warehouses
-  listWarehouses(): Promise<SqlWarehouse[]>;
+  listWarehouses(page?: PageOptions): Promise<PaginatedResponse<SqlWarehouse>>;
   getWarehouse(warehouseId: string): Promise<SqlWarehouse>;
   startWarehouse(warehouseId: string): Promise<void>;
   stopWarehouse(warehouseId: string): Promise<void>;
 
   // Jobs
-  listJobs(options?: { limit?: number; offset?: number; name?: string }): Promise<{ jobs: Job[]; has_more: boolean }>;
+  listJobs(
+    options?: { name?: string; expandTasks?: boolean } & PageOptions
+  ): Promise<PaginatedResponse<Job>>;
   getJob(jobId: number): Promise<Job>;
   createJob(settings: Job['settings']): Promise<{ job_id: number }>;
   updateJob(jobId: number, settings: Partial<Job['settings']>): Promise<void>;
   deleteJob(jobId: number): Promise<void>;
   runJobNow(jobId: number, params?: Record<string, unknown>): Promise<{ run_id: number }>;
-  listRuns(options?: {
-    jobId?: number;
-    activeOnly?: boolean;
-    completedOnly?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ runs: Run[]; has_more: boolean }>;
+  listRuns(
+    options?: { jobId?: number; activeOnly?: boolean; completedOnly?: boolean } & PageOptions
+  ): Promise<PaginatedResponse<Run>>;
   getRun(runId: number): Promise<Run>;
   getRunOutput(runId: number): Promise<unknown>;
   cancelRun(runId: number): Promise<void>;
   cancelAllRuns(jobId: number): Promise<void>;
 
   // Clusters
-  listClusters(): Promise<Cluster[]>;
+  listClusters(page?: PageOptions): Promise<PaginatedResponse<Cluster>>;
   getCluster(clusterId: string): Promise<Cluster>;
   createCluster(spec: Partial<Cluster>): Promise<{ cluster_id: string }>;
   editCluster(clusterId: string, spec: Partial<Cluster>): Promise<void>;
@@ -96,12 +120,12 @@ export interface DatabricksClient {
   restartCluster(clusterId: string): Promise<void>;
   terminateCluster(clusterId: string): Promise<void>;
   deleteCluster(clusterId: string): Promise<void>;
-  listClusterEvents(clusterId: string, options?: { limit?: number }): Promise<{ events: ClusterEvent[]; next_page?: unknown }>;
+  listClusterEvents(clusterId: string, page?: PageOptions): Promise<PaginatedResponse<ClusterEvent>>;
   pinCluster(clusterId: string): Promise<void>;
   unpinCluster(clusterId: string): Promise<void>;
 
   // Workspace
-  listWorkspace(path: string): Promise<WorkspaceObject[]>;
+  listWorkspace(path: string, page?: PageOptions): Promise<PaginatedResponse<WorkspaceObject>>;
   getWorkspaceStatus(path: string): Promise<WorkspaceObject>;
   mkdirs(path: string): Promise<void>;
   deleteWorkspace(path: string, recursive?: boolean): Promise<void>;
@@ -115,10 +139,10 @@ export interface DatabricksClient {
   exportWorkspace(
     path: string,
     format?: 'SOURCE' | 'HTML' | 'JUPYTER' | 'DBC' | 'R_MARKDOWN'
-  ): Promise<{ content: string }>;
+  ): Promise<WorkspaceExportResponse>;
 
   // DBFS
-  listDbfs(path: string): Promise<DbfsFileInfo[]>;
+  listDbfs(path: string, page?: PageOptions): Promise<PaginatedResponse<DbfsFileInfo>>;
   getDbfsStatus(path: string): Promise<DbfsFileInfo>;
   mkdirsDbfs(path: string): Promise<void>;
   deleteDbfs(path: string, recursive?: boolean): Promise<void>;
@@ -127,15 +151,15 @@ export interface DatabricksClient {
   moveDbfs(sourcePath: string, destinationPath: string): Promise<void>;
 
   // Unity Catalog - Catalogs
-  listCatalogs(): Promise<Catalog[]>;
-  getCatalog(name: string): Promise<Catalog>;
+  listCatalogs(page?: PageOptions): Promise<PaginatedResponse<Catalog>>;
+  getCatalog(name: string, options?: ReadOptions): Promise<Catalog>;
   createCatalog(name: string, options?: { comment?: string; properties?: Record<string, string> }): Promise<Catalog>;
   updateCatalog(name: string, options: { comment?: string; owner?: string }): Promise<Catalog>;
   deleteCatalog(name: string, force?: boolean): Promise<void>;
 
   // Unity Catalog - Schemas
-  listSchemas(catalogName: string): Promise<Schema[]>;
-  getSchema(fullName: string): Promise<Schema>;
+  listSchemas(catalogName: string, page?: PageOptions): Promise<PaginatedResponse<Schema>>;
+  getSchema(fullName: string, options?: ReadOptions): Promise<Schema>;
   createSchema(
     catalogName: string,
     name: string,
@@ -145,13 +169,13 @@ export interface DatabricksClient {
   deleteSchema(fullName: string): Promise<void>;
 
   // Unity Catalog - Tables
-  listTables(catalogName: string, schemaName: string): Promise<Table[]>;
-  getTable(fullName: string): Promise<Table>;
+  listTables(catalogName: string, schemaName: string, page?: PageOptions): Promise<PaginatedResponse<Table>>;
+  getTable(fullName: string, options?: ReadOptions): Promise<Table>;
   deleteTable(fullName: string): Promise<void>;
 
   // Unity Catalog - Volumes
-  listVolumes(catalogName: string, schemaName: string): Promise<Volume[]>;
-  getVolume(fullName: string): Promise<Volume>;
+  listVolumes(catalogName: string, schemaName: string, page?: PageOptions): Promise<PaginatedResponse<Volume>>;
+  getVolume(fullName: string, options?: ReadOptions): Promise<Volume>;
   createVolume(
     catalogName: string,
     schemaName: string,
@@ -163,26 +187,22 @@ export interface DatabricksClient {
   deleteVolume(fullName: string): Promise<void>;
 
   // Unity Catalog - Functions
-  listFunctions(catalogName: string, schemaName: string): Promise<Function[]>;
-  getFunction(fullName: string): Promise<Function>;
+  listFunctions(catalogName: string, schemaName: string, page?: PageOptions): Promise<PaginatedResponse<Function>>;
+  getFunction(fullName: string, options?: ReadOptions): Promise<Function>;
 
   // MLflow - Experiments
-  listExperiments(options?: { maxResults?: number; pageToken?: string }): Promise<{ experiments: Experiment[]; next_page_token?: string }>;
-  getExperiment(experimentId: string): Promise<Experiment>;
-  getExperimentByName(experimentName: string): Promise<Experiment>;
+  listExperiments(page?: PageOptions): Promise<PaginatedResponse<Experiment>>;
+  getExperiment(experimentId: string, options?: ReadOptions): Promise<Experiment>;
+  getExperimentByName(experimentName: string, options?: ReadOptions): Promise<Experiment>;
   createExperiment(name: string, artifactLocation?: string): Promise<{ experiment_id: string }>;
   deleteExperiment(experimentId: string): Promise<void>;
   restoreExperiment(experimentId: string): Promise<void>;
   updateExperiment(experimentId: string, newName: string): Promise<void>;
 
   // MLflow - Runs
-  searchMlflowRuns(options: {
-    experimentIds: string[];
-    filter?: string;
-    maxResults?: number;
-    orderBy?: string[];
-    pageToken?: string;
-  }): Promise<{ runs: ExperimentRun[]; next_page_token?: string }>;
+  searchMlflowRuns(
+    options: { experimentIds: string[]; filter?: string; orderBy?: string[] } & PageOptions
+  ): Promise<PaginatedResponse<ExperimentRun>>;
   getMlflowRun(runId: string): Promise<ExperimentRun>;
   createMlflowRun(experimentId: string, options?: {
     runName?: string;
@@ -197,49 +217,49 @@ export interface DatabricksClient {
   setTag(runId: string, key: string, value: string): Promise<void>;
 
   // MLflow - Models (Unity Catalog)
-  listRegisteredModels(options?: { maxResults?: number; pageToken?: string }): Promise<{ registered_models: RegisteredModel[]; next_page_token?: string }>;
+  listRegisteredModels(page?: PageOptions): Promise<PaginatedResponse<RegisteredModel>>;
   getRegisteredModel(name: string): Promise<RegisteredModel>;
   createRegisteredModel(name: string, options?: { description?: string; tags?: Array<{ key: string; value: string }> }): Promise<RegisteredModel>;
   updateRegisteredModel(name: string, description: string): Promise<RegisteredModel>;
   deleteRegisteredModel(name: string): Promise<void>;
-  listModelVersions(name: string): Promise<ModelVersion[]>;
+  listModelVersions(name: string, page?: PageOptions): Promise<PaginatedResponse<ModelVersion>>;
   getModelVersion(name: string, version: string): Promise<ModelVersion>;
   deleteModelVersion(name: string, version: string): Promise<void>;
 
   // Secrets
-  listSecretScopes(): Promise<SecretScope[]>;
+  listSecretScopes(page?: PageOptions): Promise<PaginatedResponse<SecretScope>>;
   createSecretScope(scope: string, options?: { backendType?: 'DATABRICKS' }): Promise<void>;
   deleteSecretScope(scope: string): Promise<void>;
-  listSecrets(scope: string): Promise<SecretMetadata[]>;
+  listSecrets(scope: string, page?: PageOptions): Promise<PaginatedResponse<SecretMetadata>>;
   putSecret(scope: string, key: string, stringValue: string): Promise<void>;
   deleteSecret(scope: string, key: string): Promise<void>;
-  listSecretAcls(scope: string): Promise<SecretAcl[]>;
+  listSecretAcls(scope: string, page?: PageOptions): Promise<PaginatedResponse<SecretAcl>>;
   getSecretAcl(scope: string, principal: string): Promise<SecretAcl>;
   putSecretAcl(scope: string, principal: string, permission: 'READ' | 'WRITE' | 'MANAGE'): Promise<void>;
   deleteSecretAcl(scope: string, principal: string): Promise<void>;
 
   // Repos
-  listRepos(options?: { pathPrefix?: string; nextPageToken?: string }): Promise<{ repos: Repo[]; next_page_token?: string }>;
+  listRepos(options?: { pathPrefix?: string } & PageOptions): Promise<PaginatedResponse<Repo>>;
   getRepo(repoId: number): Promise<Repo>;
   createRepo(url: string, provider: string, path?: string): Promise<Repo>;
   updateRepo(repoId: number, options: { branch?: string; tag?: string }): Promise<Repo>;
   deleteRepo(repoId: number): Promise<void>;
 
   // Git Credentials
-  listGitCredentials(): Promise<GitCredential[]>;
+  listGitCredentials(page?: PageOptions): Promise<PaginatedResponse<GitCredential>>;
   createGitCredential(provider: string, username: string, personalAccessToken: string): Promise<GitCredential>;
   updateGitCredential(credentialId: number, username: string, personalAccessToken: string): Promise<void>;
   deleteGitCredential(credentialId: number): Promise<void>;
 
   // Instance Pools
-  listInstancePools(): Promise<InstancePool[]>;
+  listInstancePools(page?: PageOptions): Promise<PaginatedResponse<InstancePool>>;
   getInstancePool(instancePoolId: string): Promise<InstancePool>;
   createInstancePool(spec: Partial<InstancePool>): Promise<{ instance_pool_id: string }>;
   editInstancePool(instancePoolId: string, spec: Partial<InstancePool>): Promise<void>;
   deleteInstancePool(instancePoolId: string): Promise<void>;
 
   // Pipelines (Delta Live Tables)
-  listPipelines(options?: { maxResults?: number; pageToken?: string; filter?: string }): Promise<{ statuses: Pipeline[]; next_page_token?: string }>;
+  listPipelines(options?: { filter?: string } & PageOptions): Promise<PaginatedResponse<Pipeline>>;
   getPipeline(pipelineId: string): Promise<Pipeline>;
   createPipeline(spec: Partial<Pipeline>): Promise<{ pipeline_id: string }>;
   updatePipeline(pipelineId: string, spec: Partial<Pipeline>): Promise<void>;
@@ -248,11 +268,232 @@ export interface DatabricksClient {
   stopPipeline(pipelineId: string): Promise<void>;
 
   // Tokens
-  listTokens(): Promise<TokenInfo[]>;
+  listTokens(page?: PageOptions): Promise<PaginatedResponse<TokenInfo>>;
   createToken(comment?: string, lifetimeSeconds?: number): Promise<{ token_value: string; token_info: TokenInfo }>;
   revokeToken(tokenId: string): Promise<void>;
 }
 
+// =============================================================================
+// Read-Only Guard
+// =============================================================================
+
+/**
+ * Non-GET endpoints that do not change the workspace and stay available in read-only mode.
+ * SQL statements are additionally checked with isReadOnlyStatement() in executeStatement().
+ */
+const READ_ONLY_SAFE_ENDPOINTS: RegExp[] = [
+  /^\/api\/2\.0\/sql\/statements\/?$/,
+  /^\/api\/2\.0\/sql\/statements\/[^/]+\/cancel$/,
+  /^\/api\/2\.0\/clusters\/events$/,
+  /^\/api\/2\.0\/mlflow\/runs\/search$/,
+];
+
+function isReadOnlySafeRequest(method: string, endpoint: string): boolean {
+  if (method === 'GET' || method === 'HEAD') {
+    return true;
+  }
+  const path = endpoint.split('?')[0] ?? endpoint;
+  return READ_ONLY_SAFE_ENDPOINTS.some((pattern) => pattern.test(path));
+}
+
+// =============================================================================
+// Response Cache Rules
+// =============================================================================
+
+const UNITY_CATALOG_RESOURCES: CacheResource[] = [
+  'catalogs',
+  'schemas',
+  'tables',
+  'volumes',
+  'functions',
+];
+
+/**
+ * GET endpoints answered from the response cache, with the resource they belong to.
+ * Warehouse and cluster lookups by ID are not cached, as waits poll them for state changes.
+ */
+const CACHED_ENDPOINTS: Array<[RegExp, CacheResource]> = [
+  [/^\/api\/2\.1\/unity-catalog\/catalogs(\/|$)/, 'catalogs'],
+  [/^\/api\/2\.1\/unity-catalog\/schemas(\/|$)/, 'schemas'],
+  [/^\/api\/2\.1\/unity-catalog\/tables(\/|$)/, 'tables'],
+  [/^\/api\/2\.1\/unity-catalog\/volumes(\/|$)/, 'volumes'],
+  [/^\/api\/2\.1\/unity-catalog\/functions(\/|$)/, 'functions'],
+  [/^\/api\/2\.0\/sql\/warehouses$/, 'warehouses'],
+  [/^\/api\/2\.0\/clusters\/list$/, 'clusters'],
+  [/^\/api\/2\.0\/mlflow\/experiments\/(get|get-by-name|search)$/, 'experiments'],
+];
+
+/**
+ * Endpoint prefixes whose writes invalidate cached resources. Any Unity Catalog write
+ * invalidates all of them, since dropping a catalog or schema drops what it contains.
+ */
+const INVALIDATING_WRITES: Array<[RegExp, CacheResource[]]> = [
+  [/^\/api\/2\.1\/unity-catalog\//, UNITY_CATALOG_RESOURCES],
+  [/^\/api\/2\.0\/sql\/warehouses(\/|$)/, ['warehouses']],
+  [/^\/api\/2\.0\/clusters\//, ['clusters']],
+  [/^\/api\/2\.0\/mlflow\/experiments\//, ['experiments']],
+];
+
+function getCachedResource(method: string, endpoint: string): CacheResource | undefined {
+  if (method !== 'GET') {
+    return undefined;
+  }
+  const path = endpoint.split('?')[0] ?? endpoint;
+  return CACHED_ENDPOINTS.find(([pattern]) => pattern.test(path))?.[1];
+}
+
+function getInvalidatedResources(method: string, endpoint: string): CacheResource[] {
+  if (isReadOnlySafeRequest(method, endpoint)) {
+    return [];
+  }
+  const path = endpoint.split('?')[0] ?? endpoint;
+  return INVALIDATING_WRITES.filter(([pattern]) => pattern.test(path)).flatMap(
+    ([, resources]) => resources
+  );
+}
+
+// =============================================================================
+// Retries
+// =============================================================================
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt */
+  maxRetries: number;
+
+  /** Backoff before the first retry; doubles with every attempt */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff */
+  maxDelayMs: number;
+
+  /** Total time a request may spend including retries; no retry starts past this budget */
+  budgetMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  budgetMs: 25_000,
+};
+
+export interface PaginationOptions {
+  /** Page size used when a list call does not ask for one */
+  defaultPageSize: number;
+
+  /** Largest page size a list call may ask for */
+  maxPageSize: number;
+}
+
+export const DEFAULT_PAGINATION_OPTIONS: PaginationOptions = {
+  defaultPageSize: 20,
+  maxPageSize: 100,
+};
+
+/** Default time a single attempt may wait for Databricks; above the 50s SQL wait_timeout */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 60_000;
+
+export interface DatabricksClientOptions {
+  retry?: Partial<RetryOptions>;
+  pagination?: Partial<PaginationOptions>;
+
+  /** Time a single attempt may wait for Databricks (default DEFAULT_REQUEST_TIMEOUT_MS) */
+  timeoutMs?: number;
+
+  /** Read-through cache for slow-changing metadata; reads always go upstream without it */
+  cache?: ResponseCache;
+
+  /**
+   * Current credentials of a session whose access token changes between calls; tokens are
+   * read from them on every request instead of once from the client's credentials
+   */
+  getCredentials?: () => TenantCredentials;
+}
+
+/** Methods that can be repeated without changing the outcome */
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'PUT', 'DELETE']);
+
+/**
+ * POST endpoints that are safe to repeat: reads, cancellations, and operations that leave
+ * the workspace in the same state however often they run.
+ */
+const RETRY_SAFE_POST_ENDPOINTS: RegExp[] = [
+  /^\/api\/2\.0\/sql\/statements\/[^/]+\/cancel$/,
+  /^\/api\/2\.0\/sql\/warehouses\/[^/]+\/(start|stop)$/,
+  /^\/api\/2\.1\/jobs\/runs\/(cancel|cancel-all)$/,
+  /^\/api\/2\.0\/clusters\/(delete|events|pin|unpin)$/,
+  /^\/api\/2\.0\/(workspace|dbfs)\/mkdirs$/,
+  /^\/api\/2\.0\/mlflow\/runs\/search$/,
+  /^\/api\/2\.0\/secrets\/(put|acls\/put)$/,
+  /^\/api\/2\.0\/pipelines\/[^/]+\/stop$/,
+];
+
+function isRetrySafeRequest(method: string, endpoint: string): boolean {
+  if (IDEMPOTENT_METHODS.has(method)) {
+    return true;
+  }
+  const path = endpoint.split('?')[0] ?? endpoint;
+  return method === 'POST' && RETRY_SAFE_POST_ENDPOINTS.some((pattern) => pattern.test(path));
+}
+
+/**
+ * Parse a Retry-After header given either in seconds or as an HTTP date
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Wait for a delay, ending early when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Settle with a promise, or reject with the signal's reason as soon as it aborts
+ */
+function abortable<T>(promise: Promise<T>, signal: AbortSignal): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function isTimeout(signal: AbortSignal): boolean {
+  return signal.reason instanceof DOMException && signal.reason.name === 'TimeoutError';
+}
+
 // =============================================================================
 // Databricks Client Implementation
 // =============================================================================
@@ -260,61 +501,218 @@ export interface DatabricksClient {
 class DatabricksClientImpl implements DatabricksClient {
   private credentials: TenantCredentials;
   private baseUrl: string;
-
-  constructor(credentials: TenantCredentials) {
+  private tokenProvider?: TokenProvider;
+  private retry: RetryOptions;
+  private pagination: PaginationOptions;
+  private cache?: ResponseCache;
+  private timeoutMs: number;
+  private getCredentials?: () => TenantCredentials;
+
+  constructor(credentials: TenantCredentials, options: DatabricksClientOptions = {}) {
     this.credentials = credentials;
     // Normalize host URL (remove trailing slash)
     this.baseUrl = credentials.host.replace(/\/$/, '');
+    this.retry = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.pagination = { ...DEFAULT_PAGINATION_OPTIONS, ...options.pagination };
+    this.cache = options.cache;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.getCredentials = options.getCredentials;
   }
 
   // ===========================================================================
   // HTTP Request Helper
   // ===========================================================================
 
-  private getAuthHeaders(): Record<string, string> {
-    if (!this.credentials.token) {
-      throw new AuthenticationError(
-        'No credentials provided. Include X-Databricks-Token header.'
-      );
+  private getTokenProvider(): TokenProvider {
+    if (!this.tokenProvider) {
+      this.tokenProvider = this.getCredentials
+        ? createCurrentTokenProvider(this.getCredentials, this.baseUrl)
+        : createTokenProvider(this.credentials, this.baseUrl);
     }
+    return this.tokenProvider;
+  }
+
+  private async getAuthHeaders(): Promise<Record<string, string>> {
+    const token = await this.getTokenProvider().getToken();
 
     return {
-      Authorization: `Bearer ${this.credentials.token}`,
+      Authorization: `Bearer ${token}`,
       'Content-Type': 'application/json',
     };
   }
 
+  private async send(url: string, options: RequestInit): Promise<Response> {
+    const headers = await this.getAuthHeaders();
+    try {
+      return await fetch(url, {
+        ...options,
+        headers: {
+          ...headers,
+          ...(options.headers || {}),
+        },
+      });
+    } catch (error) {
+      // fetch only rejects when no response arrived (DNS, TLS, connection reset)
+      throw new DatabricksApiError(
+        `Network error: ${error instanceof Error ? error.message : String(error)}`,
+        undefined,
+        'NETWORK_ERROR',
+        true
+      );
+    }
+  }
+
+  /**
+   * Delay before the next retry, or undefined to give up.
+   *
+   * Rate limits wait for Retry-After when Databricks sends it; other retryable errors, and
+   * rate limits without Retry-After, back off exponentially with full jitter. Retries that
+   * would end past the time budget are not attempted.
+   */
+  private getRetryDelay(error: unknown, attempt: number, deadline: number): number | undefined {
+    if (attempt >= this.retry.maxRetries || !isRetryableError(error)) {
+      return undefined;
+    }
+    const delay =
+      error instanceof RateLimitError && error.retryAfterGiven
+        ? error.retryAfterSeconds * 1000
+        : Math.random() * Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return Date.now() + delay < deadline ? delay : undefined;
+  }
+
   private async request<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    read: ReadOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${endpoint}`;
+    // Refuse anything that could change the workspace when the tenant is read-only
+    const method = (options.method || 'GET').toUpperCase();
+    if (this.credentials.readOnly && !isReadOnlySafeRequest(method, endpoint)) {
+      throw new ReadOnlyModeError(`${method} ${endpoint.split('?')[0]}`);
+    }
 
-    const response = await fetch(url, {
-      ...options,
-      headers: {
-        ...this.getAuthHeaders(),
-        ...(options.headers || {}),
-      },
-    });
+    const cached = this.cache && getCachedResource(method, endpoint);
+    if (cached && !read.noCache) {
+      // Only serve hits to credentials that authenticate: resolving the token exchanges a
+      // service principal's secret. Tokens passed as-is key the cache themselves, so their
+      // entries were written by requests Databricks accepted; a token revoked since can
+      // read them until they expire, which is why their TTL is capped (see cache.ts).
+      await this.getTokenProvider().getToken();
+      const hit = await this.readCache<T>(cached, endpoint);
+      if (hit !== undefined) {
+        return hit;
+      }
+    }
 
-    // Handle rate limiting
-    if (response.status === 429) {
-      const retryAfter = response.headers.get('Retry-After');
-      throw new RateLimitError(
-        'Rate limit exceeded',
-        retryAfter ? Number.parseInt(retryAfter, 10) : 60
-      );
+    const invalidated = getInvalidatedResources(method, endpoint);
+    try {
+      const response = await this.requestWithRetries<T>(method, endpoint, options);
+      if (cached) {
+        await this.writeCache(cached, endpoint, response);
+      }
+      return response;
+    } finally {
+      // A failed write may still have reached the workspace
+      if (invalidated.length > 0) {
+        await this.invalidateCache(invalidated);
+      }
     }
+  }
 
-    // Handle authentication errors
-    if (response.status === 401 || response.status === 403) {
-      throw new AuthenticationError(
-        'Authentication failed. Check your Databricks personal access token.'
-      );
+  /**
+   * Send a request with retries. Each attempt is aborted when the tool call is cancelled
+   * or after REQUEST_TIMEOUT_MS; a request given its own `signal` (or null) is detached
+   * from the tool call and aborted only by that signal.
+   */
+  private async requestWithRetries<T>(
+    method: string,
+    endpoint: string,
+    options: RequestInit
+  ): Promise<T> {
+    const operation = `${method} ${endpoint.split('?')[0]}`;
+    const callSignal = options.signal === undefined ? getCallSignal() : undefined;
+    const retrySafe = isRetrySafeRequest(method, endpoint);
+    const deadline = Date.now() + this.retry.budgetMs;
+    for (let attempt = 0; ; attempt++) {
+      if (callSignal?.aborted) {
+        throw new RequestCancelledError(operation);
+      }
+      const signal =
+        options.signal === undefined ? this.getAttemptSignal(callSignal) : options.signal;
+      try {
+        return await this.requestOnce<T>(endpoint, { ...options, signal });
+      } catch (caught) {
+        const error = signal?.aborted ? this.getAbortError(signal, operation) : caught;
+        const delay = retrySafe ? this.getRetryDelay(error, attempt, deadline) : undefined;
+        if (delay === undefined) {
+          throw error;
+        }
+        await sleep(delay, callSignal);
+      }
+    }
+  }
+
+  /**
+   * Signal for one attempt: aborts with the tool call or once REQUEST_TIMEOUT_MS has passed
+   */
+  private getAttemptSignal(callSignal: AbortSignal | undefined): AbortSignal {
+    const timeout = AbortSignal.timeout(this.timeoutMs);
+    return callSignal ? AbortSignal.any([callSignal, timeout]) : timeout;
+  }
+
+  private getAbortError(signal: AbortSignal, operation: string): DatabricksApiError {
+    return isTimeout(signal)
+      ? new RequestTimeoutError(operation, this.timeoutMs)
+      : new RequestCancelledError(operation);
+  }
+
+  // The cache only saves round trips, so its failures fall back to the workspace
+
+  private async readCache<T>(resource: CacheResource, endpoint: string): Promise<T | undefined> {
+    try {
+      return await this.cache?.get<T>(resource, endpoint);
+    } catch (error) {
+      console.error('Response cache read failed', resource, formatErrorForLogging(error));
+      return undefined;
+    }
+  }
+
+  private async writeCache(
+    resource: CacheResource,
+    endpoint: string,
+    value: unknown
+  ): Promise<void> {
+    if (value === undefined) {
+      return;
+    }
+    try {
+      await this.cache?.set(resource, endpoint, value);
+    } catch (error) {
+      console.error('Response cache write failed', resource, formatErrorForLogging(error));
+    }
+  }
+
+  private async invalidateCache(resources: CacheResource[]): Promise<void> {
+    try {
+      await this.cache?.invalidate(resources);
+    } catch (error) {
+      console.error('Response cache invalidation failed', resources, formatErrorForLogging(error));
+    }
+  }
+
+  private async requestOnce<T>(endpoint: string, options: RequestInit): Promise<T> {
+    const url = `${this.baseUrl}${endpoint}`;
+
+    let response = await this.send(url, options);
+
+    // Minted OAuth tokens can be revoked or expire early; refresh once and retry
+    if (response.status === 401 && this.getTokenProvider().refreshable) {
+      await response.body?.cancel();
+      await this.getTokenProvider().invalidate();
+      response = await this.send(url, options);
     }
 
-    // Handle other errors
+    // Map errors onto the typed error classes by error_code, falling back to the status
     if (!response.ok) {
       const errorBody = await response.text();
       let message = `API error: ${response.status}`;
@@ -326,7 +724,12 @@ class DatabricksClientImpl implements DatabricksClient {
       } catch {
         // Use default message
       }
-      throw new DatabricksApiError(message, response.status, errorCode);
+      throw createApiError(
+        response.status,
+        message,
+        errorCode,
+        parseRetryAfter(response.headers.get('Retry-After'))
+      );
     }
 
     // Handle 204 No Content
@@ -341,8 +744,31 @@ class DatabricksClientImpl implements DatabricksClient {
     return JSON.parse(text) as T;
   }
 
-  private async get<T>(endpoint: string): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET' });
+  /**
+   * Resolve the page size for a list call, capped at MAX_PAGE_SIZE and the upstream limit
+   */
+  private getPageSize(
+    page: PageOptions | undefined,
+    upstreamMax = Number.POSITIVE_INFINITY
+  ): number {
+    const size = page?.pageSize ?? this.pagination.defaultPageSize;
+    return Math.max(1, Math.min(size, this.pagination.maxPageSize, upstreamMax));
+  }
+
+  /**
+   * Query parameters for APIs paged with max_results/page_token
+   */
+  private getPageParams(page: PageOptions | undefined, upstreamMax?: number): URLSearchParams {
+    const params = new URLSearchParams({
+      max_results: String(this.getPageSize(page, upstreamMax)),
+    });
+    const pageToken = getCursorToken(page?.cursor);
+    if (pageToken) params.set('page_token', pageToken);
+    return params;
+  }
+
+  private async get<T>(endpoint: string, read?: ReadOptions): Promise<T> {
+    return this.request<T>(endpoint, { method: 'GET' }, read);
   }
 
   private async post<T>(endpoint: string, body?: unknown): Promise<T> {
@@ -384,7 +810,7 @@ class DatabricksClientImpl implements DatabricksClient {
     } catch (error) {
       return {
         connected: false,
-        message: error instanceof Error ? error.message : 'Connection failed',
+        message: error instanceof Error ? redactText(error.message) : 'Connection failed',
       };
     }
   }
@@ -404,15 +830,62 @@ class DatabricksClientImpl implements DatabricksClient {
       format?: 'JSON_ARRAY' | 'ARROW_STREAM' | 'CSV';
     }
   ): Promise<StatementResponse> {
-    return this.post<StatementResponse>('/api/2.0/sql/statements', {
-      warehouse_id: warehouseId,
-      statement,
-      catalog: options?.catalog,
-      schema: options?.schema,
-      wait_timeout: options?.waitTimeout || '50s',
-      disposition: options?.disposition || 'INLINE',
-      format: options?.format || 'JSON_ARRAY',
-    });
+    if (this.credentials.readOnly && !isReadOnlyStatement(statement)) {
+      throw new ReadOnlyModeError('executing a statement that is not a pure query');
+    }
+
+    // The statement ID only arrives with the response, so the submission is detached from
+    // the tool call (Databricks answers within wait_timeout anyway). On cancellation or
+    // timeout the call stops waiting, and the statement is cancelled once its ID is known.
+    const submission = this.submitStatement(warehouseId, statement, options);
+    const waiting = this.getAttemptSignal(getCallSignal());
+    try {
+      return await abortable(submission, waiting);
+    } catch (error) {
+      if (!waiting.aborted) {
+        throw error;
+      }
+      submission
+        .then(
+          (response) =>
+            isStatementInFlight(response.status?.state)
+              ? this.cancelStatement(response.statement_id)
+              : undefined,
+          // A submission that failed left nothing to cancel
+          () => undefined
+        )
+        .catch((cancelError) =>
+          console.error('Failed to cancel abandoned statement', formatErrorForLogging(cancelError))
+        );
+      throw this.getAbortError(waiting, 'POST /api/2.0/sql/statements');
+    }
+  }
+
+  private async submitStatement(
+    warehouseId: string,
+    statement: string,
+    options: Parameters<DatabricksClient['executeStatement']>[2]
+  ): Promise<StatementResponse> {
+    try {
+      return await this.request<StatementResponse>('/api/2.0/sql/statements', {
+        method: 'POST',
+        body: JSON.stringify({
+          warehouse_id: warehouseId,
+          statement,
+          catalog: options?.catalog,
+          schema: options?.schema,
+          wait_timeout: options?.waitTimeout || '50s',
+          disposition: options?.disposition || 'INLINE',
+          format: options?.format || 'JSON_ARRAY',
+        }),
+        signal: null,
+      });
+    } finally {
+      // DDL and DML can create, alter or drop Unity Catalog objects
+      if (!isReadOnlyStatement(statement)) {
+        await this.invalidateCache(UNITY_CATALOG_RESOURCES);
+      }
+    }
   }
 
   async getStatementStatus(statementId: string): Promise<StatementResponse> {
@@ -424,16 +897,20 @@ class DatabricksClientImpl implements DatabricksClient {
   }
 
   async cancelStatement(statementId: string): Promise<void> {
-    await this.post(`/api/2.0/sql/statements/${statementId}/cancel`);
+    // Detached from the tool call, as it also cleans up after a cancelled execute_sql
+    await this.request(`/api/2.0/sql/statements/${statementId}/cancel`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
   }
 
   // ===========================================================================
   // SQL Warehouses
   // ===========================================================================
 
-  async listWarehouses(): Promise<SqlWarehouse[]> {
-    const response = await this.get<{ warehouses?: SqlWarehouse[] }>('/api/2.0/sql/warehouses');
-    return response.warehouses || [];
+  async listWarehouses(page?: PageOptions): Promise<PaginatedResponse<SqlWarehouse>> {
+    const response = await this.get<{ warehouses?: SqlWarehouse[] }>('/api/2.0/sql/warehouses', page);
+    return paginateItems(response.warehouses || [], this.getPageSize(page), page?.cursor);
   }
 
   async getWarehouse(warehouseId: string): Promise<SqlWarehouse> {
@@ -452,20 +929,18 @@ class DatabricksClientImpl implements DatabricksClient {
   // Jobs
   // ===========================================================================
 
-  async listJobs(options?: {
-    limit?: number;
-    offset?: number;
-    name?: string;
-  }): Promise<{ jobs: Job[]; has_more: boolean }> {
-    const params = new URLSearchParams();
-    if (options?.limit) params.set('limit', String(options.limit));
-    if (options?.offset) params.set('offset', String(options.offset));
+  async listJobs(
+    options?: { name?: string; expandTasks?: boolean } & PageOptions
+  ): Promise<PaginatedResponse<Job>> {
+    const params = new URLSearchParams({ limit: String(this.getPageSize(options, 100)) });
+    const pageToken = getCursorToken(options?.cursor);
+    if (pageToken) params.set('page_token', pageToken);
     if (options?.name) params.set('name', options.name);
-    const queryString = params.toString();
-    const response = await this.get<{ jobs?: Job[]; has_more?: boolean }>(
-      `/api/2.1/jobs/list${queryString ? `?${queryString}` : ''}`
+    if (options?.expandTasks) params.set('expand_tasks', 'true');
+    const response = await this.get<{ jobs?: Job[]; next_page_token?: string }>(
+      `/api/2.1/jobs/list?${params}`
     );
-    return { jobs: response.jobs || [], has_more: response.has_more || false };
+    return pageFromToken(response.jobs || [], response.next_page_token);
   }
 
   async getJob(jobId: number): Promise<Job> {
@@ -491,24 +966,19 @@ class DatabricksClientImpl implements DatabricksClient {
     });
   }
 
-  async listRuns(options?: {
-    jobId?: number;
-    activeOnly?: boolean;
-    completedOnly?: boolean;
-    limit?: number;
-    offset?: number;
-  }): Promise<{ runs: Run[]; has_more: boolean }> {
-    const params = new URLSearchParams();
+  async listRuns(
+    options?: { jobId?: number; activeOnly?: boolean; completedOnly?: boolean } & PageOptions
+  ): Promise<PaginatedResponse<Run>> {
+    const params = new URLSearchParams({ limit: String(this.getPageSize(options, 25)) });
+    const pageToken = getCursorToken(options?.cursor);
+    if (pageToken) params.set('page_token', pageToken);
     if (options?.jobId) params.set('job_id', String(options.jobId));
     if (options?.activeOnly) params.set('active_only', 'true');
     if (options?.completedOnly) params.set('completed_only', 'true');
-    if (options?.limit) params.set('limit', String(options.limit));
-    if (options?.offset) params.set('offset', String(options.offset));
-    const queryString = params.toString();
-    const response = await this.get<{ runs?: Run[]; has_more?: boolean }>(
-      `/api/2.1/jobs/runs/list${queryString ? `?${queryString}` : ''}`
+    const response = await this.get<{ runs?: Run[]; next_page_token?: string }>(
+      `/api/2.1/jobs/runs/list?${params}`
     );
-    return { runs: response.runs || [], has_more: response.has_more || false };
+    return pageFromToken(response.runs || [], response.next_page_token);
   }
 
   async getRun(runId: number | string): Promise<Run> {
@@ -531,9 +1001,9 @@ class DatabricksClientImpl implements DatabricksClient {
   // Clusters
   // ===========================================================================
 
-  async listClusters(): Promise<Cluster[]> {
-    const response = await this.get<{ clusters?: Cluster[] }>('/api/2.0/clusters/list');
-    return response.clusters || [];
+  async listClusters(page?: PageOptions): Promise<PaginatedResponse<Cluster>> {
+    const response = await this.get<{ clusters?: Cluster[] }>('/api/2.0/clusters/list', page);
+    return paginateItems(response.clusters || [], this.getPageSize(page), page?.cursor);
   }
 
   async getCluster(clusterId: string): Promise<Cluster> {
@@ -566,13 +1036,14 @@ class DatabricksClientImpl implements DatabricksClient {
 
   async listClusterEvents(
     clusterId: string,
-    options?: { limit?: number }
-  ): Promise<{ events: ClusterEvent[]; next_page?: unknown }> {
+    page?: PageOptions
+  ): Promise<PaginatedResponse<ClusterEvent>> {
+    const offset = getCursorOffset(page?.cursor);
     const response = await this.post<{ events?: ClusterEvent[]; next_page?: unknown }>(
       '/api/2.0/clusters/events',
-      { cluster_id: clusterId, limit: options?.limit || 50 }
+      { cluster_id: clusterId, offset, limit: this.getPageSize(page, 500) }
     );
-    return { events: response.events || [], next_page: response.next_page };
+    return pageFromOffset(response.events || [], offset, Boolean(response.next_page));
   }
 
   async pinCluster(clusterId: string): Promise<void> {
@@ -587,11 +1058,14 @@ class DatabricksClientImpl implements DatabricksClient {
   // Workspace
   // ===========================================================================
 
-  async listWorkspace(path: string): Promise<WorkspaceObject[]> {
+  async listWorkspace(
+    path: string,
+    page?: PageOptions
+  ): Promise<PaginatedResponse<WorkspaceObject>> {
     const response = await this.get<{ objects?: WorkspaceObject[] }>(
       `/api/2.0/workspace/list?path=${encodeURIComponent(path)}`
     );
-    return response.objects || [];
+    return paginateItems(response.objects || [], this.getPageSize(page), page?.cursor);
   }
 
   async getWorkspaceStatus(path: string): Promise<WorkspaceObject> {
@@ -625,8 +1099,8 @@ class DatabricksClientImpl implements DatabricksClient {
   async exportWorkspace(
     path: string,
     format: 'SOURCE' | 'HTML' | 'JUPYTER' | 'DBC' | 'R_MARKDOWN' = 'SOURCE'
-  ): Promise<{ content: string }> {
-    return this.get<{ content: string }>(
+  ): Promise<WorkspaceExportResponse> {
+    return this.get<WorkspaceExportResponse>(
       `/api/2.0/workspace/export?path=${encodeURIComponent(path)}&format=${format}`
     );
   }
@@ -635,11 +1109,11 @@ class DatabricksClientImpl implements DatabricksClient {
   // DBFS
   // ===========================================================================
 
-  async listDbfs(path: string): Promise<DbfsFileInfo[]> {
+  async listDbfs(path: string, page?: PageOptions): Promise<PaginatedResponse<DbfsFileInfo>> {
     const response = await this.get<{ files?: DbfsFileInfo[] }>(
       `/api/2.0/dbfs/list?path=${encodeURIComponent(path)}`
     );
-    return response.files || [];
+    return paginateItems(response.files || [], this.getPageSize(page), page?.cursor);
   }
 
   async getDbfsStatus(path: string): Promise<DbfsFileInfo> {
@@ -675,13 +1149,20 @@ class DatabricksClientImpl implements DatabricksClient {
   // Unity Catalog - Catalogs
   // ===========================================================================
 
-  async listCatalogs(): Promise<Catalog[]> {
-    const response = await this.get<{ catalogs?: Catalog[] }>('/api/2.1/unity-catalog/catalogs');
-    return response.catalogs || [];
+  async listCatalogs(page?: PageOptions): Promise<PaginatedResponse<Catalog>> {
+    const params = this.getPageParams(page);
+    const response = await this.get<{ catalogs?: Catalog[]; next_page_token?: string }>(
+      `/api/2.1/unity-catalog/catalogs?${params}`,
+      page
+    );
+    return pageFromToken(response.catalogs || [], response.next_page_token);
   }
 
-  async getCatalog(name: string): Promise<Catalog> {
-    return this.get<Catalog>(`/api/2.1/unity-catalog/catalogs/${encodeURIComponent(name)}`);
+  async getCatalog(name: string, options?: ReadOptions): Promise<Catalog> {
+    return this.get<Catalog>(
+      `/api/2.1/unity-catalog/catalogs/${encodeURIComponent(name)}`,
+      options
+    );
   }
 
   async createCatalog(
@@ -710,15 +1191,21 @@ class DatabricksClientImpl implements DatabricksClient {
   // Unity Catalog - Schemas
   // ===========================================================================
 
-  async listSchemas(catalogName: string): Promise<Schema[]> {
-    const response = await this.get<{ schemas?: Schema[] }>(
-      `/api/2.1/unity-catalog/schemas?catalog_name=${encodeURIComponent(catalogName)}`
+  async listSchemas(catalogName: string, page?: PageOptions): Promise<PaginatedResponse<Schema>> {
+    const params = this.getPageParams(page);
+    params.set('catalog_name', catalogName);
+    const response = await this.get<{ schemas?: Schema[]; next_page_token?: string }>(
+      `/api/2.1/unity-catalog/schemas?${params}`,
+      page
     );
-    return response.schemas || [];
+    return pageFromToken(response.schemas || [], response.next_page_token);
   }
 
-  async getSchema(fullName: string): Promise<Schema> {
-    return this.get<Schema>(`/api/2.1/unity-catalog/schemas/${encodeURIComponent(fullName)}`);
+  async getSchema(fullName: string, options?: ReadOptions): Promise<Schema> {
+    return this.get<Schema>(
+      `/api/2.1/unity-catalog/schemas/${encodeURIComponent(fullName)}`,
+      options
+    );
   }
 
   async createSchema(
@@ -752,15 +1239,26 @@ class DatabricksClientImpl implements DatabricksClient {
   // Unity Catalog - Tables
   // ===========================================================================
 
-  async listTables(catalogName: string, schemaName: string): Promise<Table[]> {
-    const response = await this.get<{ tables?: Table[] }>(
-      `/api/2.1/unity-catalog/tables?catalog_name=${encodeURIComponent(catalogName)}&schema_name=${encodeURIComponent(schemaName)}`
+  async listTables(
+    catalogName: string,
+    schemaName: string,
+    page?: PageOptions
+  ): Promise<PaginatedResponse<Table>> {
+    const params = this.getPageParams(page);
+    params.set('catalog_name', catalogName);
+    params.set('schema_name', schemaName);
+    const response = await this.get<{ tables?: Table[]; next_page_token?: string }>(
+      `/api/2.1/unity-catalog/tables?${params}`,
+      page
     );
-    return response.tables || [];
+    return pageFromToken(response.tables || [], response.next_page_token);
   }
 
-  async getTable(fullName: string): Promise<Table> {
-    return this.get<Table>(`/api/2.1/unity-catalog/tables/${encodeURIComponent(fullName)}`);
+  async getTable(fullName: string, options?: ReadOptions): Promise<Table> {
+    return this.get<Table>(
+      `/api/2.1/unity-catalog/tables/${encodeURIComponent(fullName)}`,
+      options
+    );
   }
 
   async deleteTable(fullName: string): Promise<void> {
@@ -771,15 +1269,26 @@ class DatabricksClientImpl implements DatabricksClient {
   // Unity Catalog - Volumes
   // ===========================================================================
 
-  async listVolumes(catalogName: string, schemaName: string): Promise<Volume[]> {
-    const response = await this.get<{ volumes?: Volume[] }>(
-      `/api/2.1/unity-catalog/volumes?catalog_name=${encodeURIComponent(catalogName)}&schema_name=${encodeURIComponent(schemaName)}`
+  async listVolumes(
+    catalogName: string,
+    schemaName: string,
+    page?: PageOptions
+  ): Promise<PaginatedResponse<Volume>> {
+    const params = this.getPageParams(page);
+    params.set('catalog_name', catalogName);
+    params.set('schema_name', schemaName);
+    const response = await this.get<{ volumes?: Volume[]; next_page_token?: string }>(
+      `/api/2.1/unity-catalog/volumes?${params}`,
+      page
     );
-    return response.volumes || [];
+    return pageFromToken(response.volumes || [], response.next_page_token);
   }
 
-  async getVolume(fullName: string): Promise<Volume> {
-    return this.get<Volume>(`/api/2.1/unity-catalog/volumes/${encodeURIComponent(fullName)}`);
+  async getVolume(fullName: string, options?: ReadOptions): Promise<Volume> {
+    return this.get<Volume>(
+      `/api/2.1/unity-catalog/volumes/${encodeURIComponent(fullName)}`,
+      options
+    );
   }
 
   async createVolume(
@@ -817,45 +1326,53 @@ class DatabricksClientImpl implements DatabricksClient {
   // Unity Catalog - Functions
   // ===========================================================================
 
-  async listFunctions(catalogName: string, schemaName: string): Promise<Function[]> {
-    const response = await this.get<{ functions?: Function[] }>(
-      `/api/2.1/unity-catalog/functions?catalog_name=${encodeURIComponent(catalogName)}&schema_name=${encodeURIComponent(schemaName)}`
+  async listFunctions(
+    catalogName: string,
+    schemaName: string,
+    page?: PageOptions
+  ): Promise<PaginatedResponse<Function>> {
+    const params = this.getPageParams(page);
+    params.set('catalog_name', catalogName);
+    params.set('schema_name', schemaName);
+    const response = await this.get<{ functions?: Function[]; next_page_token?: string }>(
+      `/api/2.1/unity-catalog/functions?${params}`,
+      page
     );
-    return response.functions || [];
+    return pageFromToken(response.functions || [], response.next_page_token);
   }
 
-  async getFunction(fullName: string): Promise<Function> {
-    return this.get<Function>(`/api/2.1/unity-catalog/functions/${encodeURIComponent(fullName)}`);
+  async getFunction(fullName: string, options?: ReadOptions): Promise<Function> {
+    return this.get<Function>(
+      `/api/2.1/unity-catalog/functions/${encodeURIComponent(fullName)}`,
+      options
+    );
   }
 
   // ===========================================================================
   // MLflow - Experiments
   // ===========================================================================
 
-  async listExperiments(options?: {
-    maxResults?: number;
-    pageToken?: string;
-  }): Promise<{ experiments: Experiment[]; next_page_token?: string }> {
-    const params = new URLSearchParams();
-    if (options?.maxResults) params.set('max_results', String(options.maxResults));
-    if (options?.pageToken) params.set('page_token', options.pageToken);
-    const queryString = params.toString();
+  async listExperiments(page?: PageOptions): Promise<PaginatedResponse<Experiment>> {
+    const params = this.getPageParams(page);
     const response = await this.get<{ experiments?: Experiment[]; next_page_token?: string }>(
-      `/api/2.0/mlflow/experiments/search${queryString ? `?${queryString}` : ''}`
+      `/api/2.0/mlflow/experiments/search?${params}`,
+      page
     );
-    return { experiments: response.experiments || [], next_page_token: response.next_page_token };
+    return pageFromToken(response.experiments || [], response.next_page_token);
   }
 
-  async getExperiment(experimentId: string): Promise<Experiment> {
+  async getExperiment(experimentId: string, options?: ReadOptions): Promise<Experiment> {
     const response = await this.get<{ experiment: Experiment }>(
-      `/api/2.0/mlflow/experiments/get?experiment_id=${experimentId}`
+      `/api/2.0/mlflow/experiments/get?experiment_id=${experimentId}`,
+      options
     );
     return response.experiment;
   }
 
-  async getExperimentByName(experimentName: string): Promise<Experiment> {
+  async getExperimentByName(experimentName: string, options?: ReadOptions): Promise<Experiment> {
     const response = await this.get<{ experiment: Experiment }>(
-      `/api/2.0/mlflow/experiments/get-by-name?experiment_name=${encodeURIComponent(experimentName)}`
+      `/api/2.0/mlflow/experiments/get-by-name?experiment_name=${encodeURIComponent(experimentName)}`,
+      options
     );
     return response.experiment;
   }
@@ -889,24 +1406,20 @@ class DatabricksClientImpl implements DatabricksClient {
   // MLflow - Runs
   // ===========================================================================
 
-  async searchMlflowRuns(options: {
-    experimentIds: string[];
-    filter?: string;
-    maxResults?: number;
-    orderBy?: string[];
-    pageToken?: string;
-  }): Promise<{ runs: ExperimentRun[]; next_page_token?: string }> {
+  async searchMlflowRuns(
+    options: { experimentIds: string[]; filter?: string; orderBy?: string[] } & PageOptions
+  ): Promise<PaginatedResponse<ExperimentRun>> {
     const response = await this.post<{ runs?: ExperimentRun[]; next_page_token?: string }>(
       '/api/2.0/mlflow/runs/search',
       {
         experiment_ids: options.experimentIds,
         filter: options.filter,
-        max_results: options.maxResults,
+        max_results: this.getPageSize(options),
         order_by: options.orderBy,
-        page_token: options.pageToken,
+        page_token: getCursorToken(options.cursor),
       }
     );
-    return { runs: response.runs || [], next_page_token: response.next_page_token };
+    return pageFromToken(response.runs || [], response.next_page_token);
   }
 
   async getMlflowRun(runId: string): Promise<ExperimentRun> {
@@ -989,22 +1502,13 @@ class DatabricksClientImpl implements DatabricksClient {
   // MLflow - Models
   // ===========================================================================
 
-  async listRegisteredModels(options?: {
-    maxResults?: number;
-    pageToken?: string;
-  }): Promise<{ registered_models: RegisteredModel[]; next_page_token?: string }> {
-    const params = new URLSearchParams();
-    if (options?.maxResults) params.set('max_results', String(options.maxResults));
-    if (options?.pageToken) params.set('page_token', options.pageToken);
-    const queryString = params.toString();
+  async listRegisteredModels(page?: PageOptions): Promise<PaginatedResponse<RegisteredModel>> {
+    const params = this.getPageParams(page);
     const response = await this.get<{
       registered_models?: RegisteredModel[];
       next_page_token?: string;
-    }>(`/api/2.0/mlflow/registered-models/search${queryString ? `?${queryString}` : ''}`);
-    return {
-      registered_models: response.registered_models || [],
-      next_page_token: response.next_page_token,
-    };
+    }>(`/api/2.0/mlflow/registered-models/search?${params}`);
+    return pageFromToken(response.registered_models || [], response.next_page_token);
   }
 
   async getRegisteredModel(name: string): Promise<RegisteredModel> {
@@ -1041,11 +1545,16 @@ class DatabricksClientImpl implements DatabricksClient {
     await this.delete(`/api/2.0/mlflow/registered-models/delete?name=${encodeURIComponent(name)}`);
   }
 
-  async listModelVersions(name: string): Promise<ModelVersion[]> {
-    const response = await this.get<{ model_versions?: ModelVersion[] }>(
-      `/api/2.0/mlflow/model-versions/search?filter=name='${encodeURIComponent(name)}'`
+  async listModelVersions(
+    name: string,
+    page?: PageOptions
+  ): Promise<PaginatedResponse<ModelVersion>> {
+    const params = this.getPageParams(page);
+    params.set('filter', `name='${name}'`);
+    const response = await this.get<{ model_versions?: ModelVersion[]; next_page_token?: string }>(
+      `/api/2.0/mlflow/model-versions/search?${params}`
     );
-    return response.model_versions || [];
+    return pageFromToken(response.model_versions || [], response.next_page_token);
   }
 
   async getModelVersion(name: string, version: string): Promise<ModelVersion> {
@@ -1065,9 +1574,9 @@ class DatabricksClientImpl implements DatabricksClient {
   // Secrets
   // ===========================================================================
 
-  async listSecretScopes(): Promise<SecretScope[]> {
+  async listSecretScopes(page?: PageOptions): Promise<PaginatedResponse<SecretScope>> {
     const response = await this.get<{ scopes?: SecretScope[] }>('/api/2.0/secrets/scopes/list');
-    return response.scopes || [];
+    return paginateItems(response.scopes || [], this.getPageSize(page), page?.cursor);
   }
 
   async createSecretScope(scope: string, options?: { backendType?: 'DATABRICKS' }): Promise<void> {
@@ -1081,11 +1590,11 @@ class DatabricksClientImpl implements DatabricksClient {
     await this.post('/api/2.0/secrets/scopes/delete', { scope });
   }
 
-  async listSecrets(scope: string): Promise<SecretMetadata[]> {
+  async listSecrets(scope: string, page?: PageOptions): Promise<PaginatedResponse<SecretMetadata>> {
     const response = await this.get<{ secrets?: SecretMetadata[] }>(
       `/api/2.0/secrets/list?scope=${encodeURIComponent(scope)}`
     );
-    return response.secrets || [];
+    return paginateItems(response.secrets || [], this.getPageSize(page), page?.cursor);
   }
 
   async putSecret(scope: string, key: string, stringValue: string): Promise<void> {
@@ -1100,11 +1609,11 @@ class DatabricksClientImpl implements DatabricksClient {
     await this.post('/api/2.0/secrets/delete', { scope, key });
   }
 
-  async listSecretAcls(scope: string): Promise<SecretAcl[]> {
+  async listSecretAcls(scope: string, page?: PageOptions): Promise<PaginatedResponse<SecretAcl>> {
     const response = await this.get<{ items?: SecretAcl[] }>(
       `/api/2.0/secrets/acls/list?scope=${encodeURIComponent(scope)}`
     );
-    return response.items || [];
+    return paginateItems(response.items || [], this.getPageSize(page), page?.cursor);
   }
 
   async getSecretAcl(scope: string, principal: string): Promise<SecretAcl> {
@@ -1129,18 +1638,19 @@ class DatabricksClientImpl implements DatabricksClient {
   // Repos
   // ===========================================================================
 
-  async listRepos(options?: {
-    pathPrefix?: string;
-    nextPageToken?: string;
-  }): Promise<{ repos: Repo[]; next_page_token?: string }> {
+  async listRepos(
+    options?: { pathPrefix?: string } & PageOptions
+  ): Promise<PaginatedResponse<Repo>> {
+    // The Repos API pages with next_page_token only and does not take a page size
     const params = new URLSearchParams();
+    const pageToken = getCursorToken(options?.cursor);
+    if (pageToken) params.set('next_page_token', pageToken);
     if (options?.pathPrefix) params.set('path_prefix', options.pathPrefix);
-    if (options?.nextPageToken) params.set('next_page_token', options.nextPageToken);
     const queryString = params.toString();
     const response = await this.get<{ repos?: Repo[]; next_page_token?: string }>(
       `/api/2.0/repos${queryString ? `?${queryString}` : ''}`
     );
-    return { repos: response.repos || [], next_page_token: response.next_page_token };
+    return pageFromToken(response.repos || [], response.next_page_token);
   }
 
   async getRepo(repoId: number): Promise<Repo> {
@@ -1163,9 +1673,9 @@ class DatabricksClientImpl implements DatabricksClient {
   // Git Credentials
   // ===========================================================================
 
-  async listGitCredentials(): Promise<GitCredential[]> {
+  async listGitCredentials(page?: PageOptions): Promise<PaginatedResponse<GitCredential>> {
     const response = await this.get<{ credentials?: GitCredential[] }>('/api/2.0/git-credentials');
-    return response.credentials || [];
+    return paginateItems(response.credentials || [], this.getPageSize(page), page?.cursor);
   }
 
   async createGitCredential(
@@ -1199,11 +1709,11 @@ class DatabricksClientImpl implements DatabricksClient {
   // Instance Pools
   // ===========================================================================
 
-  async listInstancePools(): Promise<InstancePool[]> {
+  async listInstancePools(page?: PageOptions): Promise<PaginatedResponse<InstancePool>> {
     const response = await this.get<{ instance_pools?: InstancePool[] }>(
       '/api/2.0/instance-pools/list'
     );
-    return response.instance_pools || [];
+    return paginateItems(response.instance_pools || [], this.getPageSize(page), page?.cursor);
   }
 
   async getInstancePool(instancePoolId: string): Promise<InstancePool> {
@@ -1228,20 +1738,15 @@ class DatabricksClientImpl implements DatabricksClient {
   // Pipelines (Delta Live Tables)
   // ===========================================================================
 
-  async listPipelines(options?: {
-    maxResults?: number;
-    pageToken?: string;
-    filter?: string;
-  }): Promise<{ statuses: Pipeline[]; next_page_token?: string }> {
-    const params = new URLSearchParams();
-    if (options?.maxResults) params.set('max_results', String(options.maxResults));
-    if (options?.pageToken) params.set('page_token', options.pageToken);
+  async listPipelines(
+    options?: { filter?: string } & PageOptions
+  ): Promise<PaginatedResponse<Pipeline>> {
+    const params = this.getPageParams(options, 100);
     if (options?.filter) params.set('filter', options.filter);
-    const queryString = params.toString();
     const response = await this.get<{ statuses?: Pipeline[]; next_page_token?: string }>(
-      `/api/2.0/pipelines${queryString ? `?${queryString}` : ''}`
+      `/api/2.0/pipelines?${params}`
     );
-    return { statuses: response.statuses || [], next_page_token: response.next_page_token };
+    return pageFromToken(response.statuses || [], response.next_page_token);
   }
 
   async getPipeline(pipelineId: string): Promise<Pipeline> {
@@ -1277,9 +1782,9 @@ class DatabricksClientImpl implements DatabricksClient {
   // Tokens
   // ===========================================================================
 
-  async listTokens(): Promise<TokenInfo[]> {
+  async listTokens(page?: PageOptions): Promise<PaginatedResponse<TokenInfo>> {
     const response = await this.get<{ token_infos?: TokenInfo[] }>('/api/2.0/token/list');
-    return response.token_infos || [];
+    return paginateItems(response.token_infos || [], this.getPageSize(page), page?.cursor);
   }
 
   async createToken(
@@ -1306,6 +1811,9 @@ class DatabricksClientImpl implements DatabricksClient {
  *
  * @param credentials - Tenant credentials parsed from request headers
  */
-export function createDatabricksClient(credentials: TenantCredentials): DatabricksClient {
-  return new DatabricksClientImpl(credentials);
+export function createDatabricksClient(
+  credentials: TenantCredentials,
+  options?: DatabricksClientOptions
+): DatabricksClient {
+  return new DatabricksClientImpl(credentials, options);
 }
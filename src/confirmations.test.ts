@@ -0,0 +1,74 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CONFIRMATION_TTL_SECONDS, createConfirmationStore } from './confirmations.js';
+import type { Env } from './types/env.js';
+
+const host = 'https://confirm.cloud.databricks.com';
+const call = JSON.stringify(['databricks_revoke_token', { tokenId: 't-1' }]);
+
+/**
+ * KV namespace backed by a map, honouring the 'json' read type and expirationTtl
+ */
+function memoryKv(): KVNamespace {
+  const values = new Map<string, { value: string; expiresAt: number }>();
+  return {
+    get: async (key: string, type?: string) => {
+      const entry = values.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) {
+        return null;
+      }
+      return type === 'json' ? JSON.parse(entry.value) : entry.value;
+    },
+    put: async (key: string, value: string, options?: { expirationTtl?: number }) => {
+      values.set(key, {
+        value,
+        expiresAt: Date.now() + (options?.expirationTtl ?? 3600) * 1000,
+      });
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+    },
+  } as unknown as KVNamespace;
+}
+
+for (const [kind, env] of [
+  ['memory', () => ({}) as Env],
+  ['KV', () => ({ CACHE_KV: memoryKv() }) as Env],
+] as const) {
+  describe(`${kind} confirmation store`, () => {
+    it('accepts a token once, for the call it was issued for', async () => {
+      const store = createConfirmationStore(env(), host);
+      const token = await store.issue(call);
+      assert.equal(await store.consume(token, call), true);
+      assert.equal(await store.consume(token, call), false);
+    });
+
+    it('refuses a token for a different call', async () => {
+      const store = createConfirmationStore(env(), host);
+      const token = await store.issue(call);
+      const other = JSON.stringify(['databricks_revoke_token', { tokenId: 't-2' }]);
+      assert.equal(await store.consume(token, other), false);
+    });
+
+    it('refuses a token issued for another workspace', async () => {
+      const shared = env();
+      const token = await createConfirmationStore(shared, host).issue(call);
+      const elsewhere = createConfirmationStore(shared, 'https://other.cloud.databricks.com');
+      assert.equal(await elsewhere.consume(token, call), false);
+    });
+
+    it('refuses unknown and expired tokens', async () => {
+      const store = createConfirmationStore(env(), host);
+      assert.equal(await store.consume('not-a-token', call), false);
+
+      const token = await store.issue(call);
+      const now = Date.now;
+      Date.now = () => now() + (CONFIRMATION_TTL_SECONDS + 1) * 1000;
+      try {
+        assert.equal(await store.consume(token, call), false);
+      } finally {
+        Date.now = now;
+      }
+    });
+  });
+}
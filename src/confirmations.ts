@@ -0,0 +1,135 @@
+/**
+ * Confirmation Tokens
+ *
+ * When an irreversible tool call cannot be confirmed by the user through MCP elicitation,
+ * the server refuses it and returns a one-time confirmation token instead. The call only
+ * goes ahead when it is repeated with exactly the same arguments and that token.
+ *
+ * Tokens are stored in CACHE_KV when it is bound, so any Worker instance can accept them.
+ * Otherwise they are kept in a module-level map shared by every session in the current
+ * isolate, so a token is only accepted by sessions that land on the same isolate.
+ */
+
+import type { Env } from './types/env.js';
+import { randomToken } from './utils/crypto.js';
+
+/** How long a confirmation token stays valid */
+export const CONFIRMATION_TTL_SECONDS = 5 * 60;
+
+/** Upper bound for tokens kept in memory per isolate */
+const MAX_MEMORY_CONFIRMATIONS = 50;
+
+const KV_PREFIX = 'confirmation:';
+
+// =============================================================================
+// Confirmation Types
+// =============================================================================
+
+/**
+ * Stored token, bound to the workspace and the exact call it confirms
+ */
+interface ConfirmationRecord {
+  host: string;
+  call: string;
+  expiresAt: number;
+}
+
+// =============================================================================
+// Confirmation Store Interface
+// =============================================================================
+
+export interface ConfirmationStore {
+  /** Issue a token that confirms `call` (the tool name and its arguments) */
+  issue(call: string): Promise<string>;
+
+  /** Use up a token; true only if it was issued for the same call and has not expired */
+  consume(token: string, call: string): Promise<boolean>;
+}
+
+// =============================================================================
+// Confirmation Store Implementations
+// =============================================================================
+
+const memoryConfirmations = new Map<string, ConfirmationRecord>();
+
+class MemoryConfirmationStore implements ConfirmationStore {
+  private host: string;
+
+  constructor(host: string) {
+    this.host = host;
+  }
+
+  async issue(call: string): Promise<string> {
+    const now = Date.now();
+    for (const [token, record] of memoryConfirmations) {
+      if (record.expiresAt <= now || memoryConfirmations.size >= MAX_MEMORY_CONFIRMATIONS) {
+        memoryConfirmations.delete(token);
+      }
+    }
+
+    const token = randomToken(24);
+    memoryConfirmations.set(token, {
+      host: this.host,
+      call,
+      expiresAt: now + CONFIRMATION_TTL_SECONDS * 1000,
+    });
+    return token;
+  }
+
+  async consume(token: string, call: string): Promise<boolean> {
+    const record = memoryConfirmations.get(token);
+    if (!record || record.host !== this.host || record.call !== call) {
+      return false;
+    }
+    memoryConfirmations.delete(token);
+    return record.expiresAt > Date.now();
+  }
+}
+
+class KvConfirmationStore implements ConfirmationStore {
+  private kv: KVNamespace;
+  private host: string;
+
+  constructor(kv: KVNamespace, host: string) {
+    this.kv = kv;
+    this.host = host;
+  }
+
+  async issue(call: string): Promise<string> {
+    const token = randomToken(24);
+    const record: ConfirmationRecord = {
+      host: this.host,
+      call,
+      expiresAt: Date.now() + CONFIRMATION_TTL_SECONDS * 1000,
+    };
+    await this.kv.put(`${KV_PREFIX}${token}`, JSON.stringify(record), {
+      expirationTtl: CONFIRMATION_TTL_SECONDS,
+    });
+    return token;
+  }
+
+  async consume(token: string, call: string): Promise<boolean> {
+    const key = `${KV_PREFIX}${token}`;
+    const record = await this.kv.get<ConfirmationRecord>(key, 'json');
+    if (!record || record.host !== this.host || record.call !== call) {
+      return false;
+    }
+    await this.kv.delete(key);
+    return record.expiresAt > Date.now();
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create the confirmation token store for a tenant.
+ *
+ * @param host - Normalized workspace URL; tokens only confirm calls on the same workspace
+ */
+export function createConfirmationStore(env: Env, host: string): ConfirmationStore {
+  return env.CACHE_KV
+    ? new KvConfirmationStore(env.CACHE_KV, host)
+    : new MemoryConfirmationStore(host);
+}
@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type Continuation, createContinuationStore } from './continuations.js';
+import type { Env } from './types/env.js';
+
+const host = 'https://continue.cloud.databricks.com';
+const continuation: Continuation = { kind: 'json', data: { rows: [['secret-row']] } };
+
+/**
+ * KV namespace backed by a map, honouring the 'json' read type
+ */
+function memoryKv(values = new Map<string, string>()): KVNamespace {
+  return {
+    get: async (key: string, type?: string) => {
+      const value = values.get(key);
+      if (value === undefined) {
+        return null;
+      }
+      return type === 'json' ? JSON.parse(value) : value;
+    },
+    put: async (key: string, value: string) => {
+      values.set(key, value);
+    },
+    delete: async (key: string) => {
+      values.delete(key);
+    },
+  } as unknown as KVNamespace;
+}
+
+for (const [kind, env] of [
+  ['memory', () => ({}) as Env],
+  ['KV', () => ({ CACHE_KV: memoryKv() }) as Env],
+] as const) {
+  describe(`${kind} continuation store`, () => {
+    it('returns a continuation to the tenant that saved it', async () => {
+      const store = createContinuationStore(env(), { host, token: 'dapi-1' });
+      const cursor = await store.save(continuation);
+      assert.deepEqual(await store.load(cursor), continuation);
+      assert.equal(await store.load('not-a-cursor'), null);
+    });
+
+    it('refuses a cursor from another user of the same workspace', async () => {
+      const shared = env();
+      const cursor = await createContinuationStore(shared, { host, token: 'dapi-1' }).save(
+        continuation
+      );
+      const other = createContinuationStore(shared, { host, token: 'dapi-2' });
+      assert.equal(await other.load(cursor), null);
+    });
+  });
+}
+
+describe('KV continuation store', () => {
+  it('stores records encrypted and keyed without the cursor', async () => {
+    const values = new Map<string, string>();
+    const store = createContinuationStore({ CACHE_KV: memoryKv(values) } as Env, {
+      host,
+      token: 'dapi-1',
+    });
+    const cursor = await store.save(continuation);
+
+    const [[key, value]] = [...values];
+    assert.equal(key.includes(cursor), false);
+    assert.equal(value.includes('secret-row'), false);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Response Continuations
+ *
+ * When a tool response is cut to fit CHARACTER_LIMIT, the part that was left out is kept
+ * here under an opaque cursor so the client can fetch the next slice of the same result
+ * without re-running the call.
+ *
+ * Cursors only resolve for the tenant that produced them (see getTenantFingerprint), so
+ * another user of the same workspace cannot read a truncated result.
+ *
+ * Continuations are stored in CACHE_KV when it is bound, so any Worker instance can serve
+ * the next slice. KV records are encrypted with a key derived from the cursor, which only
+ * the client holds, and stored under the tenant fingerprint and a hash of the cursor.
+ * Otherwise they are kept in a module-level map shared by every session in the current
+ * isolate, so the next slice is only found by requests that land on the same isolate.
+ */
+
+import { type Env, getTenantFingerprint, type TenantCredentials } from './types/env.js';
+import { decryptString, encryptString, randomToken, sha256 } from './utils/crypto.js';
+import type { ResponseRemainder } from './utils/formatters.js';
+
+/** How long a continuation cursor stays valid */
+const CONTINUATION_TTL_SECONDS = 15 * 60;
+
+/** Upper bound for continuations kept in memory per isolate */
+const MAX_MEMORY_CONTINUATIONS = 50;
+
+const KV_PREFIX = 'continuation:';
+
+// =============================================================================
+// Continuation Types
+// =============================================================================
+
+/**
+ * The part of a response that was left out
+ */
+export type Continuation = ResponseRemainder;
+
+/**
+ * Stored continuation, bound to the tenant that produced it
+ */
+interface ContinuationRecord {
+  tenant: string;
+  continuation: Continuation;
+  expiresAt: number;
+}
+
+// =============================================================================
+// Continuation Store Interface
+// =============================================================================
+
+export interface ContinuationStore {
+  /** Store a continuation and return its cursor */
+  save(continuation: Continuation): Promise<string>;
+
+  /** Load a continuation by cursor; null when unknown, expired or from another tenant */
+  load(cursor: string): Promise<Continuation | null>;
+}
+
+// =============================================================================
+// Continuation Store Implementations
+// =============================================================================
+
+const memoryContinuations = new Map<string, ContinuationRecord>();
+
+class MemoryContinuationStore implements ContinuationStore {
+  private tenant: Promise<string>;
+
+  constructor(tenant: Promise<string>) {
+    this.tenant = tenant;
+  }
+
+  async save(continuation: Continuation): Promise<string> {
+    const now = Date.now();
+    for (const [cursor, record] of memoryContinuations) {
+      if (record.expiresAt <= now || memoryContinuations.size >= MAX_MEMORY_CONTINUATIONS) {
+        memoryContinuations.delete(cursor);
+      }
+    }
+
+    const cursor = randomToken(24);
+    memoryContinuations.set(cursor, {
+      tenant: await this.tenant,
+      continuation,
+      expiresAt: now + CONTINUATION_TTL_SECONDS * 1000,
+    });
+    return cursor;
+  }
+
+  async load(cursor: string): Promise<Continuation | null> {
+    const record = memoryContinuations.get(cursor);
+    if (!record || record.tenant !== (await this.tenant) || record.expiresAt <= Date.now()) {
+      return null;
+    }
+    return record.continuation;
+  }
+}
+
+class KvContinuationStore implements ContinuationStore {
+  private kv: KVNamespace;
+  private tenant: Promise<string>;
+
+  constructor(kv: KVNamespace, tenant: Promise<string>) {
+    this.kv = kv;
+    this.tenant = tenant;
+  }
+
+  async save(continuation: Continuation): Promise<string> {
+    const cursor = randomToken(24);
+    const record: ContinuationRecord = {
+      tenant: await this.tenant,
+      continuation,
+      expiresAt: Date.now() + CONTINUATION_TTL_SECONDS * 1000,
+    };
+    await this.kv.put(await this.key(cursor), await encryptString(JSON.stringify(record), cursor), {
+      expirationTtl: CONTINUATION_TTL_SECONDS,
+    });
+    return cursor;
+  }
+
+  async load(cursor: string): Promise<Continuation | null> {
+    const encrypted = await this.kv.get(await this.key(cursor));
+    if (!encrypted) {
+      return null;
+    }
+    let record: ContinuationRecord;
+    try {
+      record = JSON.parse(await decryptString(encrypted, cursor));
+    } catch {
+      return null;
+    }
+    return record.tenant === (await this.tenant) ? record.continuation : null;
+  }
+
+  private async key(cursor: string): Promise<string> {
+    return `${KV_PREFIX}${await this.tenant}:${await sha256(cursor)}`;
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create the continuation store for a tenant.
+ *
+ * @param credentials - Tenant credentials; cursors only resolve for the same tenant
+ */
+export function createContinuationStore(
+  env: Env,
+  credentials: TenantCredentials
+): ContinuationStore {
+  const tenant = getTenantFingerprint(credentials);
+  return env.CACHE_KV
+    ? new KvContinuationStore(env.CACHE_KV, tenant)
+    : new MemoryContinuationStore(tenant);
+}
@@ -7,37 +7,98 @@
  * Tenant credentials (workspace URL, personal access token) are parsed from request headers,
  * allowing a single server deployment to serve multiple customers.
  *
+ * When the MCP_SESSIONS Durable Object binding is configured, /mcp serves stateful sessions:
+ * credentials are captured once when the session is initialized and per-session context
+ * (default warehouse, current catalog/schema, in-flight statements) is kept between calls.
+ * Without the binding, /mcp falls back to a stateless server built for every request.
+ * The same binding backs the legacy HTTP+SSE transport at /sse, which authenticates with the
+ * same headers and exposes the same tools.
+ *
+ * GET / describes the server and every tool it can register, generated from the registered
+ * tools (see src/manifest.ts); GET /openapi.json shows the same tools as an OpenAPI document.
+ *
  * Required Headers:
  * - X-Databricks-Host: Databricks workspace URL (e.g., https://adb-xxx.azuredatabricks.net)
  * - X-Databricks-Token: Personal access token
+ *   OR X-Databricks-Client-Id + X-Databricks-Client-Secret: Service principal OAuth (M2M)
+ *   OR X-Databricks-Azure-Token: Microsoft Entra ID access token
+ *   OR X-Databricks-Azure-Tenant-Id + X-Databricks-Azure-Client-Id +
+ *      X-Databricks-Azure-Client-Secret: Entra ID service principal
  *
  * Optional Headers:
  * - X-Databricks-Warehouse-Id: Default SQL warehouse ID for SQL operations
+ * - X-Databricks-Read-Only: "true" to register only non-mutating tools (or set READ_ONLY env var)
+ * - X-Databricks-Toolsets: Comma-separated toolsets to register (e.g., sql,unity_catalog,jobs)
+ * - X-Databricks-Include-Tools / X-Databricks-Exclude-Tools: Comma-separated tool names
+ *   (the toolset options may also be passed as ?toolsets=, ?include_tools=, ?exclude_tools=)
+ *
+ * When the MCP OAuth flow is configured (see src/oauth.ts), clients may instead omit the
+ * X-Databricks-* credential headers and log in through the browser.
  */
 
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { getAgentByName } from 'agents';
 import { McpAgent } from 'agents/mcp';
+import { AuditLogObject, createAuditLog, handleAuditRequest } from './audit.js';
+import { createResponseCache } from './cache.js';
 import { createDatabricksClient } from './client.js';
+import { createConfirmationStore } from './confirmations.js';
+import { createContinuationStore } from './continuations.js';
+import { buildOpenApiDocument, describeServer, type ServerManifest } from './manifest.js';
 import {
-  registerClusterTools,
-  registerDbfsTools,
-  registerInstancePoolsTools,
-  registerJobTools,
-  registerMlflowTools,
-  registerPipelinesTools,
-  registerReposTools,
-  registerSecretsTools,
-  registerSqlTools,
-  registerTokensTools,
-  registerUnityCatalogTools,
-  registerWorkspaceTools,
+  handleOAuthRequest,
+  hasOAuthBearer,
+  isOAuthEnabled,
+  oauthChallengeHeaders,
+  resolveOAuthCredentials,
+} from './oauth.js';
+import { registerPrompts } from './prompts.js';
+import { createRateLimiter } from './rate-limits.js';
+import { registerResources } from './resources.js';
+import {
+  createMemorySessionStore,
+  createSessionStore,
+  type SessionContext,
+  type SessionStore,
+} from './session.js';
+import { filterTools } from './tools/filter.js';
+import {
+  annotateTools,
+  auditTools,
+  declareOutputSchemas,
+  enableDryRun,
+  getActiveToolsets,
+  getToolsetsByTool,
+  isReadOnlyTool,
+  limitToolRate,
+  limitToolResponses,
+  parseToolSelection,
+  propagateCancellation,
+  registerContinuationTools,
+  registerSessionTools,
+  requireConfirmation,
+  TOOLSET_NAMES,
+  TOOLSETS,
+  type ToolSelection,
+  type ToolsetName,
 } from './tools/index.js';
 import {
   type Env,
-  type TenantCredentials,
+  getCharacterLimit,
+  getDefaultPageSize,
+  getMaxPageSize,
+  getMaxRetries,
+  getRequestTimeoutMs,
+  getRetryBudgetMs,
+  getTenantFingerprint,
+  isReadOnlyEnv,
   parseTenantCredentials,
+  type TenantCredentials,
   validateCredentials,
 } from './types/env.js';
+import { AuthenticationError } from './utils/errors.js';
+import { formatResponse } from './utils/formatters.js';
+import { redactText } from './utils/redact.js';
 
 // =============================================================================
 // MCP Server Configuration
@@ -46,58 +107,131 @@ import {
 const SERVER_NAME = 'primrose-mcp-databricks';
 const SERVER_VERSION = '1.0.0';
 
-// =============================================================================
-// MCP Agent (Stateful - uses Durable Objects)
-// =============================================================================
-
 /**
- * McpAgent provides stateful MCP sessions backed by Durable Objects.
- *
- * NOTE: For multi-tenant deployments, use the stateless mode (Option 2) instead.
+ * Props stored with each stateful session when it is initialized
  */
-export class DatabricksMcpAgent extends McpAgent<Env> {
-  server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
-  });
+type SessionProps = {
+  credentials: TenantCredentials;
+  tools: ToolSelection;
+  /** OAuth grant the session was opened with; every later request must bear a token for it */
+  grantId?: string;
+};
 
-  async init() {
-    throw new Error(
-      'Stateful mode (McpAgent) is not supported for multi-tenant deployments. ' +
-        'Use the stateless /mcp endpoint with X-Databricks-Host and X-Databricks-Token headers instead.'
-    );
-  }
-}
+/**
+ * How tenants pass their credentials, as shown in the default response
+ */
+const AUTHENTICATION = {
+  description: 'Pass Databricks credentials via request headers',
+  required_headers: {
+    'X-Databricks-Host': 'Databricks workspace URL (e.g., https://adb-xxx.azuredatabricks.net)',
+    'X-Databricks-Token': 'Personal access token',
+  },
+  service_principal_headers: {
+    'X-Databricks-Client-Id': 'Service principal OAuth client ID (replaces X-Databricks-Token)',
+    'X-Databricks-Client-Secret': 'Service principal OAuth client secret',
+  },
+  azure_entra_id_headers: {
+    'X-Databricks-Azure-Token': 'Entra ID access token (replaces X-Databricks-Token)',
+    'X-Databricks-Azure-Tenant-Id': 'Entra ID tenant ID for service principal auth',
+    'X-Databricks-Azure-Client-Id': 'Entra ID application (client) ID',
+    'X-Databricks-Azure-Client-Secret': 'Entra ID client secret',
+  },
+  optional_headers: {
+    'X-Databricks-Warehouse-Id': 'Default SQL warehouse ID for SQL operations',
+    'X-Databricks-Read-Only': '"true" to expose only non-mutating tools',
+    'X-Databricks-Toolsets': `Comma-separated toolsets to register: ${TOOLSET_NAMES.join(', ')} (default: all)`,
+    'X-Databricks-Include-Tools': 'Comma-separated tool names to register in addition',
+    'X-Databricks-Exclude-Tools': 'Comma-separated tool names to leave out',
+  },
+};
 
 // =============================================================================
-// Stateless MCP Server (Recommended - no Durable Objects needed)
+// Tool Registration
 // =============================================================================
 
 /**
- * Creates a stateless MCP server instance with tenant-specific credentials.
+ * Register the selected tools on a server instance. Shared by the stateful and stateless modes.
+ *
+ * The session, continuation and connection tools are always registered. Every other tool is
+ * registered when its toolset is active or it is named in the include list, unless it is
+ * excluded. Tools carry annotations from the tool registry, declare their output schema and
+ * return structured content, destructive tools accept dryRun and irreversible ones ask the
+ * user to confirm. Every response is cut to CHARACTER_LIMIT, with the rest available
+ * through databricks_get_more_results. Calls and prompt requests count against the tenant's
+ * rate limits and are recorded in the audit log; cancelling a call aborts its Databricks
+ * requests. In read-only
+ * mode only tools the registry classes as non-mutating are registered, plus
+ * databricks_execute_sql for pure queries; the client also refuses mutating requests and
+ * statements on its own. The read-only resource templates (tables, workspace objects, jobs)
+ * and the curated prompts are always registered.
+ *
+ * @param getCredentials - Current credentials of a stateful session, whose access token is
+ *   refreshed between requests
+ * @param waitUntil - Keeps the request alive for work done after the response, such as
+ *   writing audit entries
  */
-function createStatelessServer(credentials: TenantCredentials): McpServer {
-  const server = new McpServer({
-    name: SERVER_NAME,
-    version: SERVER_VERSION,
+function registerAllTools(
+  target: McpServer,
+  env: Env,
+  credentials: TenantCredentials,
+  tools: ToolSelection,
+  session: SessionStore,
+  getCredentials?: () => TenantCredentials,
+  waitUntil?: (promise: Promise<unknown>) => void
+): void {
+  const continuations = createContinuationStore(env, credentials);
+  const client = createDatabricksClient(credentials, {
+    retry: { maxRetries: getMaxRetries(env), budgetMs: getRetryBudgetMs(env) },
+    pagination: { defaultPageSize: getDefaultPageSize(env), maxPageSize: getMaxPageSize(env) },
+    cache: createResponseCache(env, credentials),
+    timeoutMs: getRequestTimeoutMs(env),
+    getCredentials,
   });
+  const wrapped = limitToolRate(
+    requireConfirmation(
+      enableDryRun(
+        limitToolResponses(
+          annotateTools(
+            declareOutputSchemas(
+              auditTools(
+                propagateCancellation(target),
+                createAuditLog(env),
+                { tenant: getTenantFingerprint(credentials), host: credentials.host },
+                waitUntil
+              )
+            )
+          ),
+          getCharacterLimit(env),
+          continuations
+        ),
+        client
+      ),
+      client,
+      createConfirmationStore(env, credentials.host)
+    ),
+    createRateLimiter(env, credentials)
+  );
+  const server = credentials.readOnly ? filterTools(wrapped, isReadOnlyTool) : wrapped;
+
+  const activeToolsets = getActiveToolsets(tools);
+  const include = new Set(tools.include);
+  const exclude = new Set(tools.exclude);
 
-  // Create client with tenant-specific credentials
-  const client = createDatabricksClient(credentials);
-
-  // Register all tools
-  registerSqlTools(server, client);
-  registerJobTools(server, client);
-  registerClusterTools(server, client);
-  registerWorkspaceTools(server, client);
-  registerDbfsTools(server, client);
-  registerUnityCatalogTools(server, client);
-  registerMlflowTools(server, client);
-  registerSecretsTools(server, client);
-  registerReposTools(server, client);
-  registerPipelinesTools(server, client);
-  registerInstancePoolsTools(server, client);
-  registerTokensTools(server, client);
+  registerSessionTools(server, session);
+  registerContinuationTools(server, continuations);
+  registerResources(target, client, session);
+  registerPrompts(wrapped, client, session);
+  for (const [name, register] of Object.entries(TOOLSETS)) {
+    const active = activeToolsets.includes(name as ToolsetName);
+    if (!active && include.size === 0) {
+      continue;
+    }
+    const selected = filterTools(
+      server,
+      (tool) => (active || include.has(tool)) && !exclude.has(tool)
+    );
+    register(selected, client, session);
+  }
 
   // Test connection tool
   server.tool(
@@ -106,16 +240,18 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
     {},
     async () => {
       try {
-        const result = await client.testConnection();
-        return {
-          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        const result = {
+          ...(await client.testConnection()),
+          toolsets: activeToolsets,
+          readOnly: credentials.readOnly ?? false,
         };
+        return formatResponse(result);
       } catch (error) {
         return {
           content: [
             {
               type: 'text',
-              text: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              text: `Connection failed: ${error instanceof Error ? redactText(error.message) : 'Unknown error'}`,
             },
           ],
           isError: true,
@@ -123,10 +259,283 @@ function createStatelessServer(credentials: TenantCredentials): McpServer {
       }
     }
   );
+}
+
+// =============================================================================
+// MCP Agent (Stateful - uses Durable Objects)
+// =============================================================================
+
+/**
+ * McpAgent provides stateful MCP sessions backed by Durable Objects.
+ *
+ * Each session is its own Durable Object. Tenant credentials are passed in as props when
+ * the session is initialized and persisted with it, so later calls in the same session
+ * do not need to resend the X-Databricks-* headers. The agent state holds the session
+ * context used by the SQL and session tools.
+ */
+export class DatabricksMcpAgent extends McpAgent<Env, SessionContext, SessionProps> {
+  server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  initialState: SessionContext = {
+    inFlightStatements: [],
+  };
+
+  async init() {
+    const { credentials, tools } = this.props ?? {};
+    if (!credentials) {
+      throw new Error('MCP session was created without Databricks credentials.');
+    }
+    validateCredentials(credentials, this.env);
+    credentials.readOnly = credentials.readOnly || isReadOnlyEnv(this.env);
+
+    // Seed the default warehouse from the X-Databricks-Warehouse-Id header once
+    if (!this.state.warehouseId && credentials.warehouseId) {
+      this.setState({ ...this.state, warehouseId: credentials.warehouseId });
+    }
+
+    const session = createSessionStore(
+      () => this.state,
+      (context) => this.setState(context)
+    );
+    // init() runs once per session, but OAuth requests bring a refreshed Databricks access
+    // token in their props (see withProps), so the client reads tokens from the current props
+    registerAllTools(
+      this.server,
+      this.env,
+      credentials,
+      tools ?? {},
+      session,
+      () => this.props?.credentials ?? credentials,
+      (promise) => this.ctx.waitUntil(promise)
+    );
+  }
+
+  /**
+   * OAuth grant the session was opened with, if it was opened with an MCP OAuth bearer token
+   */
+  async getGrantId(): Promise<string | undefined> {
+    return this.props?.grantId;
+  }
+}
+
+/**
+ * Durable Object holding the audit log, when bound as AUDIT_LOG
+ */
+export { AuditLogObject };
+
+const statefulMcpHandler = DatabricksMcpAgent.serve('/mcp', { binding: 'MCP_SESSIONS' });
+const sseMcpHandler = DatabricksMcpAgent.serveSSE('/sse', { binding: 'MCP_SESSIONS' });
+
+// =============================================================================
+// Stateless MCP Server (No Durable Objects needed)
+// =============================================================================
+
+/**
+ * Creates a stateless MCP server instance with tenant-specific credentials.
+ */
+function createStatelessServer(
+  env: Env,
+  ctx: ExecutionContext,
+  credentials: TenantCredentials,
+  tools: ToolSelection
+): McpServer {
+  const server = new McpServer({
+    name: SERVER_NAME,
+    version: SERVER_VERSION,
+  });
+
+  // Session context only lives for this request
+  const session = createMemorySessionStore({ warehouseId: credentials.warehouseId });
+
+  // Register tools with tenant-specific credentials
+  registerAllTools(server, env, credentials, tools, session, undefined, (promise) =>
+    ctx.waitUntil(promise)
+  );
 
   return server;
 }
 
+// =============================================================================
+// Server Manifest
+// =============================================================================
+
+/** A server with every toolset registered, described once per isolate */
+let manifest: Promise<ServerManifest> | undefined;
+
+/**
+ * Every tool, prompt and resource template the server can register, for the default
+ * response and /openapi.json. They are registered for placeholder credentials that are
+ * never used, as no handler runs.
+ */
+function getManifest(env: Env): Promise<ServerManifest> {
+  if (!manifest) {
+    const credentials: TenantCredentials = { host: 'https://manifest.invalid' };
+    const session = createMemorySessionStore();
+    const server = new McpServer({ name: SERVER_NAME, version: SERVER_VERSION });
+    registerAllTools(server, env, credentials, {}, session);
+    const toolsets = getToolsetsByTool(createDatabricksClient(credentials), session);
+    manifest = describeServer(server, toolsets).catch((error) => {
+      manifest = undefined;
+      throw error;
+    });
+  }
+  return manifest;
+}
+
+// =============================================================================
+// Request Helpers
+// =============================================================================
+
+/**
+ * Resolve tenant credentials from X-Databricks-* headers or, when the MCP OAuth flow is
+ * configured and no headers were sent, from the OAuth bearer token. The workspace host is
+ * checked against the Databricks domains and the ALLOWED_HOSTS allowlist either way.
+ */
+async function authenticate(request: Request, env: Env): Promise<TenantCredentials> {
+  const credentials = hasOAuthBearer(request, env)
+    ? await resolveOAuthCredentials(request, env)
+    : parseTenantCredentials(request);
+  validateCredentials(credentials, env);
+  credentials.readOnly = credentials.readOnly || isReadOnlyEnv(env);
+  return credentials;
+}
+
+/**
+ * Build the 401 response returned when tenant credentials are missing or invalid
+ */
+function unauthorizedResponse(error: unknown, request: Request, env: Env): Response {
+  const challenge = oauthChallengeHeaders(
+    request,
+    env,
+    hasOAuthBearer(request, env) ? 'invalid_token' : undefined
+  );
+  return new Response(
+    JSON.stringify({
+      error: 'Unauthorized',
+      message: error instanceof Error ? redactText(error.message) : 'Invalid credentials',
+      required_headers: {
+        'X-Databricks-Host': 'Your Databricks workspace URL',
+        'X-Databricks-Token': 'Your personal access token',
+      },
+      alternative_headers: {
+        'X-Databricks-Client-Id': 'Service principal OAuth client ID (instead of a token)',
+        'X-Databricks-Client-Secret': 'Service principal OAuth client secret',
+        'X-Databricks-Azure-Token': 'Microsoft Entra ID access token (Azure Databricks)',
+        'X-Databricks-Azure-Tenant-Id': 'Entra ID tenant ID (with Azure client ID and secret)',
+        'X-Databricks-Azure-Client-Id': 'Entra ID application (client) ID',
+        'X-Databricks-Azure-Client-Secret': 'Entra ID client secret',
+      },
+    }),
+    {
+      status: 401,
+      headers: { 'Content-Type': 'application/json', ...challenge },
+    }
+  );
+}
+
+/**
+ * Build the 400 response returned when the toolset selection is invalid
+ */
+function badRequestResponse(error: unknown): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Bad Request',
+      message: error instanceof Error ? error.message : 'Invalid request',
+    }),
+    {
+      status: 400,
+      headers: { 'Content-Type': 'application/json' },
+    }
+  );
+}
+
+/**
+ * Resolve the props for a new session (or stateless request): tenant credentials plus the
+ * toolset selection. Returns an error response when either is invalid.
+ */
+async function createSessionProps(request: Request, env: Env): Promise<SessionProps | Response> {
+  let tools: ToolSelection;
+  try {
+    tools = parseToolSelection(request);
+  } catch (error) {
+    return badRequestResponse(error);
+  }
+
+  try {
+    const credentials = await authenticate(request, env);
+    return { credentials, tools, grantId: credentials.subject };
+  } catch (error) {
+    return unauthorizedResponse(error, request, env);
+  }
+}
+
+/**
+ * Forward a request to a stateful session, resolving props when it opens the session or
+ * carries an OAuth bearer token.
+ *
+ * A session opened with an OAuth bearer token only accepts requests whose bearer token
+ * resolves to the same grant, so the session ID alone never stands in for the token and
+ * expired or revoked grants lose access to their sessions. Sessions opened with header
+ * credentials refuse bearer tokens, which would otherwise replace their credentials.
+ *
+ * @param agentName - Durable Object name of the session the request addresses, if any
+ */
+async function forwardToSession(
+  handler: typeof statefulMcpHandler,
+  request: Request,
+  env: Env,
+  ctx: ExecutionContext,
+  opensSession: boolean,
+  agentName: string | undefined
+): Promise<Response> {
+  let props: SessionProps | undefined;
+  if (opensSession || hasOAuthBearer(request, env)) {
+    const resolved = await createSessionProps(request, env);
+    if (resolved instanceof Response) {
+      return resolved;
+    }
+    props = resolved;
+  }
+
+  if (agentName && env.MCP_SESSIONS && isOAuthEnabled(env)) {
+    const agent = await getAgentByName<Env, DatabricksMcpAgent>(
+      env.MCP_SESSIONS as unknown as DurableObjectNamespace<DatabricksMcpAgent>,
+      agentName
+    );
+    if ((await agent.getGrantId()) !== props?.grantId) {
+      return unauthorizedResponse(
+        new AuthenticationError(
+          'This session requires a bearer token for the OAuth grant it was opened with.'
+        ),
+        request,
+        env
+      );
+    }
+  }
+
+  return handler.fetch(request, env, withProps(ctx, props));
+}
+
+/**
+ * Copy an execution context with the given props attached.
+ *
+ * The Agents SDK stores ctx.props on the session Durable Object (updateProps), so header
+ * credentials are only passed when a session is created; later requests must not overwrite
+ * them. OAuth requests pass props every time: the session's tools were registered once, in
+ * init(), but its client reads the access token from the current props on every request,
+ * so it uses the refreshed Databricks token instead of the one the session started with.
+ */
+function withProps(ctx: ExecutionContext, props: SessionProps | undefined): ExecutionContext {
+  return {
+    waitUntil: (promise) => ctx.waitUntil(promise),
+    passThroughOnException: () => ctx.passThroughOnException(),
+    props,
+  };
+}
+
 // =============================================================================
 // Worker Export
 // =============================================================================
@@ -145,35 +554,68 @@ export default {
       });
     }
 
+    // OpenAPI view of the tools, for consumers that do not speak MCP
+    if (url.pathname === '/openapi.json' && request.method === 'GET') {
+      const document = buildOpenApiDocument(
+        (await getManifest(env)).tools,
+        {
+          title: SERVER_NAME,
+          version: SERVER_VERSION,
+          description:
+            'Multi-tenant Databricks MCP Server. Every tool is called through POST /mcp.',
+        },
+        {
+          ...AUTHENTICATION.required_headers,
+          ...AUTHENTICATION.service_principal_headers,
+          ...AUTHENTICATION.azure_entra_id_headers,
+          ...AUTHENTICATION.optional_headers,
+        }
+      );
+      return new Response(JSON.stringify(document), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Audit log queries (when AUDIT_ADMIN_TOKEN is set)
+    const auditResponse = await handleAuditRequest(request, env);
+    if (auditResponse) {
+      return auditResponse;
+    }
+
+    // MCP OAuth authorization server endpoints (when configured)
+    const oauthResponse = await handleOAuthRequest(request, env);
+    if (oauthResponse) {
+      return oauthResponse;
+    }
+
     // ==========================================================================
-    // Stateless MCP with Streamable HTTP (Recommended for multi-tenant)
+    // Stateful MCP with Streamable HTTP (requires MCP_SESSIONS binding)
     // ==========================================================================
-    if (url.pathname === '/mcp' && request.method === 'POST') {
-      // Parse tenant credentials from request headers
-      const credentials = parseTenantCredentials(request);
+    if (url.pathname === '/mcp' && env.MCP_SESSIONS) {
+      // Header credentials are only captured when a new session is initialized
+      const sessionId = request.headers.get('mcp-session-id');
+      return forwardToSession(
+        statefulMcpHandler,
+        request,
+        env,
+        ctx,
+        request.method === 'POST' && !sessionId,
+        sessionId ? `streamable-http:${sessionId}` : undefined
+      );
+    }
 
-      // Validate credentials are present
-      try {
-        validateCredentials(credentials);
-      } catch (error) {
-        return new Response(
-          JSON.stringify({
-            error: 'Unauthorized',
-            message: error instanceof Error ? error.message : 'Invalid credentials',
-            required_headers: {
-              'X-Databricks-Host': 'Your Databricks workspace URL',
-              'X-Databricks-Token': 'Your personal access token',
-            },
-          }),
-          {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' },
-          }
-        );
+    // ==========================================================================
+    // Stateless MCP with Streamable HTTP
+    // ==========================================================================
+    if (url.pathname === '/mcp' && request.method === 'POST') {
+      // Resolve tenant credentials from request headers or the OAuth bearer token
+      const props = await createSessionProps(request, env);
+      if (props instanceof Response) {
+        return props;
       }
 
       // Create server with tenant-specific credentials
-      const server = createStatelessServer(credentials);
+      const server = createStatelessServer(env, ctx, props.credentials, props.tools);
 
       // Import and use createMcpHandler for streamable HTTP
       const { createMcpHandler } = await import('agents/mcp');
@@ -181,11 +623,26 @@ export default {
       return handler(request, env, ctx);
     }
 
-    // SSE endpoint for legacy clients
-    if (url.pathname === '/sse') {
-      return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
-        status: 501,
-      });
+    // ==========================================================================
+    // Legacy HTTP+SSE transport (requires MCP_SESSIONS binding)
+    // ==========================================================================
+    if (url.pathname === '/sse' || url.pathname === '/sse/message') {
+      if (!env.MCP_SESSIONS) {
+        return new Response('SSE endpoint requires Durable Objects. Enable in wrangler.jsonc.', {
+          status: 501,
+        });
+      }
+
+      // Opening the event stream creates the session, so credentials are captured here
+      const sessionId = url.searchParams.get('sessionId');
+      return forwardToSession(
+        sseMcpHandler,
+        request,
+        env,
+        ctx,
+        request.method === 'GET' && url.pathname === '/sse',
+        sessionId ? `sse:${sessionId}` : undefined
+      );
     }
 
     // Default response
@@ -195,158 +652,14 @@ export default {
         version: SERVER_VERSION,
         description: 'Multi-tenant Databricks MCP Server',
         endpoints: {
-          mcp: '/mcp (POST) - Streamable HTTP MCP endpoint',
+          mcp: '/mcp - Streamable HTTP MCP endpoint (stateful when MCP_SESSIONS is bound)',
+          sse: '/sse (GET) + /sse/message (POST) - Legacy HTTP+SSE MCP endpoint (requires MCP_SESSIONS)',
           health: '/health - Health check',
+          openapi: '/openapi.json - OpenAPI 3.1 description of the tools',
+          oauth: '/.well-known/oauth-authorization-server - MCP OAuth metadata (when configured)',
         },
-        authentication: {
-          description: 'Pass Databricks credentials via request headers',
-          required_headers: {
-            'X-Databricks-Host': 'Databricks workspace URL (e.g., https://adb-xxx.azuredatabricks.net)',
-            'X-Databricks-Token': 'Personal access token',
-          },
-          optional_headers: {
-            'X-Databricks-Warehouse-Id': 'Default SQL warehouse ID for SQL operations',
-          },
-        },
-        tools: {
-          sql: [
-            'databricks_execute_sql',
-            'databricks_get_sql_status',
-            'databricks_get_sql_result_chunk',
-            'databricks_cancel_sql',
-            'databricks_list_warehouses',
-            'databricks_get_warehouse',
-            'databricks_start_warehouse',
-            'databricks_stop_warehouse',
-          ],
-          jobs: [
-            'databricks_list_jobs',
-            'databricks_get_job',
-            'databricks_create_job',
-            'databricks_update_job',
-            'databricks_delete_job',
-            'databricks_run_job',
-            'databricks_list_runs',
-            'databricks_get_run',
-            'databricks_get_run_output',
-            'databricks_cancel_run',
-            'databricks_cancel_all_runs',
-          ],
-          clusters: [
-            'databricks_list_clusters',
-            'databricks_get_cluster',
-            'databricks_create_cluster',
-            'databricks_start_cluster',
-            'databricks_restart_cluster',
-            'databricks_terminate_cluster',
-            'databricks_delete_cluster',
-            'databricks_list_cluster_events',
-            'databricks_pin_cluster',
-            'databricks_unpin_cluster',
-          ],
-          workspace: [
-            'databricks_list_workspace',
-            'databricks_get_workspace_status',
-            'databricks_mkdirs',
-            'databricks_delete_workspace',
-            'databricks_import_notebook',
-            'databricks_export_notebook',
-          ],
-          dbfs: [
-            'databricks_list_dbfs',
-            'databricks_get_dbfs_status',
-            'databricks_mkdirs_dbfs',
-            'databricks_delete_dbfs',
-            'databricks_read_dbfs',
-            'databricks_put_dbfs',
-            'databricks_move_dbfs',
-          ],
-          unity_catalog: [
-            'databricks_list_catalogs',
-            'databricks_get_catalog',
-            'databricks_create_catalog',
-            'databricks_delete_catalog',
-            'databricks_list_schemas',
-            'databricks_get_schema',
-            'databricks_create_schema',
-            'databricks_delete_schema',
-            'databricks_list_tables',
-            'databricks_get_table',
-            'databricks_delete_table',
-            'databricks_list_volumes',
-            'databricks_get_volume',
-            'databricks_create_volume',
-            'databricks_delete_volume',
-            'databricks_list_functions',
-            'databricks_get_function',
-          ],
-          mlflow: [
-            'databricks_list_experiments',
-            'databricks_get_experiment',
-            'databricks_get_experiment_by_name',
-            'databricks_create_experiment',
-            'databricks_delete_experiment',
-            'databricks_restore_experiment',
-            'databricks_search_runs',
-            'databricks_create_run',
-            'databricks_update_run',
-            'databricks_delete_run',
-            'databricks_log_metric',
-            'databricks_log_param',
-            'databricks_set_tag',
-            'databricks_list_models',
-            'databricks_get_model',
-            'databricks_create_model',
-            'databricks_delete_model',
-            'databricks_list_model_versions',
-            'databricks_get_model_version',
-            'databricks_delete_model_version',
-          ],
-          secrets: [
-            'databricks_list_secret_scopes',
-            'databricks_create_secret_scope',
-            'databricks_delete_secret_scope',
-            'databricks_list_secrets',
-            'databricks_put_secret',
-            'databricks_delete_secret',
-            'databricks_list_secret_acls',
-            'databricks_get_secret_acl',
-            'databricks_put_secret_acl',
-            'databricks_delete_secret_acl',
-          ],
-          repos: [
-            'databricks_list_repos',
-            'databricks_get_repo',
-            'databricks_create_repo',
-            'databricks_update_repo',
-            'databricks_delete_repo',
-            'databricks_list_git_credentials',
-            'databricks_create_git_credential',
-            'databricks_delete_git_credential',
-          ],
-          pipelines: [
-            'databricks_list_pipelines',
-            'databricks_get_pipeline',
-            'databricks_create_pipeline',
-            'databricks_update_pipeline',
-            'databricks_delete_pipeline',
-            'databricks_start_pipeline',
-            'databricks_stop_pipeline',
-          ],
-          instance_pools: [
-            'databricks_list_instance_pools',
-            'databricks_get_instance_pool',
-            'databricks_create_instance_pool',
-            'databricks_edit_instance_pool',
-            'databricks_delete_instance_pool',
-          ],
-          tokens: [
-            'databricks_list_tokens',
-            'databricks_create_token',
-            'databricks_revoke_token',
-          ],
-          connection: ['databricks_test_connection'],
-        },
+        authentication: AUTHENTICATION,
+        ...(await getManifest(env)),
       }),
       {
         headers: { 'Content-Type': 'application/json' },
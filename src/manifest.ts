@@ -0,0 +1,214 @@
+/**
+ * Server Manifest
+ *
+ * Describes what this server registers, for discovery: the default `GET /` response lists
+ * every tool with its toolset, description, input JSON Schema and annotations, along with
+ * the prompts and resource templates, and `GET /openapi.json` presents the same tools as an
+ * OpenAPI 3.1 document for consumers that do not speak MCP. Both are read from a fully
+ * registered server through an in-memory MCP client, so they always match what MCP clients
+ * see in tools/list, prompts/list and resources/templates/list.
+ */
+
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { getToolSafety, type ToolSafetyClass } from './tools/registry.js';
+
+// =============================================================================
+// Manifest Types
+// =============================================================================
+
+export interface ToolManifestEntry {
+  name: string;
+
+  /** Toolset that registers the tool; null for tools that are always registered */
+  toolset: string | null;
+
+  description?: string;
+
+  /** Safety class from the tool registry */
+  safety?: ToolSafetyClass;
+
+  /** JSON Schema of the tool's arguments */
+  inputSchema: Record<string, unknown>;
+
+  /** MCP annotations (readOnlyHint, destructiveHint, idempotentHint, openWorldHint) */
+  annotations?: ToolAnnotations;
+}
+
+export interface PromptManifestEntry {
+  name: string;
+
+  title?: string;
+
+  description?: string;
+
+  arguments: { name: string; description?: string; required?: boolean }[];
+}
+
+export interface ResourceManifestEntry {
+  name: string;
+
+  title?: string;
+
+  /** RFC 6570 URI template, e.g. databricks://jobs/{id} */
+  uriTemplate: string;
+
+  description?: string;
+
+  mimeType?: string;
+}
+
+export interface ServerManifest {
+  tools: ToolManifestEntry[];
+
+  prompts: PromptManifestEntry[];
+
+  /** Resource templates; resources/list is not called, as it reads from the workspace */
+  resources: ResourceManifestEntry[];
+}
+
+export interface OpenApiInfo {
+  title: string;
+  version: string;
+  description: string;
+}
+
+// =============================================================================
+// Server Manifest
+// =============================================================================
+
+/**
+ * Every tool, prompt and resource template registered on a server, as listed to MCP clients
+ *
+ * @param toolsets - Toolset of each tool registered by a toolset
+ */
+export async function describeServer(
+  server: McpServer,
+  toolsets: Map<string, string>
+): Promise<ServerManifest> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'manifest', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  try {
+    const { tools } = await client.listTools();
+    const { prompts } = await client.listPrompts();
+    const { resourceTemplates } = await client.listResourceTemplates();
+    return {
+      tools: tools.map((tool) => ({
+        name: tool.name,
+        toolset: toolsets.get(tool.name) ?? null,
+        description: tool.description,
+        safety: getToolSafety(tool.name)?.safety,
+        inputSchema: tool.inputSchema,
+        annotations: tool.annotations,
+      })),
+      prompts: prompts.map((prompt) => ({
+        name: prompt.name,
+        title: prompt.title,
+        description: prompt.description,
+        arguments: prompt.arguments ?? [],
+      })),
+      resources: resourceTemplates.map((template) => ({
+        name: template.name,
+        title: template.title,
+        uriTemplate: template.uriTemplate,
+        description: template.description,
+        mimeType: template.mimeType,
+      })),
+    };
+  } finally {
+    await client.close();
+  }
+}
+
+// =============================================================================
+// OpenAPI View
+// =============================================================================
+
+/**
+ * JSON-RPC tools/call request for one tool, with the tool's metadata as extensions
+ */
+function toolCallSchema(tool: ToolManifestEntry): Record<string, unknown> {
+  // Embedded schemas follow the document's JSON Schema dialect
+  const { $schema: _dialect, ...argumentsSchema } = tool.inputSchema;
+  return {
+    title: tool.name,
+    description: tool.description,
+    type: 'object',
+    required: ['jsonrpc', 'id', 'method', 'params'],
+    properties: {
+      jsonrpc: { const: '2.0' },
+      id: { type: ['string', 'integer'] },
+      method: { const: 'tools/call' },
+      params: {
+        type: 'object',
+        required: ['name', 'arguments'],
+        properties: {
+          name: { const: tool.name },
+          arguments: argumentsSchema,
+        },
+      },
+    },
+    'x-toolset': tool.toolset,
+    'x-safety': tool.safety,
+    'x-annotations': tool.annotations,
+  };
+}
+
+/**
+ * OpenAPI 3.1 document for the tools. Tools are not separate HTTP routes: each one is a
+ * tools/call request to the MCP endpoint, so the document has a single `POST /mcp`
+ * operation whose request body is one of the per-tool schemas in components.schemas.
+ *
+ * @param headers - Request headers the server reads, with their descriptions
+ */
+export function buildOpenApiDocument(
+  tools: ToolManifestEntry[],
+  info: OpenApiInfo,
+  headers: Record<string, string>
+): Record<string, unknown> {
+  return {
+    openapi: '3.1.0',
+    info,
+    paths: {
+      '/mcp': {
+        post: {
+          operationId: 'callTool',
+          summary: 'Call a tool',
+          description:
+            'MCP tools/call request over Streamable HTTP. Send `Accept: application/json, ' +
+            'text/event-stream` and pass credentials in the X-Databricks-* headers or as an ' +
+            'OAuth bearer token.',
+          parameters: Object.entries(headers).map(([name, description]) => ({
+            name,
+            in: 'header',
+            required: false,
+            description,
+            schema: { type: 'string' },
+          })),
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: {
+                  oneOf: tools.map((tool) => ({ $ref: `#/components/schemas/${tool.name}` })),
+                },
+              },
+            },
+          },
+          responses: {
+            '200': {
+              description: 'JSON-RPC response carrying the tool result, as JSON or an SSE event',
+            },
+          },
+        },
+      },
+    },
+    components: {
+      schemas: Object.fromEntries(tools.map((tool) => [tool.name, toolCallSchema(tool)])),
+    },
+  };
+}
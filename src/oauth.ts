@@ -0,0 +1,810 @@
+/**
+ * MCP OAuth Authorization Server
+ *
+ * Lets MCP clients connect to /mcp by logging in through the browser instead of sending
+ * X-Databricks-* headers, following the MCP authorization spec:
+ *
+ * 1. /mcp answers unauthenticated requests with 401 and a WWW-Authenticate header pointing
+ *    at /.well-known/oauth-protected-resource.
+ * 2. The client reads this server's metadata, registers itself at /register and sends the
+ *    user to /authorize with a PKCE challenge.
+ * 3. /authorize shows which client is asking and where it will send the user back, asks
+ *    for the Databricks workspace URL and, once the user allows it, redirects to the
+ *    workspace's OAuth U2M authorize endpoint with a PKCE challenge of its own.
+ * 4. /oauth/callback checks that it is back in the browser that started the authorization,
+ *    exchanges the Databricks code, stores the Databricks refresh token encrypted in
+ *    CACHE_KV and returns an authorization code to the MCP client.
+ * 5. /token exchanges that code (or a refresh token) for an MCP access token.
+ *
+ * On every /mcp request the MCP access token is resolved to its grant, a Databricks access
+ * token is minted from the stored refresh token when needed, and TenantCredentials are built
+ * from it.
+ *
+ * Enabled when CACHE_KV, DATABRICKS_OAUTH_CLIENT_ID and OAUTH_ENCRYPTION_KEY are configured.
+ */
+
+import {
+  type Env,
+  getAllowedHosts,
+  parseBooleanFlag,
+  type TenantCredentials,
+} from './types/env.js';
+import { decryptString, encryptString, randomToken, sha256 } from './utils/crypto.js';
+import { AuthenticationError } from './utils/errors.js';
+import { normalizeWorkspaceHost } from './utils/host.js';
+import { redactText } from './utils/redact.js';
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const KV_PREFIX = 'oauth:';
+const CALLBACK_PATH = '/oauth/callback';
+
+/** Cookie binding an authorization to the browser that started it, against login CSRF */
+const BROWSER_COOKIE = '__Host-mcp_oauth_browser';
+const DATABRICKS_SCOPES = 'all-apis offline_access';
+
+const PENDING_TTL_SECONDS = 600;
+const CODE_TTL_SECONDS = 600;
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 3600;
+
+/** Refresh the Databricks access token this long before it expires */
+const DATABRICKS_TOKEN_SKEW_MS = 60_000;
+
+interface OAuthConfig {
+  kv: KVNamespace;
+  clientId: string;
+  clientSecret?: string;
+  encryptionKey: string;
+  allowedHosts: string[];
+}
+
+function getOAuthConfig(env: Env): OAuthConfig | null {
+  if (!env.CACHE_KV || !env.DATABRICKS_OAUTH_CLIENT_ID || !env.OAUTH_ENCRYPTION_KEY) {
+    return null;
+  }
+  return {
+    kv: env.CACHE_KV,
+    clientId: env.DATABRICKS_OAUTH_CLIENT_ID,
+    clientSecret: env.DATABRICKS_OAUTH_CLIENT_SECRET || undefined,
+    encryptionKey: env.OAUTH_ENCRYPTION_KEY,
+    allowedHosts: getAllowedHosts(env),
+  };
+}
+
+/**
+ * Whether the MCP OAuth flow is configured for this deployment
+ */
+export function isOAuthEnabled(env: Env): boolean {
+  return getOAuthConfig(env) !== null;
+}
+
+// =============================================================================
+// Stored Records
+// =============================================================================
+
+/** MCP client registered through dynamic client registration */
+interface RegisteredClient {
+  client_id: string;
+  client_name?: string;
+  redirect_uris: string[];
+  client_id_issued_at: number;
+}
+
+/** Authorization in progress while the user logs in to Databricks */
+interface PendingAuthorization {
+  clientId: string;
+  redirectUri: string;
+  state?: string;
+  codeChallenge: string;
+  host: string;
+  databricksVerifier: string;
+  /** Hash of the browser cookie set by /authorize */
+  browserHash: string;
+}
+
+/** Authorization code issued to the MCP client */
+interface AuthorizationCode {
+  grantId: string;
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+/** Per-user Databricks tokens, stored encrypted */
+interface Grant {
+  host: string;
+  refreshToken: string;
+  accessToken?: string;
+  accessTokenExpiresAt?: number;
+}
+
+/** MCP access or refresh token, keyed by its hash */
+interface TokenRecord {
+  grantId: string;
+  clientId: string;
+}
+
+async function getRecord<T>(config: OAuthConfig, key: string): Promise<T | null> {
+  return config.kv.get<T>(`${KV_PREFIX}${key}`, 'json');
+}
+
+async function putRecord(
+  config: OAuthConfig,
+  key: string,
+  value: unknown,
+  ttlSeconds?: number
+): Promise<void> {
+  await config.kv.put(
+    `${KV_PREFIX}${key}`,
+    JSON.stringify(value),
+    ttlSeconds ? { expirationTtl: ttlSeconds } : undefined
+  );
+}
+
+async function takeRecord<T>(config: OAuthConfig, key: string): Promise<T | null> {
+  const record = await getRecord<T>(config, key);
+  if (record) {
+    await config.kv.delete(`${KV_PREFIX}${key}`);
+  }
+  return record;
+}
+
+async function loadGrant(config: OAuthConfig, grantId: string): Promise<Grant | null> {
+  const encrypted = await config.kv.get(`${KV_PREFIX}grant:${grantId}`);
+  if (!encrypted) {
+    return null;
+  }
+  return JSON.parse(await decryptString(encrypted, config.encryptionKey)) as Grant;
+}
+
+async function saveGrant(config: OAuthConfig, grantId: string, grant: Grant): Promise<void> {
+  await config.kv.put(
+    `${KV_PREFIX}grant:${grantId}`,
+    await encryptString(JSON.stringify(grant), config.encryptionKey),
+    { expirationTtl: REFRESH_TOKEN_TTL_SECONDS }
+  );
+}
+
+// =============================================================================
+// Response Helpers
+// =============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, MCP-Protocol-Version',
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...CORS_HEADERS },
+  });
+}
+
+function oauthError(error: string, description: string, status = 400): Response {
+  return jsonResponse({ error, error_description: description }, status);
+}
+
+function redirectResponse(location: string): Response {
+  return new Response(null, { status: 302, headers: { Location: location } });
+}
+
+function readCookie(request: Request, name: string): string | undefined {
+  for (const part of (request.headers.get('Cookie') || '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) {
+      return value.join('=') || undefined;
+    }
+  }
+  return undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Headers to attach to 401 responses from /mcp so MCP clients can discover the OAuth flow
+ */
+export function oauthChallengeHeaders(
+  request: Request,
+  env: Env,
+  error?: string
+): Record<string, string> {
+  if (!isOAuthEnabled(env)) {
+    return {};
+  }
+  const origin = new URL(request.url).origin;
+  const errorParam = error ? `, error="${error}"` : '';
+  return {
+    'WWW-Authenticate': `Bearer resource_metadata="${origin}/.well-known/oauth-protected-resource"${errorParam}`,
+  };
+}
+
+// =============================================================================
+// Metadata Endpoints
+// =============================================================================
+
+function protectedResourceMetadata(origin: string): Record<string, unknown> {
+  return {
+    resource: `${origin}/mcp`,
+    authorization_servers: [origin],
+    bearer_methods_supported: ['header'],
+  };
+}
+
+function authorizationServerMetadata(origin: string): Record<string, unknown> {
+  return {
+    issuer: origin,
+    authorization_endpoint: `${origin}/authorize`,
+    token_endpoint: `${origin}/token`,
+    registration_endpoint: `${origin}/register`,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token'],
+    code_challenge_methods_supported: ['S256'],
+    token_endpoint_auth_methods_supported: ['none'],
+  };
+}
+
+// =============================================================================
+// Dynamic Client Registration
+// =============================================================================
+
+function isAllowedRedirectUri(value: string): boolean {
+  try {
+    const uri = new URL(value);
+    if (uri.protocol === 'https:') return true;
+    return uri.protocol === 'http:' && ['localhost', '127.0.0.1', '[::1]'].includes(uri.hostname);
+  } catch {
+    return false;
+  }
+}
+
+async function handleRegister(request: Request, config: OAuthConfig): Promise<Response> {
+  let body: { redirect_uris?: unknown; client_name?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return oauthError('invalid_client_metadata', 'Request body must be JSON');
+  }
+
+  const redirectUris = Array.isArray(body.redirect_uris) ? body.redirect_uris : [];
+  if (
+    redirectUris.length === 0 ||
+    !redirectUris.every((uri) => typeof uri === 'string' && isAllowedRedirectUri(uri))
+  ) {
+    return oauthError(
+      'invalid_redirect_uri',
+      'redirect_uris must be https URLs or http loopback URLs'
+    );
+  }
+
+  const client: RegisteredClient = {
+    client_id: randomToken(16),
+    client_name: typeof body.client_name === 'string' ? body.client_name : undefined,
+    redirect_uris: redirectUris as string[],
+    client_id_issued_at: Math.floor(Date.now() / 1000),
+  };
+  await putRecord(config, `client:${client.client_id}`, client);
+
+  return jsonResponse(
+    {
+      ...client,
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    },
+    201
+  );
+}
+
+// =============================================================================
+// Authorization Endpoint
+// =============================================================================
+
+interface AuthorizeParams {
+  clientId: string;
+  clientName?: string;
+  redirectUri: string;
+  state?: string;
+  codeChallenge: string;
+}
+
+/**
+ * Validate the MCP client's authorization request parameters
+ */
+async function readAuthorizeParams(
+  params: URLSearchParams,
+  config: OAuthConfig
+): Promise<AuthorizeParams | Response> {
+  const clientId = params.get('client_id') || '';
+  const redirectUri = params.get('redirect_uri') || '';
+  const client = clientId ? await getRecord<RegisteredClient>(config, `client:${clientId}`) : null;
+  if (!client) {
+    return oauthError('invalid_client', 'Unknown client_id');
+  }
+  if (!client.redirect_uris.includes(redirectUri)) {
+    return oauthError('invalid_request', 'redirect_uri is not registered for this client');
+  }
+  if (params.get('response_type') !== 'code') {
+    return oauthError('unsupported_response_type', 'Only response_type=code is supported');
+  }
+  const codeChallenge = params.get('code_challenge') || '';
+  if (!codeChallenge || params.get('code_challenge_method') !== 'S256') {
+    return oauthError('invalid_request', 'PKCE with code_challenge_method=S256 is required');
+  }
+  return {
+    clientId,
+    clientName: client.client_name,
+    redirectUri,
+    state: params.get('state') || undefined,
+    codeChallenge,
+  };
+}
+
+/**
+ * Render the consent page: which client is asking and where it sends the user back, with
+ * the Databricks workspace URL to log in to. Sets the browser cookie the callback checks.
+ */
+function renderConsentPage(
+  params: URLSearchParams,
+  client: AuthorizeParams,
+  browser: string,
+  error?: string
+): Response {
+  const hidden = [
+    'client_id',
+    'redirect_uri',
+    'response_type',
+    'state',
+    'code_challenge',
+    'code_challenge_method',
+  ]
+    .map((name) => {
+      const value = params.get(name);
+      return value === null
+        ? ''
+        : `<input type="hidden" name="${name}" value="${escapeHtml(value)}">`;
+    })
+    .join('\n      ');
+
+  const html = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>Connect to Databricks</title>
+  </head>
+  <body>
+    <h1>Connect to Databricks</h1>
+    ${error ? `<p style="color:#b00">${escapeHtml(error)}</p>` : ''}
+    <p>
+      <strong>${escapeHtml(client.clientName || 'An unnamed application')}</strong> is asking
+      for access to your Databricks workspace. After you log in, you will be sent back to
+      <strong>${escapeHtml(new URL(client.redirectUri).host)}</strong>, which will act with
+      your Databricks permissions.
+    </p>
+    <p>Only allow this if you started connecting from that application.</p>
+    <form method="post" action="/authorize">
+      ${hidden}
+      <label>Workspace URL
+        <input type="url" name="host" placeholder="https://adb-xxx.azuredatabricks.net" required>
+      </label>
+      <button type="submit" name="decision" value="allow">Allow</button>
+      <button type="submit" name="decision" value="deny" formnovalidate>Deny</button>
+    </form>
+  </body>
+</html>`;
+  return new Response(html, {
+    status: error ? 400 : 200,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'X-Frame-Options': 'DENY',
+      'Set-Cookie': `${BROWSER_COOKIE}=${browser}; Path=/; Secure; HttpOnly; SameSite=Lax; Max-Age=${PENDING_TTL_SECONDS}`,
+    },
+  });
+}
+
+async function handleAuthorize(request: Request, config: OAuthConfig): Promise<Response> {
+  const url = new URL(request.url);
+
+  if (request.method === 'GET') {
+    const params = await readAuthorizeParams(url.searchParams, config);
+    if (params instanceof Response) {
+      return params;
+    }
+    const browser = readCookie(request, BROWSER_COOKIE) || randomToken(24);
+    return renderConsentPage(url.searchParams, params, browser);
+  }
+
+  const form = new URLSearchParams(await request.text());
+  const params = await readAuthorizeParams(form, config);
+  if (params instanceof Response) {
+    return params;
+  }
+
+  // SameSite=Lax keeps the cookie off cross-site posts, so only the consent page gets here
+  const browser = readCookie(request, BROWSER_COOKIE);
+  if (!browser) {
+    return oauthError('invalid_request', 'Authorization page expired; start the login again');
+  }
+
+  if (form.get('decision') !== 'allow') {
+    return clientRedirect(params.redirectUri, {
+      error: 'access_denied',
+      error_description: 'The user denied access',
+      state: params.state,
+    });
+  }
+
+  let host: string;
+  try {
+    host = normalizeWorkspaceHost(form.get('host') || '', config.allowedHosts);
+  } catch (error) {
+    return renderConsentPage(
+      form,
+      params,
+      browser,
+      error instanceof Error ? error.message : 'Invalid workspace URL'
+    );
+  }
+
+  const databricksVerifier = randomToken(32);
+  const pendingId = randomToken(24);
+  const pending: PendingAuthorization = {
+    ...params,
+    host,
+    databricksVerifier,
+    browserHash: await sha256(browser),
+  };
+  await putRecord(config, `pending:${pendingId}`, pending, PENDING_TTL_SECONDS);
+
+  const authorizeUrl = new URL(`${host}/oidc/v1/authorize`);
+  authorizeUrl.search = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: `${url.origin}${CALLBACK_PATH}`,
+    response_type: 'code',
+    scope: DATABRICKS_SCOPES,
+    state: pendingId,
+    code_challenge: await sha256(databricksVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  return redirectResponse(authorizeUrl.toString());
+}
+
+// =============================================================================
+// Databricks Callback
+// =============================================================================
+
+interface DatabricksTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in?: number;
+}
+
+/**
+ * Call the workspace token endpoint for the U2M app
+ */
+async function requestDatabricksToken(
+  config: OAuthConfig,
+  host: string,
+  params: Record<string, string>
+): Promise<DatabricksTokenResponse> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/x-www-form-urlencoded',
+  };
+  if (config.clientSecret) {
+    headers.Authorization = `Basic ${btoa(`${config.clientId}:${config.clientSecret}`)}`;
+  }
+
+  const response = await fetch(`${host}/oidc/v1/token`, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams({ client_id: config.clientId, ...params }),
+  });
+  const body = (await response.json().catch(() => ({}))) as Partial<DatabricksTokenResponse> & {
+    error_description?: string;
+    error?: string;
+  };
+  if (!response.ok || !body.access_token) {
+    const reason = body.error_description || body.error || `HTTP ${response.status}`;
+    throw new AuthenticationError(`Databricks OAuth token request failed: ${reason}`);
+  }
+  return body as DatabricksTokenResponse;
+}
+
+function clientRedirect(redirectUri: string, params: Record<string, string | undefined>): Response {
+  const target = new URL(redirectUri);
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== undefined) target.searchParams.set(key, value);
+  }
+  return redirectResponse(target.toString());
+}
+
+async function handleCallback(request: Request, config: OAuthConfig): Promise<Response> {
+  const url = new URL(request.url);
+  const pending = await takeRecord<PendingAuthorization>(
+    config,
+    `pending:${url.searchParams.get('state') || ''}`
+  );
+  if (!pending) {
+    return oauthError('invalid_request', 'Authorization request expired or is unknown');
+  }
+  const browser = readCookie(request, BROWSER_COOKIE);
+  if (!browser || (await sha256(browser)) !== pending.browserHash) {
+    return oauthError('invalid_request', 'Authorization was started in a different browser');
+  }
+
+  const upstreamError = url.searchParams.get('error');
+  const code = url.searchParams.get('code');
+  if (upstreamError || !code) {
+    return clientRedirect(pending.redirectUri, {
+      error: 'access_denied',
+      error_description: url.searchParams.get('error_description') || upstreamError || undefined,
+      state: pending.state,
+    });
+  }
+
+  let tokens: DatabricksTokenResponse;
+  try {
+    tokens = await requestDatabricksToken(config, pending.host, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: `${url.origin}${CALLBACK_PATH}`,
+      code_verifier: pending.databricksVerifier,
+    });
+  } catch (error) {
+    return clientRedirect(pending.redirectUri, {
+      error: 'server_error',
+      error_description:
+        error instanceof Error ? redactText(error.message) : 'Token exchange failed',
+      state: pending.state,
+    });
+  }
+  if (!tokens.refresh_token) {
+    return clientRedirect(pending.redirectUri, {
+      error: 'server_error',
+      error_description: 'Databricks did not return a refresh token (offline_access not granted)',
+      state: pending.state,
+    });
+  }
+
+  const grantId = randomToken(16);
+  await saveGrant(config, grantId, {
+    host: pending.host,
+    refreshToken: tokens.refresh_token,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+  });
+
+  const authorizationCode = randomToken(32);
+  const codeRecord: AuthorizationCode = {
+    grantId,
+    clientId: pending.clientId,
+    redirectUri: pending.redirectUri,
+    codeChallenge: pending.codeChallenge,
+  };
+  await putRecord(config, `code:${await sha256(authorizationCode)}`, codeRecord, CODE_TTL_SECONDS);
+
+  return clientRedirect(pending.redirectUri, { code: authorizationCode, state: pending.state });
+}
+
+// =============================================================================
+// Token Endpoint
+// =============================================================================
+
+async function issueTokens(config: OAuthConfig, record: TokenRecord): Promise<Response> {
+  const accessToken = randomToken(32);
+  const refreshToken = randomToken(32);
+  await putRecord(config, `access:${await sha256(accessToken)}`, record, ACCESS_TOKEN_TTL_SECONDS);
+  await putRecord(
+    config,
+    `refresh:${await sha256(refreshToken)}`,
+    record,
+    REFRESH_TOKEN_TTL_SECONDS
+  );
+  return jsonResponse({
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+  });
+}
+
+async function handleToken(request: Request, config: OAuthConfig): Promise<Response> {
+  const form = new URLSearchParams(await request.text());
+  const clientId = form.get('client_id') || '';
+
+  switch (form.get('grant_type')) {
+    case 'authorization_code': {
+      const code = await takeRecord<AuthorizationCode>(
+        config,
+        `code:${await sha256(form.get('code') || '')}`
+      );
+      if (!code || code.clientId !== clientId) {
+        return oauthError('invalid_grant', 'Authorization code is invalid or expired');
+      }
+      if (code.redirectUri !== form.get('redirect_uri')) {
+        return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+      }
+      if ((await sha256(form.get('code_verifier') || '')) !== code.codeChallenge) {
+        return oauthError('invalid_grant', 'PKCE verification failed');
+      }
+      return issueTokens(config, { grantId: code.grantId, clientId });
+    }
+
+    case 'refresh_token': {
+      // Refresh tokens are single use; a new one is issued with every refresh
+      const record = await takeRecord<TokenRecord>(
+        config,
+        `refresh:${await sha256(form.get('refresh_token') || '')}`
+      );
+      if (!record || record.clientId !== clientId) {
+        return oauthError('invalid_grant', 'Refresh token is invalid or expired');
+      }
+      if (!(await loadGrant(config, record.grantId))) {
+        return oauthError('invalid_grant', 'Databricks authorization has expired');
+      }
+      return issueTokens(config, record);
+    }
+
+    default:
+      return oauthError('unsupported_grant_type', 'Use authorization_code or refresh_token');
+  }
+}
+
+// =============================================================================
+// Request Routing
+// =============================================================================
+
+/**
+ * Handle OAuth endpoints. Returns null when the request is not for an OAuth route or the
+ * flow is not configured.
+ */
+export async function handleOAuthRequest(request: Request, env: Env): Promise<Response | null> {
+  const config = getOAuthConfig(env);
+  if (!config) {
+    return null;
+  }
+
+  const url = new URL(request.url);
+  const route = `${request.method} ${url.pathname}`;
+
+  // CORS preflight for the endpoints browser-based MCP clients call directly
+  if (
+    request.method === 'OPTIONS' &&
+    (url.pathname.startsWith('/.well-known/oauth-') ||
+      url.pathname === '/register' ||
+      url.pathname === '/token')
+  ) {
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  switch (route) {
+    case 'GET /.well-known/oauth-protected-resource':
+    case 'GET /.well-known/oauth-protected-resource/mcp':
+      return jsonResponse(protectedResourceMetadata(url.origin));
+    case 'GET /.well-known/oauth-authorization-server':
+      return jsonResponse(authorizationServerMetadata(url.origin));
+    case 'POST /register':
+      return handleRegister(request, config);
+    case 'GET /authorize':
+    case 'POST /authorize':
+      return handleAuthorize(request, config);
+    case `GET ${CALLBACK_PATH}`:
+      return handleCallback(request, config);
+    case 'POST /token':
+      return handleToken(request, config);
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// Credential Resolution
+// =============================================================================
+
+/**
+ * Whether a request carries an MCP OAuth bearer token rather than X-Databricks-* headers
+ */
+export function hasOAuthBearer(request: Request, env: Env): boolean {
+  return (
+    isOAuthEnabled(env) &&
+    !request.headers.get('X-Databricks-Host') &&
+    /^Bearer\s+\S+/i.test(request.headers.get('Authorization') || '')
+  );
+}
+
+/** Refreshes in flight in this isolate, so concurrent requests rotate a grant's token once */
+const pendingRefreshes = new Map<string, Promise<Grant>>();
+
+function hasFreshAccessToken(grant: Grant): boolean {
+  return (
+    !!grant.accessToken &&
+    !!grant.accessTokenExpiresAt &&
+    grant.accessTokenExpiresAt - DATABRICKS_TOKEN_SKEW_MS > Date.now()
+  );
+}
+
+/**
+ * Mint a Databricks access token from the grant's refresh token and store the rotated
+ * refresh token, sharing one refresh between concurrent callers for the same grant.
+ */
+function refreshGrant(config: OAuthConfig, grantId: string, grant: Grant): Promise<Grant> {
+  let pending = pendingRefreshes.get(grantId);
+  if (!pending) {
+    pending = rotateGrant(config, grantId, grant).finally(() => pendingRefreshes.delete(grantId));
+    pendingRefreshes.set(grantId, pending);
+  }
+  return pending;
+}
+
+async function rotateGrant(config: OAuthConfig, grantId: string, grant: Grant): Promise<Grant> {
+  let tokens: DatabricksTokenResponse;
+  try {
+    tokens = await requestDatabricksToken(config, grant.host, {
+      grant_type: 'refresh_token',
+      refresh_token: grant.refreshToken,
+    });
+  } catch (error) {
+    // Another isolate may have rotated the refresh token first; use the grant it stored
+    const latest = await loadGrant(config, grantId);
+    if (latest && latest.refreshToken !== grant.refreshToken && hasFreshAccessToken(latest)) {
+      return latest;
+    }
+    throw error;
+  }
+
+  const refreshed: Grant = {
+    host: grant.host,
+    refreshToken: tokens.refresh_token || grant.refreshToken,
+    accessToken: tokens.access_token,
+    accessTokenExpiresAt: Date.now() + (tokens.expires_in ?? 3600) * 1000,
+  };
+  await saveGrant(config, grantId, refreshed);
+  return refreshed;
+}
+
+/**
+ * Build TenantCredentials from an MCP OAuth access token.
+ *
+ * Mints a fresh Databricks access token from the stored refresh token when the cached one
+ * is about to expire, and persists rotated refresh tokens.
+ */
+export async function resolveOAuthCredentials(
+  request: Request,
+  env: Env
+): Promise<TenantCredentials> {
+  const config = getOAuthConfig(env);
+  if (!config) {
+    throw new AuthenticationError('OAuth is not configured on this server.');
+  }
+
+  const bearer = (request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  const record = await getRecord<TokenRecord>(config, `access:${await sha256(bearer)}`);
+  let grant = record ? await loadGrant(config, record.grantId) : null;
+  if (!record || !grant) {
+    throw new AuthenticationError('Invalid or expired access token.');
+  }
+
+  if (!hasFreshAccessToken(grant)) {
+    grant = await refreshGrant(config, record.grantId, grant);
+  }
+
+  return {
+    host: grant.host,
+    token: grant.accessToken,
+    warehouseId: request.headers.get('X-Databricks-Warehouse-Id') || undefined,
+    readOnly: parseBooleanFlag(request.headers.get('X-Databricks-Read-Only')),
+    subject: record.grantId,
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * MCP Prompts
+ *
+ * Curated prompts for common Databricks workflows. Each prompt pre-fetches the relevant
+ * workspace data with the DatabricksClient and hands the model a complete, grounded
+ * starting message:
+ *
+ * - debug_failed_job_run - run state, failed task errors and the job definition
+ * - explain_table - table DDL, columns and metadata
+ * - optimize_sql_query - the query and its EXPLAIN plan
+ * - review_cluster_config - cluster configuration and recent events
+ *
+ * Run output, job and cluster definitions pass through redactSecrets before they are
+ * embedded, since logs and error traces often echo credentials.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { DatabricksClient } from './client.js';
+import type { SessionStore } from './session.js';
+import type { RunTask, StatementResponse } from './types/databricks.js';
+import { ValidationError } from './utils/errors.js';
+import { truncateToLimit } from './utils/formatters.js';
+import { redactSecrets, redactText } from './utils/redact.js';
+import { buildTableDdl, isReadOnlyStatement } from './utils/sql.js';
+
+/** Upper bound for each block of fetched data embedded in a prompt */
+const MAX_SECTION_CHARS = 20000;
+
+/** Failed task outputs fetched for a multi-task run */
+const MAX_FAILED_TASK_OUTPUTS = 5;
+
+/** Recent cluster events included in a cluster review */
+const CLUSTER_EVENT_COUNT = 25;
+
+/** Task result states that count as failures */
+const FAILED_RESULT_STATES = new Set(['FAILED', 'TIMEDOUT', 'CANCELED']);
+
+// =============================================================================
+// Prompt Helpers
+// =============================================================================
+
+/**
+ * A fenced block of fetched data, cut to MAX_SECTION_CHARS
+ */
+function section(title: string, data: unknown, language = 'json'): string {
+  const text = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+  const limited = truncateToLimit(text, MAX_SECTION_CHARS);
+  const suffix = limited ? '\n(truncated)' : '';
+  return `## ${title}\n\n\`\`\`${language}\n${limited?.text ?? text}\n\`\`\`${suffix}`;
+}
+
+/**
+ * Fetch optional context; a failure is reported in the prompt instead of failing it
+ */
+async function tryFetch<T>(fetch: () => Promise<T>): Promise<T | { unavailable: string }> {
+  try {
+    return await fetch();
+  } catch (error) {
+    return { unavailable: redactText(error instanceof Error ? error.message : String(error)) };
+  }
+}
+
+/**
+ * A prompt result with a single user message
+ */
+function userPrompt(description: string, parts: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text: parts.join('\n\n') } }],
+  };
+}
+
+function parseId(value: string, name: string): number {
+  const id = Number(value.trim());
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new ValidationError(`${name} must be a positive integer, got "${value}"`);
+  }
+  return id;
+}
+
+/**
+ * Register all curated prompts
+ */
+export function registerPrompts(
+  server: McpServer,
+  client: DatabricksClient,
+  session: SessionStore
+): void {
+  // ===========================================================================
+  // Debug Failed Job Run
+  // ===========================================================================
+  server.registerPrompt(
+    'debug_failed_job_run',
+    {
+      title: 'Debug a failed job run',
+      description:
+        'Diagnose why a job run failed, using its state, the errors of the failed tasks and the job definition',
+      argsSchema: {
+        runId: z.string().describe('ID of the failed job run'),
+      },
+    },
+    async ({ runId }) => {
+      const run = await client.getRun(parseId(runId, 'runId'));
+      const tasks: RunTask[] = run.tasks ?? [];
+      const failedTasks = tasks.filter((task) =>
+        FAILED_RESULT_STATES.has(task.state?.result_state ?? '')
+      );
+
+      // Multi-task runs only have output on the task runs; single-task runs on the run itself
+      const outputRuns =
+        tasks.length === 0
+          ? [{ run_id: run.run_id, task_key: 'run' }]
+          : failedTasks.length > 0
+            ? failedTasks
+            : tasks;
+      const outputs = await Promise.all(
+        outputRuns.slice(0, MAX_FAILED_TASK_OUTPUTS).map(async (task) => {
+          const output = await tryFetch(() => client.getRunOutput(task.run_id));
+          const { error, error_trace, logs } = output as Record<string, unknown>;
+          return { task_key: task.task_key, run_id: task.run_id, error, error_trace, logs };
+        })
+      );
+      const job = run.job_id ? await tryFetch(() => client.getJob(run.job_id)) : undefined;
+
+      return userPrompt(`Debug job run ${run.run_id}`, [
+        `Job run ${run.run_id}${run.run_name ? ` (${run.run_name})` : ''} ended with ` +
+          `${run.state?.life_cycle_state ?? 'unknown state'} / ${run.state?.result_state ?? 'no result'}` +
+          `${run.state?.state_message ? `: ${redactText(run.state.state_message)}` : ''}.`,
+        'Find the root cause of the failure from the data below. Point to the failing task and ' +
+          'the line or configuration responsible, distinguish code errors from infrastructure ' +
+          'problems (cluster, permissions, quotas), and propose a concrete fix. Say so when the ' +
+          'data is not enough to be certain.',
+        section('Run', redactSecrets(run)),
+        section(
+          failedTasks.length > 0 ? 'Failed task output' : 'Run output',
+          redactSecrets(outputs)
+        ),
+        ...(job ? [section('Job definition', redactSecrets(job))] : []),
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Explain Table
+  // ===========================================================================
+  server.registerPrompt(
+    'explain_table',
+    {
+      title: 'Explain a table',
+      description: 'Explain what a Unity Catalog table contains and how to query it',
+      argsSchema: {
+        table: z
+          .string()
+          .describe('Table name: catalog.schema.table, or a name in the current catalog/schema'),
+      },
+    },
+    async ({ table: tableName }) => {
+      const { catalog, schema } = session.get();
+      // Fill in the current catalog and schema for partially qualified names
+      const parts = tableName.trim().split('.');
+      const names = [...[catalog, schema].slice(0, Math.max(0, 3 - parts.length)), ...parts];
+      if (names.length !== 3 || names.some((name) => !name)) {
+        throw new ValidationError(
+          `Cannot resolve "${tableName}" to catalog.schema.table. Pass a fully qualified name ` +
+            'or set the current catalog and schema with databricks_set_session_context.'
+        );
+      }
+
+      const fullName = names.join('.');
+      const table = await client.getTable(fullName);
+      const { columns, ...metadata } = table;
+
+      return userPrompt(`Explain table ${fullName}`, [
+        `Explain the Unity Catalog table ${fullName} (${table.table_type}).`,
+        'Describe what the data represents and its grain, the role of each important column ' +
+          '(keys, timestamps, partition columns), how it is stored and maintained, and give two ' +
+          'or three example queries. Base the explanation on the metadata below and say when ' +
+          'something is an inference.',
+        section('DDL', buildTableDdl(table), 'sql'),
+        section('Columns', columns ?? []),
+        section('Metadata', metadata),
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Optimize SQL Query
+  // ===========================================================================
+  server.registerPrompt(
+    'optimize_sql_query',
+    {
+      title: 'Optimize a SQL query',
+      description:
+        'Suggest how to make a SQL query faster or cheaper, grounded in its EXPLAIN plan',
+      argsSchema: {
+        query: z.string().describe('SQL query to optimize'),
+        warehouseId: z
+          .string()
+          .optional()
+          .describe('SQL warehouse to run EXPLAIN on (default: session warehouse)'),
+      },
+    },
+    async ({ query, warehouseId }) => {
+      const context = session.get();
+      const targetWarehouseId = warehouseId || context.warehouseId;
+      const statement = query.trim().replace(/;\s*$/, '');
+      if (!isReadOnlyStatement(statement)) {
+        throw new ValidationError(
+          'query must be a single read-only statement, since EXPLAIN is run on it against the warehouse'
+        );
+      }
+
+      let plan: unknown;
+      if (targetWarehouseId) {
+        const result = await tryFetch(() =>
+          client.executeStatement(targetWarehouseId, `EXPLAIN FORMATTED ${statement}`, {
+            catalog: context.catalog,
+            schema: context.schema,
+          })
+        );
+        const response = result as StatementResponse;
+        plan =
+          response.status?.state === 'SUCCEEDED'
+            ? (response.result?.data_array ?? []).map((row) => row.join('\t')).join('\n')
+            : result;
+      } else {
+        plan = 'No warehouse given and no session warehouse set; EXPLAIN was not run.';
+      }
+
+      return userPrompt('Optimize SQL query', [
+        'Optimize the Databricks SQL query below for speed and cost without changing its results.',
+        'Use the EXPLAIN plan to find full scans, missing partition or data-skipping filters, ' +
+          'expensive shuffles and joins, and skew. Propose a rewritten query, explain each ' +
+          'change, and mention table-level improvements (Z-ORDER / liquid clustering, ' +
+          'statistics) separately from query rewrites.',
+        section('Query', statement, 'sql'),
+        section('EXPLAIN FORMATTED', plan, typeof plan === 'string' ? 'text' : 'json'),
+        ...(context.catalog || context.schema
+          ? [`Current catalog/schema: ${context.catalog ?? '-'}.${context.schema ?? '-'}`]
+          : []),
+      ]);
+    }
+  );
+
+  // ===========================================================================
+  // Review Cluster Configuration
+  // ===========================================================================
+  server.registerPrompt(
+    'review_cluster_config',
+    {
+      title: 'Review cluster configuration',
+      description: 'Review a cluster for cost, reliability and performance issues',
+      argsSchema: {
+        clusterId: z.string().describe('ID of the cluster to review'),
+      },
+    },
+    async ({ clusterId }) => {
+      const cluster = await client.getCluster(clusterId.trim());
+      const events = await tryFetch(async () => {
+        const page = await client.listClusterEvents(cluster.cluster_id, {
+          pageSize: CLUSTER_EVENT_COUNT,
+        });
+        return page.items;
+      });
+
+      return userPrompt(`Review cluster ${cluster.cluster_name ?? cluster.cluster_id}`, [
+        `Review the configuration of cluster ${cluster.cluster_name ?? ''} (${cluster.cluster_id}).`,
+        'Check sizing and autoscaling, auto-termination, runtime version and Photon, spot vs ' +
+          'on-demand settings, instance pools, Spark configuration and tags. Use the recent ' +
+          'events to spot instability (lost nodes, driver restarts, failed expansions). List ' +
+          'concrete recommendations ordered by impact, with the setting to change.',
+        section('Cluster', redactSecrets(cluster)),
+        section('Recent events', redactSecrets(events)),
+      ]);
+    }
+  );
+}
@@ -0,0 +1,161 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createRateLimiter, DEFAULT_RATE_LIMITS, parseRateLimits } from './rate-limits.js';
+import { type Env, getTenantFingerprint, type TenantCredentials } from './types/env.js';
+import { TenantRateLimitError } from './utils/errors.js';
+
+let tenants = 0;
+
+/**
+ * Credentials of a tenant no other test has used, since memory counters are per isolate
+ */
+function newTenant(overrides: Partial<TenantCredentials> = {}): TenantCredentials {
+  tenants += 1;
+  return { host: `https://tenant-${tenants}.cloud.databricks.com`, token: 'dapi-1', ...overrides };
+}
+
+describe('parseRateLimits', () => {
+  it('limits nothing when RATE_LIMITS is unset', () => {
+    assert.deepEqual(parseRateLimits(undefined), { calls: {} });
+    assert.deepEqual(parseRateLimits(''), { calls: {} });
+  });
+
+  it('applies the recommended limits for "default"', () => {
+    assert.deepEqual(parseRateLimits('default'), DEFAULT_RATE_LIMITS);
+  });
+
+  it('applies entries in order', () => {
+    const limits = parseRateLimits('default, read=off, sql=100/Minute, sql_concurrency=10');
+    assert.equal(limits.calls.read, undefined);
+    assert.deepEqual(limits.calls.sql, { limit: 100, window: 'minute' });
+    assert.deepEqual(limits.calls.compute, DEFAULT_RATE_LIMITS.calls.compute);
+    assert.equal(limits.concurrentStatements, 10);
+  });
+
+  it('sets only the listed categories without "default"', () => {
+    assert.deepEqual(parseRateLimits('compute=5/hour'), {
+      calls: { compute: { limit: 5, window: 'hour' } },
+    });
+  });
+
+  it('removes every limit for "off"', () => {
+    assert.deepEqual(parseRateLimits('default,off'), {
+      calls: {},
+      concurrentStatements: undefined,
+    });
+  });
+
+  it('ignores malformed entries', () => {
+    assert.deepEqual(
+      parseRateLimits(
+        'sql=lots,unknown=1/minute,compute=0/day,runs=5/fortnight,sql_concurrency=-1'
+      ),
+      { calls: {} }
+    );
+  });
+});
+
+describe('getTenantFingerprint', () => {
+  const host = 'https://adb-1.azuredatabricks.net';
+
+  it('includes the service principal secret', async () => {
+    const right = await getTenantFingerprint({ host, clientId: 'sp', clientSecret: 'secret' });
+    const wrong = await getTenantFingerprint({ host, clientId: 'sp', clientSecret: 'guess' });
+    assert.notEqual(right, wrong);
+  });
+
+  it('includes the Entra ID client secret', async () => {
+    const azure = { host, azureTenantId: 't', azureClientId: 'app' };
+    assert.notEqual(
+      await getTenantFingerprint({ ...azure, azureClientSecret: 'secret' }),
+      await getTenantFingerprint({ ...azure, azureClientSecret: 'guess' })
+    );
+  });
+
+  it('keeps OAuth users on their grant when the access token is refreshed', async () => {
+    assert.equal(
+      await getTenantFingerprint({ host, token: 'first', subject: 'grant-1' }),
+      await getTenantFingerprint({ host, token: 'refreshed', subject: 'grant-1' })
+    );
+    assert.notEqual(
+      await getTenantFingerprint({ host, token: 'first', subject: 'grant-1' }),
+      await getTenantFingerprint({ host, token: 'first', subject: 'grant-2' })
+    );
+  });
+});
+
+describe('RateLimiter', () => {
+  it('refuses calls once the limit is reached', async () => {
+    const limiter = createRateLimiter({ RATE_LIMITS: 'compute=2/day' } as Env, newTenant());
+    await limiter.consume('compute');
+    await limiter.consume('compute');
+    await assert.rejects(limiter.consume('compute'), (error: unknown) => {
+      assert.ok(error instanceof TenantRateLimitError);
+      assert.equal(error.category, 'compute');
+      assert.ok(error.retryAfterSeconds > 0 && error.retryAfterSeconds <= 24 * 60 * 60);
+      return true;
+    });
+    await limiter.consume('read');
+  });
+
+  it('counts parallel calls one by one', async () => {
+    const limiter = createRateLimiter({ RATE_LIMITS: 'compute=2/day' } as Env, newTenant());
+    const results = await Promise.allSettled(
+      Array.from({ length: 5 }, () => limiter.consume('compute'))
+    );
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 2);
+  });
+
+  it('keeps separate counters for different secrets of the same client ID', async () => {
+    const env = { RATE_LIMITS: 'compute=1/day' } as Env;
+    const { host } = newTenant();
+    const attacker = createRateLimiter(env, { host, clientId: 'sp', clientSecret: 'guess' });
+    await attacker.consume('compute');
+    await assert.rejects(attacker.consume('compute'), TenantRateLimitError);
+
+    const owner = createRateLimiter(env, { host, clientId: 'sp', clientSecret: 'secret' });
+    await owner.consume('compute');
+  });
+
+  it('caps concurrent statements until a slot is freed', async () => {
+    const limiter = createRateLimiter({ RATE_LIMITS: 'sql_concurrency=2' } as Env, newTenant());
+    await limiter.startStatement('a');
+    await limiter.startStatement('b');
+    await assert.rejects(limiter.startStatement('c'), TenantRateLimitError);
+
+    // A statement already holding a slot, or one that is forced, is not refused
+    await limiter.startStatement('a');
+    await limiter.startStatement('d', { force: true });
+
+    await limiter.finishStatement('a');
+    await limiter.finishStatement('d');
+    await limiter.startStatement('c');
+  });
+
+  it('gives parallel statements only the free slots', async () => {
+    const limiter = createRateLimiter({ RATE_LIMITS: 'sql_concurrency=2' } as Env, newTenant());
+    const results = await Promise.allSettled(
+      ['a', 'b', 'c', 'd'].map((id) => limiter.startStatement(id))
+    );
+    assert.equal(results.filter((result) => result.status === 'fulfilled').length, 2);
+  });
+
+  it('shares counters through CACHE_KV', async () => {
+    const values = new Map<string, string>();
+    const kv = {
+      get: async (key: string, type?: string) => {
+        const value = values.get(key);
+        return value === undefined ? null : type === 'json' ? JSON.parse(value) : value;
+      },
+      put: async (key: string, value: string) => {
+        values.set(key, value);
+      },
+    } as unknown as KVNamespace;
+    const env = { RATE_LIMITS: 'sql=1/minute', CACHE_KV: kv } as Env;
+    const credentials = newTenant();
+
+    await createRateLimiter(env, credentials).consume('sql');
+    await assert.rejects(createRateLimiter(env, credentials).consume('sql'), TenantRateLimitError);
+    assert.ok([...values.keys()].every((key) => key.startsWith('ratelimit:')));
+  });
+});
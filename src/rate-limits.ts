@@ -0,0 +1,351 @@
+/**
+ * Per-Tenant Rate Limits
+ *
+ * Counts tool calls per tenant so one tenant cannot flood the Worker or its workspace, for
+ * example a runaway agent looping on SQL statements or creating clusters. A tenant is
+ * identified by a hash of its workspace host and verified identity: the credential with its
+ * secret, or the OAuth grant (see getTenantFingerprint). A call is counted before it runs,
+ * so calls in progress count as well.
+ *
+ * Each category of tools has its own limit per fixed window, e.g. 60 SQL statements per
+ * minute, and the number of SQL statements running at the same time is capped as well.
+ * Limits are opt-in and come from the RATE_LIMITS environment variable:
+ *
+ *   RATE_LIMITS="sql=60/minute,compute=20/day,sql_concurrency=5"
+ *   RATE_LIMITS="default,read=off"   (the recommended limits, without the read limit)
+ *
+ * Counters are stored in CACHE_KV when it is bound, so they are shared by every Worker
+ * instance. KV is eventually consistent, so limits are approximate there. Otherwise they
+ * are kept in a module-level map shared by every session in the current isolate. Updates
+ * to a counter are serialized within an isolate, so parallel calls cannot both take the
+ * last slot.
+ */
+
+import { type Env, getTenantFingerprint, type TenantCredentials } from './types/env.js';
+import { TenantRateLimitError } from './utils/errors.js';
+
+const KV_PREFIX = 'ratelimit:';
+
+/** Upper bound for counters kept in memory per isolate */
+const MAX_MEMORY_COUNTERS = 1000;
+
+/** How long a statement holds a concurrency slot when nobody reports it finished */
+const STATEMENT_SLOT_TTL_SECONDS = 30 * 60;
+
+/** Suggested wait when every concurrency slot is taken */
+const CONCURRENCY_RETRY_SECONDS = 10;
+
+/** Shortest expiration CACHE_KV accepts */
+const MIN_KV_TTL_SECONDS = 60;
+
+const WINDOW_SECONDS = {
+  second: 1,
+  minute: 60,
+  hour: 60 * 60,
+  day: 24 * 60 * 60,
+} as const;
+
+// =============================================================================
+// Rate Limit Types
+// =============================================================================
+
+/**
+ * Categories of tools that share a limit:
+ *
+ * - sql: SQL statements (databricks_execute_sql)
+ * - compute: creating or starting clusters, warehouses and instance pools
+ * - runs: triggering job runs and pipeline updates
+ * - write: every other tool that changes the workspace
+ * - read: tools that only read from the workspace
+ */
+export type RateLimitCategory = 'sql' | 'compute' | 'runs' | 'write' | 'read';
+
+export type RateLimitWindow = keyof typeof WINDOW_SECONDS;
+
+export interface RateLimit {
+  /** Calls allowed per window */
+  limit: number;
+
+  window: RateLimitWindow;
+}
+
+export interface RateLimits {
+  /** Limit per category; a missing category is unlimited */
+  calls: Partial<Record<RateLimitCategory, RateLimit>>;
+
+  /** Most SQL statements running at once; undefined for no cap */
+  concurrentStatements?: number;
+}
+
+/**
+ * Recommended limits, applied by the `default` entry of RATE_LIMITS
+ */
+export const DEFAULT_RATE_LIMITS: RateLimits = {
+  calls: {
+    sql: { limit: 60, window: 'minute' },
+    compute: { limit: 20, window: 'day' },
+    runs: { limit: 100, window: 'hour' },
+    write: { limit: 60, window: 'minute' },
+    read: { limit: 300, window: 'minute' },
+  },
+  concurrentStatements: 5,
+};
+
+const CATEGORY_LABELS: Record<RateLimitCategory, string> = {
+  sql: 'SQL statements',
+  compute: 'cluster, warehouse and instance pool starts',
+  runs: 'job runs and pipeline updates',
+  write: 'workspace changes',
+  read: 'read calls',
+};
+
+/**
+ * Parse RATE_LIMITS into limits. Nothing is limited unless RATE_LIMITS says so.
+ *
+ * Entries are comma-separated and applied in order: `default` applies DEFAULT_RATE_LIMITS,
+ * `<category>=<count>/<window>` sets a category's limit and `sql_concurrency=<count>` the
+ * concurrent statement cap. `off` (or 0) removes a limit and `RATE_LIMITS=off` removes them
+ * all. Malformed entries are ignored.
+ */
+export function parseRateLimits(value: string | undefined): RateLimits {
+  const limits: RateLimits = { calls: {} };
+
+  for (const entry of (value || '').split(',')) {
+    const [name, setting] = entry.split('=').map((part) => part.trim().toLowerCase());
+    if (name === 'default' && setting === undefined) {
+      limits.calls = { ...limits.calls, ...DEFAULT_RATE_LIMITS.calls };
+      limits.concurrentStatements = DEFAULT_RATE_LIMITS.concurrentStatements;
+      continue;
+    }
+    if (name === 'off' && setting === undefined) {
+      limits.calls = {};
+      limits.concurrentStatements = undefined;
+      continue;
+    }
+    if (!name || !setting) {
+      continue;
+    }
+    const off = setting === 'off' || setting === '0';
+    if (name === 'sql_concurrency') {
+      const count = Number.parseInt(setting, 10);
+      if (off || count > 0) {
+        limits.concurrentStatements = off ? undefined : count;
+      }
+      continue;
+    }
+    if (!(name in CATEGORY_LABELS)) {
+      continue;
+    }
+    const category = name as RateLimitCategory;
+    if (off) {
+      delete limits.calls[category];
+      continue;
+    }
+    const match = /^(\d+)\s*\/\s*(second|minute|hour|day)$/.exec(setting);
+    if (match && Number(match[1]) > 0) {
+      limits.calls[category] = { limit: Number(match[1]), window: match[2] as RateLimitWindow };
+    }
+  }
+  return limits;
+}
+
+// =============================================================================
+// Counter Storage
+// =============================================================================
+
+/**
+ * Key-value storage with expiry for counters and statement slots
+ */
+interface CounterStore {
+  get<T>(key: string): Promise<T | null>;
+  put(key: string, value: unknown, ttlSeconds: number): Promise<void>;
+}
+
+const memoryCounters = new Map<string, { value: unknown; expiresAt: number }>();
+
+class MemoryCounterStore implements CounterStore {
+  async get<T>(key: string): Promise<T | null> {
+    const entry = memoryCounters.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry.value as T;
+  }
+
+  async put(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    const now = Date.now();
+    if (!memoryCounters.has(key) && memoryCounters.size >= MAX_MEMORY_COUNTERS) {
+      for (const [stored, entry] of memoryCounters) {
+        if (entry.expiresAt <= now || memoryCounters.size >= MAX_MEMORY_COUNTERS) {
+          memoryCounters.delete(stored);
+        }
+      }
+    }
+    memoryCounters.set(key, { value, expiresAt: now + ttlSeconds * 1000 });
+  }
+}
+
+/** Counter updates in progress in this isolate, by counter key */
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+/**
+ * Run a read-modify-write of a counter after the updates already queued for its key
+ */
+function serialize<T>(key: string, update: () => Promise<T>): Promise<T> {
+  const result = (pendingUpdates.get(key) ?? Promise.resolve()).then(update);
+  const settled = result.catch(() => undefined);
+  pendingUpdates.set(key, settled);
+  void settled.then(() => {
+    if (pendingUpdates.get(key) === settled) {
+      pendingUpdates.delete(key);
+    }
+  });
+  return result;
+}
+
+class KvCounterStore implements CounterStore {
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async get<T>(key: string): Promise<T | null> {
+    return this.kv.get<T>(`${KV_PREFIX}${key}`, 'json');
+  }
+
+  async put(key: string, value: unknown, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`${KV_PREFIX}${key}`, JSON.stringify(value), {
+      expirationTtl: Math.max(ttlSeconds, MIN_KV_TTL_SECONDS),
+    });
+  }
+}
+
+// =============================================================================
+// Rate Limiter
+// =============================================================================
+
+/**
+ * Statement ID (or placeholder) to the time its slot lapses
+ */
+type StatementSlots = Record<string, number>;
+
+export interface RateLimiter {
+  /**
+   * Count a call against its category. Throws TenantRateLimitError when the limit for the
+   * current window is used up; the rejected call is not counted.
+   */
+  consume(category: RateLimitCategory): Promise<void>;
+
+  /**
+   * Take a concurrency slot for a statement. Throws TenantRateLimitError when every slot is
+   * held by a statement that is still running, unless `force` is set.
+   */
+  startStatement(id: string, options?: { force?: boolean }): Promise<void>;
+
+  /** Free the slot of a statement that finished, failed or was cancelled */
+  finishStatement(id: string): Promise<void>;
+}
+
+class StoreRateLimiter implements RateLimiter {
+  private store: CounterStore;
+  private limits: RateLimits;
+  private tenant: Promise<string>;
+
+  constructor(store: CounterStore, limits: RateLimits, tenant: Promise<string>) {
+    this.store = store;
+    this.limits = limits;
+    this.tenant = tenant;
+  }
+
+  async consume(category: RateLimitCategory): Promise<void> {
+    const rule = this.limits.calls[category];
+    if (!rule) {
+      return;
+    }
+    const windowMs = WINDOW_SECONDS[rule.window] * 1000;
+    const windowStart = Date.now() - (Date.now() % windowMs);
+    const key = `${await this.tenant}:${category}:${windowStart}`;
+
+    await serialize(key, async () => {
+      const now = Date.now();
+      const retryAfterSeconds = Math.max(Math.ceil((windowStart + windowMs - now) / 1000), 1);
+      const count = (await this.store.get<number>(key)) ?? 0;
+      if (count >= rule.limit) {
+        throw new TenantRateLimitError(
+          `Rate limit reached: at most ${rule.limit} ${CATEGORY_LABELS[category]} per ` +
+            `${rule.window} for these credentials. Retry after ${retryAfterSeconds}s ` +
+            `(${new Date(now + retryAfterSeconds * 1000).toISOString()}).`,
+          retryAfterSeconds,
+          category
+        );
+      }
+      await this.store.put(key, count + 1, retryAfterSeconds);
+    });
+  }
+
+  async startStatement(id: string, options?: { force?: boolean }): Promise<void> {
+    const cap = this.limits.concurrentStatements;
+    if (cap === undefined) {
+      return;
+    }
+    const key = await this.slotsKey();
+    await serialize(key, async () => {
+      const slots = await this.loadSlots(key);
+      if (!options?.force && !(id in slots) && Object.keys(slots).length >= cap) {
+        throw new TenantRateLimitError(
+          `Concurrency limit reached: at most ${cap} SQL statements may run at once for these ` +
+            `credentials. Retry after ${CONCURRENCY_RETRY_SECONDS}s, once a statement has finished ` +
+            '(check with databricks_get_sql_status or stop one with databricks_cancel_sql).',
+          CONCURRENCY_RETRY_SECONDS,
+          'sql_concurrency'
+        );
+      }
+      slots[id] = Date.now() + STATEMENT_SLOT_TTL_SECONDS * 1000;
+      await this.store.put(key, slots, STATEMENT_SLOT_TTL_SECONDS);
+    });
+  }
+
+  async finishStatement(id: string): Promise<void> {
+    if (this.limits.concurrentStatements === undefined) {
+      return;
+    }
+    const key = await this.slotsKey();
+    await serialize(key, async () => {
+      const slots = await this.loadSlots(key);
+      if (id in slots) {
+        delete slots[id];
+        await this.store.put(key, slots, STATEMENT_SLOT_TTL_SECONDS);
+      }
+    });
+  }
+
+  private async slotsKey(): Promise<string> {
+    return `${await this.tenant}:statements`;
+  }
+
+  /**
+   * Slots that have not lapsed
+   */
+  private async loadSlots(key: string): Promise<StatementSlots> {
+    const now = Date.now();
+    const slots = (await this.store.get<StatementSlots>(key)) ?? {};
+    return Object.fromEntries(Object.entries(slots).filter(([, expiresAt]) => expiresAt > now));
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create the rate limiter for a tenant, with limits from RATE_LIMITS (none when it is unset)
+ */
+export function createRateLimiter(env: Env, credentials: TenantCredentials): RateLimiter {
+  const store = env.CACHE_KV ? new KvCounterStore(env.CACHE_KV) : new MemoryCounterStore();
+  return new StoreRateLimiter(
+    store,
+    parseRateLimits(env.RATE_LIMITS),
+    getTenantFingerprint(credentials)
+  );
+}
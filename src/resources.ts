@@ -0,0 +1,230 @@
+/**
+ * MCP Resources
+ *
+ * Exposes Unity Catalog tables, workspace notebooks and job definitions as MCP resource
+ * templates, so clients can browse them and attach them as context without tool calls:
+ *
+ * - databricks://uc/{catalog}/{schema}/{table} - table DDL and columns
+ * - databricks://workspace/{+path} - notebook or file source
+ * - databricks://jobs/{id} - job definition
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { DatabricksClient } from './client.js';
+import type { SessionStore } from './session.js';
+import { base64UrlDecode } from './utils/crypto.js';
+import { ValidationError } from './utils/errors.js';
+import { buildTableDdl } from './utils/sql.js';
+
+/** Most suggestions returned for a completion request */
+const MAX_COMPLETIONS = 100;
+
+/** Page size used when listing resources and completion candidates */
+const LIST_PAGE_SIZE = 100;
+
+/** MIME types for the file types returned by a workspace export */
+const WORKSPACE_MIME_TYPES: Record<string, string> = {
+  py: 'text/x-python',
+  sql: 'application/sql',
+  scala: 'text/x-scala',
+  r: 'text/x-r',
+  ipynb: 'application/x-ipynb+json',
+};
+
+const decoder = new TextDecoder();
+
+/**
+ * Template variables arrive percent-encoded as they appear in the URI
+ */
+function variable(variables: Record<string, string | string[]>, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value.join(',') : (value ?? ''));
+}
+
+/**
+ * Keep the candidates that start with the typed prefix. Completion failures (e.g. missing
+ * permissions) yield no suggestions rather than an error.
+ */
+async function complete(prefix: string, candidates: () => Promise<string[]>): Promise<string[]> {
+  try {
+    const values = await candidates();
+    return values.filter((value) => value.startsWith(prefix)).slice(0, MAX_COMPLETIONS);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Register the Unity Catalog, workspace and job resource templates
+ */
+export function registerResources(
+  server: McpServer,
+  client: DatabricksClient,
+  session: SessionStore
+): void {
+  // ===========================================================================
+  // Unity Catalog Tables
+  // ===========================================================================
+  server.registerResource(
+    'uc_table',
+    new ResourceTemplate('databricks://uc/{catalog}/{schema}/{table}', {
+      // Listing every table in the metastore is too expensive; list the session's
+      // current schema when one is set
+      list: async () => {
+        const { catalog, schema } = session.get();
+        if (!catalog || !schema) {
+          return { resources: [] };
+        }
+        const page = await client.listTables(catalog, schema, { pageSize: LIST_PAGE_SIZE });
+        return {
+          resources: page.items.map((table) => ({
+            uri: `databricks://uc/${[catalog, schema, table.name].map(encodeURIComponent).join('/')}`,
+            name: `${catalog}.${schema}.${table.name}`,
+            description: table.comment,
+            mimeType: 'application/sql',
+          })),
+        };
+      },
+      complete: {
+        catalog: (value) =>
+          complete(value, async () => {
+            const page = await client.listCatalogs({ pageSize: LIST_PAGE_SIZE });
+            return page.items.map((catalog) => catalog.name);
+          }),
+        schema: (value, context) =>
+          complete(value, async () => {
+            const catalog = context?.arguments?.catalog;
+            if (!catalog) {
+              return [];
+            }
+            const page = await client.listSchemas(catalog, { pageSize: LIST_PAGE_SIZE });
+            return page.items.map((schema) => schema.name);
+          }),
+        table: (value, context) =>
+          complete(value, async () => {
+            const catalog = context?.arguments?.catalog;
+            const schema = context?.arguments?.schema;
+            if (!catalog || !schema) {
+              return [];
+            }
+            const page = await client.listTables(catalog, schema, { pageSize: LIST_PAGE_SIZE });
+            return page.items.map((table) => table.name);
+          }),
+      },
+    }),
+    {
+      title: 'Unity Catalog table',
+      description: 'DDL and columns of a Unity Catalog table or view',
+    },
+    async (uri, variables) => {
+      const fullName = ['catalog', 'schema', 'table']
+        .map((name) => variable(variables, name))
+        .join('.');
+      const table = await client.getTable(fullName);
+      const columns = [...(table.columns ?? [])]
+        .sort((a, b) => a.position - b.position)
+        .map((column) => ({
+          name: column.name,
+          type: column.type_text,
+          nullable: column.nullable,
+          comment: column.comment,
+          partition_index: column.partition_index,
+        }));
+
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'application/sql', text: buildTableDdl(table) },
+          {
+            uri: uri.href,
+            mimeType: 'application/json',
+            text: JSON.stringify(
+              {
+                full_name: table.full_name ?? fullName,
+                table_type: table.table_type,
+                data_source_format: table.data_source_format,
+                comment: table.comment,
+                owner: table.owner,
+                columns,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+  );
+
+  // ===========================================================================
+  // Workspace Objects
+  // ===========================================================================
+  server.registerResource(
+    'workspace_object',
+    new ResourceTemplate('databricks://workspace/{+path}', {
+      list: undefined,
+      complete: {
+        // Suggest the entries of the directory being typed, e.g. "Users/me/" -> its children
+        path: (value) =>
+          complete(`/${value}`, async () => {
+            const directory = `/${value}`.replace(/\/[^/]*$/, '') || '/';
+            const page = await client.listWorkspace(directory, { pageSize: LIST_PAGE_SIZE });
+            return page.items.map((object) => object.path);
+          }).then((paths) => paths.map((path) => path.slice(1))),
+      },
+    }),
+    {
+      title: 'Workspace notebook or file',
+      description:
+        'Source of a workspace notebook or file, e.g. databricks://workspace/Users/me/etl',
+    },
+    async (uri, variables) => {
+      const path = `/${variable(variables, 'path').replace(/^\/+/, '')}`;
+      const exported = await client.exportWorkspace(path, 'SOURCE');
+      return {
+        contents: [
+          {
+            uri: uri.href,
+            mimeType: WORKSPACE_MIME_TYPES[exported.file_type ?? ''] ?? 'text/plain',
+            text: decoder.decode(base64UrlDecode(exported.content)),
+          },
+        ],
+      };
+    }
+  );
+
+  // ===========================================================================
+  // Jobs
+  // ===========================================================================
+  server.registerResource(
+    'job',
+    new ResourceTemplate('databricks://jobs/{id}', {
+      list: async () => {
+        const page = await client.listJobs({ pageSize: LIST_PAGE_SIZE });
+        return {
+          resources: page.items.map((job) => ({
+            uri: `databricks://jobs/${job.job_id}`,
+            name: job.settings?.name || `Job ${job.job_id}`,
+            mimeType: 'application/json',
+          })),
+        };
+      },
+    }),
+    {
+      title: 'Job definition',
+      description: 'Settings, tasks and schedule of a Databricks job',
+      mimeType: 'application/json',
+    },
+    async (uri, variables) => {
+      const jobId = Number(variable(variables, 'id'));
+      if (!Number.isInteger(jobId)) {
+        throw new ValidationError(`Invalid job ID in ${uri.href}`);
+      }
+      const job = await client.getJob(jobId);
+      return {
+        contents: [
+          { uri: uri.href, mimeType: 'application/json', text: JSON.stringify(job, null, 2) },
+        ],
+      };
+    }
+  );
+}
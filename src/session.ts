@@ -0,0 +1,130 @@
+/**
+ * MCP Session Context
+ *
+ * Per-session conversation context (default warehouse, current catalog/schema and
+ * in-flight SQL statements) shared by the tools registered on a server instance.
+ *
+ * In stateless mode the context lives in memory for the duration of a single request.
+ * In stateful mode it is backed by the Durable Object state of DatabricksMcpAgent, so it
+ * survives across calls within the same MCP session.
+ */
+
+// =============================================================================
+// Session Context
+// =============================================================================
+
+export interface SessionContext {
+  /** Default SQL warehouse ID used when a tool call omits one */
+  warehouseId?: string;
+
+  /** Current catalog used as the default for SQL statements */
+  catalog?: string;
+
+  /** Current schema used as the default for SQL statements */
+  schema?: string;
+
+  /** IDs of SQL statements started in this session that have not yet finished */
+  inFlightStatements: string[];
+}
+
+// =============================================================================
+// Session Store Interface
+// =============================================================================
+
+export interface SessionStore {
+  /** Read the current session context */
+  get(): SessionContext;
+
+  /** Merge changes into the session context */
+  update(changes: Partial<SessionContext>): void;
+
+  /** Record a statement as in flight */
+  trackStatement(statementId: string): void;
+
+  /** Remove a statement from the in-flight list */
+  untrackStatement(statementId: string): void;
+}
+
+// =============================================================================
+// Session Store Implementation
+// =============================================================================
+
+/**
+ * Session store that delegates persistence to a pair of read/write callbacks.
+ */
+class CallbackSessionStore implements SessionStore {
+  private read: () => SessionContext;
+  private write: (context: SessionContext) => void;
+
+  constructor(read: () => SessionContext, write: (context: SessionContext) => void) {
+    this.read = read;
+    this.write = write;
+  }
+
+  get(): SessionContext {
+    return this.read();
+  }
+
+  update(changes: Partial<SessionContext>): void {
+    this.write({ ...this.read(), ...changes });
+  }
+
+  trackStatement(statementId: string): void {
+    const context = this.read();
+    if (!context.inFlightStatements.includes(statementId)) {
+      this.write({
+        ...context,
+        inFlightStatements: [...context.inFlightStatements, statementId],
+      });
+    }
+  }
+
+  untrackStatement(statementId: string): void {
+    const context = this.read();
+    if (context.inFlightStatements.includes(statementId)) {
+      this.write({
+        ...context,
+        inFlightStatements: context.inFlightStatements.filter((id) => id !== statementId),
+      });
+    }
+  }
+}
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create an in-memory session store (stateless mode).
+ *
+ * @param initial - Initial context values, e.g. the warehouse ID from request headers
+ */
+export function createMemorySessionStore(initial: Partial<SessionContext> = {}): SessionStore {
+  let context: SessionContext = { inFlightStatements: [], ...initial };
+  return new CallbackSessionStore(
+    () => context,
+    (next) => {
+      context = next;
+    }
+  );
+}
+
+/**
+ * Create a session store backed by external state (stateful mode).
+ *
+ * @param read - Returns the persisted session context
+ * @param write - Persists an updated session context
+ */
+export function createSessionStore(
+  read: () => SessionContext,
+  write: (context: SessionContext) => void
+): SessionStore {
+  return new CallbackSessionStore(read, write);
+}
+
+/**
+ * Statement states that mean the statement is still running on the warehouse.
+ */
+export function isStatementInFlight(state: string | undefined): boolean {
+  return state === 'PENDING' || state === 'RUNNING';
+}
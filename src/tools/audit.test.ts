@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { AuditEntry, AuditLog } from '../audit.js';
+import { NotFoundError } from '../utils/errors.js';
+import { formatResponse } from '../utils/formatters.js';
+import { auditTools } from './audit.js';
+
+/**
+ * Client for a server with databricks_list_jobs and a failing debug_failed_job_run prompt
+ * behind auditTools, and the writes handed to waitUntil
+ */
+async function connect(log: AuditLog): Promise<{ client: Client; writes: Promise<unknown>[] }> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const writes: Promise<unknown>[] = [];
+  const caller = {
+    tenant: Promise.resolve('tenant-1'),
+    host: 'https://audit.cloud.databricks.com',
+  };
+  const audited = auditTools(server, log, caller, (promise) => writes.push(promise));
+  audited.tool('databricks_list_jobs', 'List jobs', {}, () =>
+    formatResponse({ items: [], count: 0, has_more: false })
+  );
+  audited.registerPrompt('debug_failed_job_run', { argsSchema: { runId: z.string() } }, () => {
+    throw new NotFoundError('Run 7 does not exist', 'RESOURCE_DOES_NOT_EXIST');
+  });
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return { client, writes };
+}
+
+describe('auditTools', () => {
+  it('returns the result without waiting for the audit entry', async () => {
+    const log = { record: () => new Promise<void>(() => {}) } as unknown as AuditLog;
+    const { client, writes } = await connect(log);
+
+    const result = await client.callTool({ name: 'databricks_list_jobs', arguments: {} });
+    assert.equal(result.isError, undefined);
+    assert.equal(writes.length, 1);
+    await client.close();
+  });
+
+  it('returns the result when the audit entry cannot be written', async () => {
+    const log = {
+      record: async () => {
+        throw new Error('storage unavailable');
+      },
+    } as unknown as AuditLog;
+    const { client, writes } = await connect(log);
+
+    const result = await client.callTool({ name: 'databricks_list_jobs', arguments: {} });
+    assert.equal(result.isError, undefined);
+    await Promise.all(writes);
+    await client.close();
+  });
+
+  it('records failed prompt requests with their error code', async () => {
+    const entries: AuditEntry[] = [];
+    const log = { record: async (entry: AuditEntry) => entries.push(entry) } as unknown as AuditLog;
+    const { client, writes } = await connect(log);
+
+    await assert.rejects(
+      client.getPrompt({ name: 'debug_failed_job_run', arguments: { runId: '7' } })
+    );
+    await Promise.all(writes);
+    assert.equal(entries.length, 1);
+    assert.equal(entries[0]?.tool, 'prompt:debug_failed_job_run');
+    assert.deepEqual(entries[0]?.arguments, { runId: '7' });
+    assert.equal(entries[0]?.status, 'error');
+    assert.equal(entries[0]?.errorCode, 'RESOURCE_DOES_NOT_EXIST');
+    await client.close();
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Auditing of Tool Calls
+ *
+ * Records every tool call and prompt request in the audit log (see src/audit.ts) once it has finished, with the
+ * tenant fingerprint, arguments with secrets replaced, duration, outcome and error code.
+ * The entry is written in the background: the result is returned without waiting for it,
+ * and a failure to write it is logged and never fails the call itself.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { AuditEntry, AuditLog, AuditStatus } from '../audit.js';
+import { DatabricksApiError, formatErrorForLogging } from '../utils/errors.js';
+import type { ToolResponse } from '../utils/formatters.js';
+import { REDACTED, redactSecrets } from '../utils/redact.js';
+import { wrapPrompts, wrapTools } from './filter.js';
+
+/** Longest string argument kept in full */
+const MAX_ARGUMENT_CHARS = 500;
+
+/** Arguments holding confirmation tokens or file and notebook contents */
+const REDACTED_ARGUMENTS = new Set(['confirm', 'content', 'contents']);
+
+/** Secret arguments with generic names, per tool (see redactSecrets for the rest) */
+const REDACTED_TOOL_ARGUMENTS: Record<string, string[]> = {
+  databricks_put_secret: ['value'],
+};
+
+/**
+ * Who is calling: the tenant fingerprint and workspace URL
+ */
+export interface AuditTenant {
+  tenant: Promise<string>;
+  host: string;
+}
+
+/**
+ * Arguments as recorded: secrets replaced, long strings shortened
+ */
+function redactArguments(tool: string, args: unknown): Record<string, unknown> {
+  if (!args || typeof args !== 'object') {
+    return {};
+  }
+  const secret = REDACTED_TOOL_ARGUMENTS[tool] ?? [];
+  return Object.fromEntries(
+    Object.entries(redactSecrets(args as Record<string, unknown>)).map(([name, value]) => {
+      if ((REDACTED_ARGUMENTS.has(name) || secret.includes(name)) && value !== undefined) {
+        return [name, REDACTED];
+      }
+      if (typeof value === 'string' && value.length > MAX_ARGUMENT_CHARS) {
+        return [name, `${value.slice(0, MAX_ARGUMENT_CHARS)}... (${value.length} chars)`];
+      }
+      return [name, value];
+    })
+  );
+}
+
+/**
+ * Outcome of a call from its response, with the error code from the formatError details
+ */
+function outcomeOf(result: unknown): { status: AuditStatus; errorCode?: string } {
+  const response = result as ToolResponse | undefined;
+  if (!response?.isError) {
+    return { status: response?.structuredContent?.dry_run === true ? 'dry_run' : 'success' };
+  }
+  try {
+    const body = JSON.parse(response.content[0]?.text ?? '') as { details?: { code?: string } };
+    return { status: 'error', errorCode: body.details?.code };
+  } catch {
+    return { status: 'error' };
+  }
+}
+
+/**
+ * Write an audit entry, logging rather than throwing when it cannot be written
+ */
+async function recordEntry(
+  log: AuditLog,
+  caller: AuditTenant,
+  entry: Omit<AuditEntry, 'tenant' | 'host'>
+): Promise<void> {
+  try {
+    await log.record({ ...entry, tenant: await caller.tenant, host: caller.host });
+  } catch (error) {
+    console.error('Failed to write audit entry', entry.tool, formatErrorForLogging(error));
+  }
+}
+
+/**
+ * Wrap a server so every tool call and prompt request is recorded in the audit log.
+ *
+ * Register it innermost (wrap the target server first, after propagateCancellation) so it
+ * sees every call, including dry runs, declined confirmations and calls refused by the rate
+ * limits, and the response the client receives.
+ *
+ * @param waitUntil - Keeps the Worker alive until the entry is written, after the response
+ */
+export function auditTools(
+  server: McpServer,
+  log: AuditLog,
+  caller: AuditTenant,
+  waitUntil?: (promise: Promise<unknown>) => void
+): McpServer {
+  const audited = wrapTools(server, (name, handler) => async (...args) => {
+    const started = Date.now();
+    let outcome: { status: AuditStatus; errorCode?: string } = { status: 'error' };
+    try {
+      const result = await handler(...args);
+      outcome = outcomeOf(result);
+      return result;
+    } finally {
+      const written = recordEntry(log, caller, {
+        timestamp: new Date(started).toISOString(),
+        tool: name,
+        // Tools without an input schema are only passed the request context
+        arguments: redactArguments(name, args.length > 1 ? args[0] : undefined),
+        durationMs: Date.now() - started,
+        ...outcome,
+      });
+      waitUntil?.(written);
+    }
+  });
+
+  // Prompts are recorded as prompt:<name>; a prompt that fails throws instead of returning
+  return wrapPrompts(audited, (name, handler) => async (...args) => {
+    const started = Date.now();
+    let outcome: { status: AuditStatus; errorCode?: string } = { status: 'error' };
+    try {
+      const result = await handler(...args);
+      outcome = { status: 'success' };
+      return result;
+    } catch (error) {
+      outcome = {
+        status: 'error',
+        errorCode: error instanceof DatabricksApiError ? error.code : undefined,
+      };
+      throw error;
+    } finally {
+      const written = recordEntry(log, caller, {
+        timestamp: new Date(started).toISOString(),
+        tool: `prompt:${name}`,
+        arguments: redactArguments(name, args.length > 1 ? args[0] : undefined),
+        durationMs: Date.now() - started,
+        ...outcome,
+      });
+      waitUntil?.(written);
+    }
+  });
+}
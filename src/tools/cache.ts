@@ -0,0 +1,15 @@
+/**
+ * Cache Parameters
+ *
+ * Input parameters shared by tools whose reads may be answered from the response cache
+ * (see src/cache.ts).
+ */
+
+import { z } from 'zod';
+
+export const cacheParams = {
+  noCache: z
+    .boolean()
+    .optional()
+    .describe('Skip the response cache and read fresh data from the workspace'),
+};
@@ -0,0 +1,26 @@
+/**
+ * Cancellation of Tool Calls
+ *
+ * Binds the abort signal of every tool call's MCP request (see src/cancellation.ts), so
+ * Databricks requests made for the call are aborted when the client cancels it.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { runWithCallSignal } from '../cancellation.js';
+import { wrapTools } from './filter.js';
+
+/**
+ * Wrap a server so Databricks requests made by a tool call follow its cancellation.
+ *
+ * Register it innermost (wrap the target server first) so the signal is bound before any
+ * other wrapper runs, including dry runs and confirmation previews that read the workspace.
+ */
+export function propagateCancellation(server: McpServer): McpServer {
+  return wrapTools(server, (_name, handler) => (...args) => {
+    // The request context is always the last argument
+    const extra = args[args.length - 1] as { signal?: AbortSignal } | undefined;
+    return extra?.signal
+      ? runWithCallSignal(extra.signal, () => handler(...args))
+      : handler(...args);
+  });
+}
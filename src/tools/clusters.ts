@@ -8,6 +8,12 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { cacheParams } from './cache.js';
+import { paginationParams } from './pagination.js';
+import { describeWait, waitForState, waitParams } from './wait.js';
+
+/** Cluster states in which waiting for a start ends */
+const CLUSTER_FINAL_STATES = new Set(['RUNNING', 'TERMINATED', 'ERROR']);
 
 /**
  * Register all cluster-related tools
@@ -20,13 +26,22 @@ export function registerClusterTools(server: McpServer, client: DatabricksClient
     'databricks_list_clusters',
     `List all clusters in the workspace.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
+
 Returns:
-  List of clusters with their configuration and status.`,
-    {},
-    async () => {
+  List of clusters with their configuration and status.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+      ...cacheParams,
+    },
+    async ({ pageSize, cursor, noCache }) => {
       try {
-        const clusters = await client.listClusters();
-        return formatResponse({ clusters, count: clusters.length });
+        const page = await client.listClusters({ pageSize, cursor, noCache });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -120,15 +135,29 @@ Returns:
 
 Args:
   - clusterId: Cluster ID to start
+  - wait: (Optional) Wait until the cluster is running, reporting progress
+  - timeoutSeconds: (Optional) Most seconds to wait (default: 600)
 
 Returns:
-  Confirmation that the cluster is starting.`,
+  Confirmation that the cluster is starting. With wait, its final state and details.`,
     {
       clusterId: z.string().describe('Cluster ID'),
+      ...waitParams,
     },
-    async ({ clusterId }) => {
+    async ({ clusterId, wait, timeoutSeconds }, extra) => {
       try {
         await client.startCluster(clusterId);
+        if (wait) {
+          const label = `Cluster ${clusterId}`;
+          const result = await waitForState(extra, {
+            label,
+            fetch: () => client.getCluster(clusterId),
+            state: (cluster) => cluster.state,
+            final: CLUSTER_FINAL_STATES,
+            timeoutSeconds,
+          });
+          return formatSuccess(describeWait(label, result, 'databricks_get_cluster'), result);
+        }
         return formatSuccess(`Cluster ${clusterId} is starting`);
       } catch (error) {
         return formatError(error);
@@ -224,18 +253,20 @@ Returns:
 
 Args:
   - clusterId: Cluster ID
-  - limit: (Optional) Maximum events to return (default: 50)
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of cluster events.`,
+  List of cluster events.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       clusterId: z.string().describe('Cluster ID'),
-      limit: z.number().int().min(1).max(500).optional().describe('Maximum events'),
+      ...paginationParams,
     },
-    async ({ clusterId, limit }) => {
+    async ({ clusterId, pageSize, cursor }) => {
       try {
-        const result = await client.listClusterEvents(clusterId, { limit });
-        return formatResponse({ events: result.events, count: result.events.length });
+        const page = await client.listClusterEvents(clusterId, { pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
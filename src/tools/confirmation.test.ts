@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { DatabricksClient } from '../client.js';
+import { createConfirmationStore } from '../confirmations.js';
+import type { Env } from '../types/env.js';
+import { formatSuccess } from '../utils/formatters.js';
+import { requireConfirmation } from './confirmation.js';
+
+/**
+ * Client whose token list has `pages` pages of 20 tokens, the last of which ends the list
+ * only when `complete` is set
+ */
+function tokenClient(pages: number, complete: boolean): DatabricksClient {
+  return {
+    listTokens: async (page: { cursor?: string }) => {
+      const index = Number(page.cursor ?? 0);
+      const hasMore = index + 1 < pages || !complete;
+      return {
+        items: Array.from({ length: 20 }, (_, item) => ({ token_id: `t-${index * 20 + item}` })),
+        count: 20,
+        has_more: hasMore,
+        ...(hasMore && { next_cursor: String(index + 1) }),
+      };
+    },
+  } as unknown as DatabricksClient;
+}
+
+/**
+ * MCP client for a server with databricks_revoke_token behind requireConfirmation, and the
+ * IDs of the tokens the tool revoked
+ */
+async function connect(client: DatabricksClient): Promise<{ mcp: Client; revoked: string[] }> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const revoked: string[] = [];
+  const store = createConfirmationStore({} as Env, 'https://confirm.cloud.databricks.com');
+  requireConfirmation(server, client, store).tool(
+    'databricks_revoke_token',
+    'Revoke a token',
+    { tokenId: z.string() },
+    async ({ tokenId }: { tokenId: string }) => {
+      revoked.push(tokenId);
+      return formatSuccess(`Revoked ${tokenId}`);
+    }
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const mcp = new Client({ name: 'test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await mcp.connect(clientTransport);
+  return { mcp, revoked };
+}
+
+function errorDetails(result: Awaited<ReturnType<Client['callTool']>>): {
+  code?: string;
+  confirmToken?: string;
+} {
+  const [content] = result.content as { text: string }[];
+  return JSON.parse(content.text).details ?? {};
+}
+
+describe('requireConfirmation', () => {
+  it('asks to confirm a token that exists', async () => {
+    const { mcp, revoked } = await connect(tokenClient(1, true));
+    const refused = await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-3' },
+    });
+    const { code, confirmToken } = errorDetails(refused);
+    assert.equal(code, 'CONFIRMATION_REQUIRED');
+    assert.deepEqual(revoked, []);
+
+    await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-3', confirm: confirmToken },
+    });
+    assert.deepEqual(revoked, ['t-3']);
+    await mcp.close();
+  });
+
+  it('asks to confirm a token beyond the pages that were scanned', async () => {
+    const { mcp, revoked } = await connect(tokenClient(10, false));
+    const refused = await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-150' },
+    });
+    assert.equal(errorDetails(refused).code, 'CONFIRMATION_REQUIRED');
+    assert.deepEqual(revoked, []);
+    await mcp.close();
+  });
+
+  it('does not ask when the whole list was read and the token is absent', async () => {
+    const { mcp, revoked } = await connect(tokenClient(2, true));
+    await mcp.callTool({ name: 'databricks_revoke_token', arguments: { tokenId: 'missing' } });
+    assert.deepEqual(revoked, ['missing']);
+    await mcp.close();
+  });
+
+  it('refuses a confirmation token issued for other arguments', async () => {
+    const { mcp, revoked } = await connect(tokenClient(1, true));
+    const refused = await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-1' },
+    });
+    const { confirmToken } = errorDetails(refused);
+    const reused = await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-2', confirm: confirmToken },
+    });
+    assert.equal(errorDetails(reused).code, 'CONFIRMATION_REQUIRED');
+    assert.deepEqual(revoked, []);
+    await mcp.close();
+  });
+
+  it('asks without a preview when the token list cannot be read', async () => {
+    const client = {
+      listTokens: async () => {
+        throw new Error('Service unavailable');
+      },
+    } as unknown as DatabricksClient;
+    const { mcp, revoked } = await connect(client);
+    const refused = await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-3' },
+    });
+    const { code, confirmToken } = errorDetails(refused);
+    assert.equal(code, 'CONFIRMATION_REQUIRED');
+    assert.deepEqual(revoked, []);
+
+    await mcp.callTool({
+      name: 'databricks_revoke_token',
+      arguments: { tokenId: 't-3', confirm: confirmToken },
+    });
+    assert.deepEqual(revoked, ['t-3']);
+    await mcp.close();
+  });
+});
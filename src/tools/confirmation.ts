@@ -0,0 +1,177 @@
+/**
+ * Confirmation of Irreversible Operations
+ *
+ * Tools that wipe objects which cannot be restored ask the human to confirm first. The
+ * server shows a summary of the target through MCP elicitation and only calls the client
+ * once the user accepts. When the client does not support elicitation, the call is refused
+ * with a one-time token, and it only goes ahead when repeated with `confirm` set to it.
+ * When the target cannot be looked up, the user is still asked, without the preview.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestId } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import type { DatabricksClient } from '../client.js';
+import { CONFIRMATION_TTL_SECONDS, type ConfirmationStore } from '../confirmations.js';
+import { ConfirmationRequiredError } from '../utils/errors.js';
+import { formatError } from '../utils/formatters.js';
+import { redactText } from '../utils/redact.js';
+import { type DryRunPlan, planToolCall } from './dry-run.js';
+import { decorateTools, wrapTools } from './filter.js';
+
+/**
+ * Tools that need confirmation, with the condition on their arguments under which they do
+ */
+const CONFIRMED_TOOLS: Record<string, (args: Record<string, unknown>) => boolean> = {
+  databricks_delete_catalog: (args) => args.force === true,
+  databricks_delete_table: () => true,
+  databricks_revoke_token: () => true,
+  databricks_delete_secret_scope: () => true,
+  databricks_delete_repo: () => true,
+};
+
+const confirmParam = z
+  .string()
+  .optional()
+  .describe('Confirmation token returned by a previous call, once the user has approved it');
+
+/**
+ * Whether a tool call needs the user's confirmation
+ */
+export function requiresConfirmation(name: string, args: Record<string, unknown>): boolean {
+  return CONFIRMED_TOOLS[name]?.(args) ?? false;
+}
+
+/**
+ * The call a token confirms: the tool and its arguments, apart from confirm and dryRun
+ */
+function describeCall(name: string, args: Record<string, unknown>): string {
+  const { confirm: _confirm, dryRun: _dryRun, ...rest } = args;
+  return JSON.stringify([name, rest]);
+}
+
+/**
+ * What to confirm when planning failed: the call itself, with why there is no preview
+ */
+function unplannedCall(name: string, args: Record<string, unknown>, error: unknown): DryRunPlan {
+  const { confirm: _confirm, dryRun: _dryRun, ...rest } = args;
+  const reason = redactText(error instanceof Error ? error.message : String(error));
+  return {
+    summary: `call ${name} with ${JSON.stringify(rest)}`,
+    current: undefined,
+    changes: [`No preview: the target could not be looked up (${reason})`],
+  };
+}
+
+/**
+ * What the user is asked to approve
+ */
+function confirmationMessage(plan: DryRunPlan): string {
+  const dependents = Object.entries(plan.dependents ?? {})
+    .filter(([, items]) => items.length > 0)
+    .map(([kind, items]) => `${items.length} ${kind.replace(/_/g, ' ')}`);
+  return [
+    `Confirm: ${plan.summary}. This cannot be undone.`,
+    ...plan.changes.map((change) => `- ${change}`),
+    ...(dependents.length > 0 ? [`Depends on it: ${dependents.join(', ')}`] : []),
+  ].join('\n');
+}
+
+/**
+ * Wrap a server so irreversible tool calls are confirmed by the user before they run.
+ * Register it outside enableDryRun so dry runs never need confirmation.
+ */
+export function requireConfirmation(
+  server: McpServer,
+  client: DatabricksClient,
+  store: ConfirmationStore
+): McpServer {
+  /**
+   * Ask the user through elicitation. Returns undefined when the client cannot be asked.
+   */
+  async function elicit(message: string, requestId?: RequestId): Promise<boolean | undefined> {
+    if (!server.server.getClientCapabilities()?.elicitation) {
+      return undefined;
+    }
+    try {
+      const result = await server.server.elicitInput(
+        {
+          message,
+          requestedSchema: {
+            type: 'object',
+            properties: {
+              confirm: {
+                type: 'boolean',
+                title: 'Proceed',
+                description: 'Check to run this irreversible operation',
+                default: false,
+              },
+            },
+            required: ['confirm'],
+          },
+        },
+        { relatedRequestId: requestId }
+      );
+      return result.action === 'accept' && result.content?.confirm === true;
+    } catch {
+      return undefined;
+    }
+  }
+
+  const confirmed = wrapTools(server, (name, handler) => {
+    if (!CONFIRMED_TOOLS[name]) {
+      return handler;
+    }
+    return async (args, ...rest) => {
+      const params = args as Record<string, unknown>;
+      if (!requiresConfirmation(name, params)) {
+        return handler(args, ...rest);
+      }
+      try {
+        // Nothing to confirm when the target definitely does not exist; the call fails on
+        // its own. A target whose state is unknown (undefined) is confirmed like any other.
+        const plan = await planToolCall(name, client, params).catch((error: unknown) =>
+          unplannedCall(name, params, error)
+        );
+        if (!plan || plan.current === null) {
+          return handler(args, ...rest);
+        }
+
+        const call = describeCall(name, params);
+        if (typeof params.confirm === 'string' && (await store.consume(params.confirm, call))) {
+          return handler(args, ...rest);
+        }
+
+        const message = confirmationMessage(plan);
+        const extra = rest[0] as { requestId?: RequestId } | undefined;
+        const approved = await elicit(message, extra?.requestId);
+        if (approved) {
+          return handler(args, ...rest);
+        }
+        if (approved === false) {
+          throw new ConfirmationRequiredError(
+            `The user declined: ${plan.summary}`,
+            undefined,
+            'CONFIRMATION_DECLINED'
+          );
+        }
+        throw new ConfirmationRequiredError(
+          `${message}\nThe user must approve this call; the confirmation token is valid for ` +
+            `${CONFIRMATION_TTL_SECONDS / 60} minutes and can be used once.`,
+          await store.issue(call)
+        );
+      } catch (error) {
+        return formatError(error);
+      }
+    };
+  });
+
+  return decorateTools(confirmed, (name, registered) => {
+    if (!CONFIRMED_TOOLS[name]) {
+      return;
+    }
+    const input = registered.inputSchema as z.ZodObject | undefined;
+    registered.inputSchema = z.object({ ...input?.shape, confirm: confirmParam });
+    registered.description = `${registered.description ?? ''}\n\nIrreversible calls ask the user to confirm first. If the client cannot ask, the call returns a confirmToken to pass back as confirm once the user has approved.`;
+  });
+}
@@ -0,0 +1,81 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { createContinuationStore } from '../continuations.js';
+import type { Env } from '../types/env.js';
+import { formatResponse } from '../utils/formatters.js';
+import { limitToolResponses, registerContinuationTools } from './continuation.js';
+
+const LIMIT = 700;
+
+/**
+ * Client for a server with one tool returning `data`, limited to LIMIT characters
+ */
+async function connect(data: unknown): Promise<Client> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const store = createContinuationStore({} as Env, {
+    host: 'https://continuation.cloud.databricks.com',
+    token: 'dapi-1',
+  });
+  limitToolResponses(server, LIMIT, store).tool('databricks_list_jobs', 'List jobs', {}, () =>
+    formatResponse(data)
+  );
+  registerContinuationTools(server, store);
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+function texts(result: Awaited<ReturnType<Client['callTool']>>): string[] {
+  return (result.content as { text: string }[]).map((content) => content.text);
+}
+
+describe('limitToolResponses', () => {
+  it('keeps structured content in step with the items that fit', async () => {
+    const jobs = Array.from({ length: 40 }, (_, id) => ({ job_id: id }));
+    const client = await connect({ items: jobs, count: 40, has_more: false });
+
+    const result = await client.callTool({ name: 'databricks_list_jobs', arguments: {} });
+    const { items } = result.structuredContent as { items: unknown[] };
+    assert.deepEqual(items, JSON.parse(texts(result)[0] as string).items);
+    assert.ok(items.length < 40);
+    await client.close();
+  });
+
+  it('outlines structured content when the text is cut mid-JSON', async () => {
+    const data = {
+      items: [{ job_id: 1, settings: { notebook: 'x'.repeat(2000) } }],
+      count: 1,
+      has_more: false,
+    };
+    const client = await connect(data);
+
+    const result = await client.callTool({ name: 'databricks_list_jobs', arguments: {} });
+    const [text, notice] = texts(result) as [string, string];
+    assert.ok(text.length < LIMIT);
+    assert.deepEqual(result.structuredContent, { items: [], count: 1, has_more: false });
+
+    const more = await client.callTool({
+      name: 'databricks_get_more_results',
+      arguments: { cursor: JSON.parse(notice).cursor },
+    });
+    assert.equal(text + texts(more)[0], JSON.stringify(data, null, 2));
+    await client.close();
+  });
+
+  it('drops structured content that has no outline within the limit', async () => {
+    const client = await connect({
+      job_id: 1,
+      ...Object.fromEntries(Array.from({ length: 80 }, (_, key) => [`tag_${key}`, key])),
+    });
+
+    const result = await client.callTool({ name: 'databricks_list_jobs', arguments: {} });
+    assert.equal(result.structuredContent, undefined);
+    await client.close();
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Response Limit Tools
+ *
+ * Enforces CHARACTER_LIMIT on every tool response and registers the tool that returns
+ * the next slice of a truncated response.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { ContinuationStore } from '../continuations.js';
+import { ValidationError } from '../utils/errors.js';
+import {
+  formatError,
+  formatResponse,
+  type ToolResponse,
+  truncateToLimit,
+} from '../utils/formatters.js';
+import { wrapTools } from './filter.js';
+
+/** Room kept free within the limit for the truncation notice */
+const NOTICE_RESERVE_CHARS = 500;
+
+/**
+ * Cut a tool response to the character limit, saving the rest under a cursor
+ */
+async function limitResponse(
+  response: ToolResponse,
+  limit: number,
+  store: ContinuationStore
+): Promise<ToolResponse> {
+  const [content] = response.content;
+  if (response.isError || response.content.length !== 1 || content?.type !== 'text') {
+    return response;
+  }
+
+  const truncated = truncateToLimit(content.text, Math.max(limit - NOTICE_RESERVE_CHARS, 1));
+  if (!truncated) {
+    return response;
+  }
+
+  const cursor = await store.save(truncated.remainder);
+  const omitted =
+    truncated.remainder.kind === 'json'
+      ? `${truncated.omittedItems} of ${truncated.totalItems} items were left out`
+      : `${truncated.remainder.text.length} characters were left out`;
+  const notice = {
+    truncated: true,
+    notice:
+      `Response truncated to fit the ${limit} character limit; ${omitted}. ` +
+      'Call databricks_get_more_results with this cursor to fetch the next slice.',
+    omitted_items: truncated.omittedItems,
+    total_items: truncated.totalItems,
+    cursor,
+  };
+
+  // Structured content follows the truncated JSON. When the text had to be cut mid-JSON it
+  // keeps the outline, whose emptied list or string still matches the output schema, and is
+  // dropped when there is no outline within the limit
+  const { structuredContent: full, ...rest } = response;
+  const structuredContent = full
+    ? ((truncated.data ?? truncated.outline) as Record<string, unknown> | undefined)
+    : undefined;
+
+  return {
+    ...rest,
+    content: [
+      { type: 'text', text: truncated.text },
+      { type: 'text', text: JSON.stringify(notice, null, 2) },
+    ],
+    ...(structuredContent && { structuredContent }),
+  };
+}
+
+/**
+ * Wrap a server so every tool response registered through it respects the character limit
+ */
+export function limitToolResponses(
+  server: McpServer,
+  limit: number,
+  store: ContinuationStore
+): McpServer {
+  return wrapTools(server, (_name, handler) => async (...args) => {
+    const response = (await handler(...args)) as ToolResponse;
+    return limitResponse(response, limit, store);
+  });
+}
+
+/**
+ * Register the tool that continues truncated responses
+ */
+export function registerContinuationTools(server: McpServer, store: ContinuationStore): void {
+  // ===========================================================================
+  // Get More Results
+  // ===========================================================================
+  server.tool(
+    'databricks_get_more_results',
+    `Fetch the next slice of a response that was truncated to fit the character limit.
+
+Args:
+  - cursor: The cursor from the truncation notice of the previous response
+
+Returns:
+  The remaining part of the original response, in the same shape. If it is still too
+  large, it is truncated again with a new cursor.`,
+    {
+      cursor: z.string().describe('Cursor from a truncation notice'),
+    },
+    async ({ cursor }) => {
+      try {
+        const continuation = await store.load(cursor);
+        if (!continuation) {
+          throw new ValidationError(
+            'Unknown or expired cursor. Cursors are valid for 15 minutes; re-run the original call.'
+          );
+        }
+        if (continuation.kind === 'json') {
+          return formatResponse(continuation.data);
+        }
+        return { content: [{ type: 'text' as const, text: continuation.text }] };
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all DBFS-related tools
@@ -22,16 +23,20 @@ export function registerDbfsTools(server: McpServer, client: DatabricksClient):
 
 Args:
   - path: DBFS path (e.g., "/mnt/data" or "dbfs:/mnt/data")
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of files and directories with metadata.`,
+  List of files and directories with metadata.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       path: z.string().describe('DBFS path'),
+      ...paginationParams,
     },
-    async ({ path }) => {
+    async ({ path, pageSize, cursor }) => {
       try {
-        const files = await client.listDbfs(path);
-        return formatResponse({ files, count: files.length, path });
+        const page = await client.listDbfs(path, { pageSize, cursor });
+        return formatResponse({ ...page, path });
       } catch (error) {
         return formatError(error);
       }
@@ -0,0 +1,1370 @@
+/**
+ * Dry Runs
+ *
+ * Adds a `dryRun` option to the destructive tools. A dry run fetches the current state of
+ * the target, describes exactly what the call would change or remove and lists the objects
+ * that depend on it, without changing anything.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { DatabricksClient } from '../client.js';
+import type {
+  InstancePool,
+  Job,
+  JobSettings,
+  NewCluster,
+  PageOptions,
+  PaginatedResponse,
+  Pipeline,
+} from '../types/databricks.js';
+import { NotFoundError } from '../utils/errors.js';
+import { formatError, formatResponse } from '../utils/formatters.js';
+import { decorateTools, wrapTools } from './filter.js';
+
+/** Most pages read when scanning a list for dependents */
+const MAX_SCAN_PAGES = 5;
+
+/** Most dependents reported per kind */
+const MAX_DEPENDENTS = 50;
+
+/** Longest value quoted in a change description */
+const MAX_VALUE_CHARS = 200;
+
+// =============================================================================
+// Plans
+// =============================================================================
+
+/**
+ * What a mutating call would do, as reported by a dry run
+ */
+export interface DryRunPlan {
+  /** The operation, e.g. "delete schema main.sales" */
+  summary: string;
+
+  /**
+   * Current state of the target: null when it does not exist, undefined when that is not
+   * known because the list it was looked up in was only partly read
+   */
+  current: unknown;
+
+  /** Every change the call would make, or why it would fail */
+  changes: string[];
+
+  /** Objects that depend on the target, by kind (e.g. tables, jobs) */
+  dependents?: Record<string, unknown[]>;
+
+  /** Caveats, such as dependent scans that stopped early */
+  notes?: string[];
+}
+
+type Planner = (client: DatabricksClient, args: Record<string, unknown>) => Promise<DryRunPlan>;
+
+/**
+ * Type a planner by its tool's arguments, which the SDK has already validated
+ */
+function planner<A>(plan: (client: DatabricksClient, args: A) => Promise<DryRunPlan>): Planner {
+  return plan as Planner;
+}
+
+/**
+ * Fetch an object, or null when it does not exist
+ */
+async function find<T>(fetch: () => Promise<T>): Promise<T | null> {
+  try {
+    return await fetch();
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Plan for a call whose target does not exist
+ */
+function missing(summary: string, target: string): DryRunPlan {
+  return {
+    summary,
+    current: null,
+    changes: [`Nothing: ${target} does not exist, so the call would fail`],
+  };
+}
+
+/**
+ * Plan for a call whose target was not among the entries read before a scan stopped; it
+ * may still exist, so its state is unknown
+ */
+function unlisted(summary: string, target: string, change: string, notes: string[]): DryRunPlan {
+  return {
+    summary,
+    current: undefined,
+    changes: [
+      `${target} was not found in the first ${MAX_SCAN_PAGES} pages; if it exists, ${change}`,
+    ],
+    notes,
+  };
+}
+
+/**
+ * The first item of a paginated list that matches, reading at most MAX_SCAN_PAGES pages:
+ * null when the whole list was read without a match, undefined when the scan stopped
+ * before the end (a note is added)
+ */
+async function scanFor<T>(
+  kind: string,
+  list: (page: PageOptions) => Promise<PaginatedResponse<T>>,
+  notes: string[],
+  match: (item: T) => boolean
+): Promise<T | null | undefined> {
+  let cursor: string | undefined;
+  for (let pages = 0; pages < MAX_SCAN_PAGES; pages++) {
+    const page = await list({ cursor, noCache: true });
+    const found = page.items.find(match);
+    if (found) {
+      return found;
+    }
+    cursor = page.has_more ? page.next_cursor : undefined;
+    if (!cursor) {
+      return null;
+    }
+  }
+  notes.push(`Stopped after ${MAX_SCAN_PAGES} pages; not every ${kind} was checked`);
+  return undefined;
+}
+
+/**
+ * Items of a paginated list that match, reading at most MAX_SCAN_PAGES pages. When the
+ * scan stops early or finds more than MAX_DEPENDENTS items, a note is added.
+ */
+async function scan<T>(
+  kind: string,
+  list: (page: PageOptions) => Promise<PaginatedResponse<T>>,
+  notes: string[],
+  match: (item: T) => boolean = () => true
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  for (let pages = 0; pages < MAX_SCAN_PAGES; pages++) {
+    // Plans describe the workspace as it is now, never a cached copy
+    const page = await list({ cursor, noCache: true });
+    items.push(...page.items.filter(match));
+    cursor = page.has_more ? page.next_cursor : undefined;
+    if (!cursor || items.length > MAX_DEPENDENTS) {
+      break;
+    }
+  }
+  if (cursor) {
+    notes.push(`Stopped after ${MAX_SCAN_PAGES} pages; not every ${kind} was checked`);
+  }
+  if (items.length > MAX_DEPENDENTS) {
+    notes.push(`Only the first ${MAX_DEPENDENTS} matching ${kind} entries are listed`);
+  }
+  return items.slice(0, MAX_DEPENDENTS);
+}
+
+/**
+ * Jobs matching `match`, with their tasks expanded, as { job_id, name }
+ */
+async function scanJobs(
+  client: DatabricksClient,
+  notes: string[],
+  match: (job: Job) => boolean
+): Promise<Array<{ job_id: number; name?: string }>> {
+  const jobs = await scan(
+    'job',
+    (page) => client.listJobs({ ...page, expandTasks: true }),
+    notes,
+    match
+  );
+  return jobs.map((job) => ({ job_id: job.job_id, name: job.settings?.name }));
+}
+
+/**
+ * Every cluster definition in a job: shared job clusters and per-task new clusters
+ */
+function jobClusters(job: Job): NewCluster[] {
+  const shared = (job.settings?.job_clusters ?? []).map((cluster) => cluster.new_cluster);
+  const tasks = (job.settings?.tasks ?? []).flatMap((task) => task.new_cluster ?? []);
+  return [...shared, ...tasks];
+}
+
+/**
+ * Whether a workspace path is `path` itself or inside it
+ */
+function isWithin(candidate: string | undefined, path: string): boolean {
+  const root = path.replace(/\/+$/, '');
+  return !!candidate && (candidate === root || candidate.startsWith(`${root}/`));
+}
+
+/**
+ * Jobs with a notebook or Python file task at or below a workspace path
+ */
+function referencesPath(job: Job, path: string): boolean {
+  return (job.settings?.tasks ?? []).some(
+    (task) =>
+      isWithin(task.notebook_task?.notebook_path, path) ||
+      isWithin(task.spark_python_task?.python_file, path)
+  );
+}
+
+// =============================================================================
+// Change Descriptions
+// =============================================================================
+
+/**
+ * JSON with sorted keys, so equal values compare equal regardless of key order
+ */
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    item && typeof item === 'object' && !Array.isArray(item)
+      ? Object.fromEntries(Object.entries(item).sort(([a], [b]) => a.localeCompare(b)))
+      : item
+  );
+}
+
+function quote(value: unknown): string {
+  if (value === undefined) {
+    return 'unset';
+  }
+  const text = JSON.stringify(value);
+  return text.length > MAX_VALUE_CHARS ? `${text.slice(0, MAX_VALUE_CHARS)}...` : text;
+}
+
+/**
+ * One line per field of `next` that differs from `current`, e.g. `name: "a" -> "b"`
+ */
+function diffFields(
+  current: Record<string, unknown>,
+  next: Record<string, unknown>,
+  keys: string[] = Object.keys(next)
+): string[] {
+  return keys
+    .filter((key) => canonical(current[key]) !== canonical(next[key]))
+    .map((key) =>
+      next[key] === undefined
+        ? `${key}: ${quote(current[key])} -> removed`
+        : `${key}: ${quote(current[key])} -> ${quote(next[key])}`
+    );
+}
+
+/**
+ * Changes of a Jobs API update: top-level settings are replaced, while tasks and job
+ * clusters are merged by their keys
+ */
+function diffJobSettings(current: JobSettings, next: Record<string, unknown>): string[] {
+  const changes: string[] = [];
+  const merged: Array<[string, string]> = [
+    ['tasks', 'task_key'],
+    ['job_clusters', 'job_cluster_key'],
+  ];
+  for (const [field, key] of merged) {
+    const items = next[field];
+    if (!Array.isArray(items)) {
+      continue;
+    }
+    const existing = new Map(
+      ((current[field as keyof JobSettings] as Array<Record<string, unknown>>) ?? []).map(
+        (item) => [item[key], item]
+      )
+    );
+    for (const item of items as Array<Record<string, unknown>>) {
+      const before = existing.get(item[key]);
+      if (!before) {
+        changes.push(`${field}: add "${item[key]}"`);
+      } else if (canonical(before) !== canonical(item)) {
+        changes.push(
+          `${field}: replace "${item[key]}" (${diffFields(before, item, [
+            ...new Set([...Object.keys(before), ...Object.keys(item)]),
+          ]).join('; ')})`
+        );
+      }
+    }
+  }
+  const replaced = Object.keys(next).filter((key) => !merged.some(([field]) => field === key));
+  changes.push(...diffFields(current as Record<string, unknown>, next, replaced));
+  return changes;
+}
+
+function jsonArgument(value: string, name: string): Record<string, unknown> {
+  const parsed = JSON.parse(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new SyntaxError(`${name} must be a JSON object`);
+  }
+  return parsed;
+}
+
+function unchanged(changes: string[]): string[] {
+  return changes.length > 0 ? changes : ['Nothing: the new values match the current ones'];
+}
+
+// =============================================================================
+// Planners
+// =============================================================================
+
+/**
+ * Dry-run planner per tool name. Tools without an entry do not accept dryRun;
+ * databricks_execute_sql is left out because the effect of an arbitrary statement cannot
+ * be previewed.
+ */
+const DRY_RUN_PLANNERS: Record<string, Planner> = {
+  // ---------------------------------------------------------------------------
+  // SQL
+  // ---------------------------------------------------------------------------
+  databricks_cancel_sql: planner<{ statementId: string }>(async (client, { statementId }) => {
+    const summary = `cancel statement ${statementId}`;
+    const statement = await find(() => client.getStatementStatus(statementId));
+    if (!statement) {
+      return missing(summary, `statement ${statementId}`);
+    }
+    const state = statement.status?.state;
+    const active = state === 'PENDING' || state === 'RUNNING';
+    return {
+      summary,
+      current: { statement_id: statement.statement_id, status: statement.status },
+      changes: [
+        active
+          ? `Statement ${statementId} (${state}) would be canceled and its results discarded`
+          : `Nothing: the statement is already ${state}`,
+      ],
+    };
+  }),
+
+  databricks_stop_warehouse: planner<{ warehouseId: string }>(async (client, { warehouseId }) => {
+    const summary = `stop SQL warehouse ${warehouseId}`;
+    const warehouse = await find(() => client.getWarehouse(warehouseId));
+    if (!warehouse) {
+      return missing(summary, `warehouse ${warehouseId}`);
+    }
+    const running = warehouse.state === 'RUNNING' || warehouse.state === 'STARTING';
+    return {
+      summary,
+      current: warehouse,
+      changes: running
+        ? [
+            `Warehouse "${warehouse.name}" (${warehouse.state}) would stop`,
+            `${warehouse.num_active_sessions ?? 0} active sessions would be closed and running queries would fail`,
+          ]
+        : [`Nothing: the warehouse is already ${warehouse.state}`],
+    };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Jobs
+  // ---------------------------------------------------------------------------
+  databricks_update_job: planner<{ jobId: number; settings: string }>(
+    async (client, { jobId, settings }) => {
+      const summary = `update job ${jobId}`;
+      const job = await find(() => client.getJob(jobId));
+      if (!job) {
+        return missing(summary, `job ${jobId}`);
+      }
+      const notes: string[] = [];
+      const activeRuns = await scan(
+        'run',
+        (page) => client.listRuns({ ...page, jobId, activeOnly: true }),
+        notes
+      );
+      return {
+        summary,
+        current: job.settings,
+        changes: unchanged(diffJobSettings(job.settings ?? {}, jsonArgument(settings, 'settings'))),
+        dependents: { active_runs: activeRuns.map((run) => run.run_id) },
+        notes: [...notes, 'Active runs keep their settings; the changes apply from the next run'],
+      };
+    }
+  ),
+
+  databricks_delete_job: planner<{ jobId: number }>(async (client, { jobId }) => {
+    const summary = `delete job ${jobId}`;
+    const job = await find(() => client.getJob(jobId));
+    if (!job) {
+      return missing(summary, `job ${jobId}`);
+    }
+    const notes: string[] = [];
+    const activeRuns = await scan(
+      'run',
+      (page) => client.listRuns({ ...page, jobId, activeOnly: true }),
+      notes
+    );
+    const triggeringJobs = await scanJobs(client, notes, (other) =>
+      (other.settings?.tasks ?? []).some((task) => task.run_job_task?.job_id === jobId)
+    );
+    return {
+      summary,
+      current: job,
+      changes: [
+        `Job ${jobId} ("${job.settings?.name ?? ''}") would be deleted with its schedule and triggers`,
+        ...(activeRuns.length > 0 ? [`${activeRuns.length} active runs would be canceled`] : []),
+        ...(triggeringJobs.length > 0
+          ? [`${triggeringJobs.length} jobs that run this job would fail at that task`]
+          : []),
+      ],
+      dependents: {
+        active_runs: activeRuns.map((run) => run.run_id),
+        jobs: triggeringJobs,
+      },
+      notes,
+    };
+  }),
+
+  databricks_cancel_run: planner<{ runId: number }>(async (client, { runId }) => {
+    const summary = `cancel run ${runId}`;
+    const run = await find(() => client.getRun(runId));
+    if (!run) {
+      return missing(summary, `run ${runId}`);
+    }
+    const state = run.state?.life_cycle_state;
+    const finished = state === 'TERMINATED' || state === 'SKIPPED' || state === 'INTERNAL_ERROR';
+    return {
+      summary,
+      current: run,
+      changes: [
+        finished
+          ? `Nothing: the run has already finished (${state})`
+          : `Run ${runId} (${state}) and its ${run.tasks?.length ?? 0} tasks would be canceled`,
+      ],
+    };
+  }),
+
+  databricks_cancel_all_runs: planner<{ jobId: number }>(async (client, { jobId }) => {
+    const summary = `cancel all active runs of job ${jobId}`;
+    const job = await find(() => client.getJob(jobId));
+    if (!job) {
+      return missing(summary, `job ${jobId}`);
+    }
+    const notes: string[] = [];
+    const activeRuns = await scan(
+      'run',
+      (page) => client.listRuns({ ...page, jobId, activeOnly: true }),
+      notes
+    );
+    return {
+      summary,
+      current: { job_id: job.job_id, name: job.settings?.name },
+      changes: [
+        activeRuns.length > 0
+          ? `${activeRuns.length} active runs would be canceled`
+          : 'Nothing: the job has no active runs',
+      ],
+      dependents: {
+        active_runs: activeRuns.map((run) => ({
+          run_id: run.run_id,
+          state: run.state?.life_cycle_state,
+        })),
+      },
+      notes,
+    };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // Clusters
+  // ---------------------------------------------------------------------------
+  databricks_restart_cluster: planner<{ clusterId: string }>(async (client, { clusterId }) =>
+    planClusterChange(
+      client,
+      clusterId,
+      'restart',
+      'would restart; running commands fail and notebooks lose their state'
+    )
+  ),
+
+  databricks_terminate_cluster: planner<{ clusterId: string }>(async (client, { clusterId }) =>
+    planClusterChange(
+      client,
+      clusterId,
+      'terminate',
+      'would terminate; running commands fail. Its configuration is kept and it can be restarted'
+    )
+  ),
+
+  databricks_delete_cluster: planner<{ clusterId: string }>(async (client, { clusterId }) =>
+    planClusterChange(
+      client,
+      clusterId,
+      'permanently delete',
+      'would be terminated and permanently deleted; it cannot be restarted or recovered'
+    )
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Workspace
+  // ---------------------------------------------------------------------------
+  databricks_delete_workspace: planner<{ path: string; recursive?: boolean }>(
+    async (client, { path, recursive }) => {
+      const summary = `delete workspace object ${path}`;
+      const object = await find(() => client.getWorkspaceStatus(path));
+      if (!object) {
+        return missing(summary, path);
+      }
+      const notes: string[] = [];
+      const isDirectory = object.object_type === 'DIRECTORY' || object.object_type === 'REPO';
+      const children = isDirectory
+        ? await scan('workspace object', (page) => client.listWorkspace(path, page), notes)
+        : [];
+      const jobs = await scanJobs(client, notes, (job) => referencesPath(job, path));
+
+      const changes =
+        children.length > 0 && !recursive
+          ? [
+              `Nothing: ${path} is a non-empty directory and recursive is not set, so the call would fail`,
+            ]
+          : [
+              `${object.object_type} ${path} would be deleted`,
+              ...(children.length > 0
+                ? [`${children.length} objects inside it would be deleted recursively`]
+                : []),
+              ...(jobs.length > 0
+                ? [`${jobs.length} jobs that run notebooks or files here would fail`]
+                : []),
+            ];
+      return {
+        summary,
+        current: object,
+        changes,
+        dependents: {
+          children: children.map((child) => ({ path: child.path, type: child.object_type })),
+          jobs,
+        },
+        notes,
+      };
+    }
+  ),
+
+  databricks_import_notebook: planner<{ path: string; format: string; overwrite?: boolean }>(
+    async (client, { path, format, overwrite }) => {
+      const existing = await find(() => client.getWorkspaceStatus(path));
+      const notes: string[] = [];
+      const jobs = existing
+        ? await scanJobs(client, notes, (job) => referencesPath(job, path))
+        : [];
+      let change = `A new notebook would be created at ${path} from ${format} content`;
+      if (existing && !overwrite) {
+        change = `Nothing: ${path} already exists and overwrite is not set, so the call would fail`;
+      } else if (existing) {
+        change = `${existing.object_type} ${path} would be overwritten with the imported ${format} content`;
+      }
+      return {
+        summary: `import a notebook to ${path}`,
+        current: existing,
+        changes: [change],
+        dependents: { jobs },
+        notes,
+      };
+    }
+  ),
+
+  // ---------------------------------------------------------------------------
+  // DBFS
+  // ---------------------------------------------------------------------------
+  databricks_delete_dbfs: planner<{ path: string; recursive?: boolean }>(
+    async (client, { path, recursive }) => {
+      const summary = `delete DBFS path ${path}`;
+      const file = await find(() => client.getDbfsStatus(path));
+      if (!file) {
+        return missing(summary, path);
+      }
+      const notes: string[] = [];
+      const children = file.is_dir
+        ? await scan('file', (page) => client.listDbfs(path, page), notes)
+        : [];
+      return {
+        summary,
+        current: file,
+        changes:
+          children.length > 0 && !recursive
+            ? [
+                `Nothing: ${path} is a non-empty directory and recursive is not set, so the call would fail`,
+              ]
+            : [
+                file.is_dir
+                  ? `Directory ${path} and the ${children.length} entries in it would be deleted`
+                  : `File ${path} (${file.file_size ?? 0} bytes) would be deleted`,
+              ],
+        dependents: {
+          children: children.map((child) => ({ path: child.path, is_dir: child.is_dir })),
+        },
+        notes,
+      };
+    }
+  ),
+
+  databricks_put_dbfs: planner<{ path: string; contents: string; overwrite?: boolean }>(
+    async (client, { path, contents, overwrite }) => {
+      const existing = await find(() => client.getDbfsStatus(path));
+      const bytes = Math.floor((contents.replace(/=+$/, '').length * 3) / 4);
+      let change = `A new ${bytes}-byte file would be created at ${path}`;
+      if (existing?.is_dir) {
+        change = `Nothing: ${path} is a directory, so the call would fail`;
+      } else if (existing && !overwrite) {
+        change = `Nothing: ${path} already exists and overwrite is not set, so the call would fail`;
+      } else if (existing) {
+        change = `${path} (${existing.file_size ?? 0} bytes) would be replaced with ${bytes} bytes`;
+      }
+      return { summary: `write DBFS file ${path}`, current: existing, changes: [change] };
+    }
+  ),
+
+  databricks_move_dbfs: planner<{ sourcePath: string; destinationPath: string }>(
+    async (client, { sourcePath, destinationPath }) => {
+      const summary = `move DBFS path ${sourcePath} to ${destinationPath}`;
+      const source = await find(() => client.getDbfsStatus(sourcePath));
+      if (!source) {
+        return missing(summary, sourcePath);
+      }
+      const destination = await find(() => client.getDbfsStatus(destinationPath));
+      return {
+        summary,
+        current: { source, destination },
+        changes: [
+          destination
+            ? `Nothing: ${destinationPath} already exists, so the call would fail`
+            : `${source.is_dir ? 'Directory' : 'File'} ${sourcePath} would move to ${destinationPath}; ` +
+              `nothing would remain at ${sourcePath}`,
+        ],
+      };
+    }
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Unity Catalog
+  // ---------------------------------------------------------------------------
+  databricks_delete_catalog: planner<{ name: string; force?: boolean }>(
+    async (client, { name, force }) => {
+      const summary = `delete catalog ${name}`;
+      const catalog = await find(() => client.getCatalog(name, { noCache: true }));
+      if (!catalog) {
+        return missing(summary, `catalog ${name}`);
+      }
+      const notes: string[] = [];
+      const schemas = await scan(
+        'schema',
+        (page) => client.listSchemas(name, page),
+        notes,
+        (schema) => schema.name !== 'information_schema'
+      );
+      let changes = [`Catalog ${name} would be deleted`];
+      if (schemas.length > 0 && !force) {
+        changes = [
+          `Nothing: the catalog still contains ${schemas.length} schemas and force is not set, so the call would fail`,
+        ];
+      } else if (schemas.length > 0) {
+        changes = [
+          `Catalog ${name} would be deleted with its ${schemas.length} schemas`,
+          'Every table, view, volume and function in those schemas would be deleted; managed data is removed',
+        ];
+      }
+      return {
+        summary,
+        current: catalog,
+        changes,
+        dependents: { schemas: schemas.map((schema) => schema.full_name ?? schema.name) },
+        notes,
+      };
+    }
+  ),
+
+  databricks_delete_schema: planner<{ fullName: string }>(async (client, { fullName }) => {
+    const summary = `delete schema ${fullName}`;
+    const schema = await find(() => client.getSchema(fullName, { noCache: true }));
+    if (!schema) {
+      return missing(summary, `schema ${fullName}`);
+    }
+    const notes: string[] = [];
+    const [catalogName, schemaName] = [schema.catalog_name, schema.name];
+    const tables = await scan(
+      'table',
+      (page) => client.listTables(catalogName, schemaName, page),
+      notes
+    );
+    const volumes = await scan(
+      'volume',
+      (page) => client.listVolumes(catalogName, schemaName, page),
+      notes
+    );
+    const functions = await scan(
+      'function',
+      (page) => client.listFunctions(catalogName, schemaName, page),
+      notes
+    );
+    const contained = tables.length + volumes.length + functions.length;
+    return {
+      summary,
+      current: schema,
+      changes: [
+        contained > 0
+          ? `Nothing: the schema still contains ${contained} tables, volumes or functions and ` +
+            'a schema must be empty to be deleted, so the call would fail'
+          : `Empty schema ${fullName} would be deleted`,
+      ],
+      dependents: {
+        tables: tables.map((table) => ({ name: table.name, table_type: table.table_type })),
+        volumes: volumes.map((volume) => ({ name: volume.name, volume_type: volume.volume_type })),
+        functions: functions.map((fn) => fn.name),
+      },
+      notes,
+    };
+  }),
+
+  databricks_delete_table: planner<{ fullName: string }>(async (client, { fullName }) => {
+    const summary = `delete table ${fullName}`;
+    const table = await find(() => client.getTable(fullName, { noCache: true }));
+    if (!table) {
+      return missing(summary, `table ${fullName}`);
+    }
+    const effects: Record<string, string> = {
+      MANAGED: `Managed table ${fullName} and its data files would be deleted`,
+      EXTERNAL:
+        `External table ${fullName} would be removed from Unity Catalog; ` +
+        `the data at ${table.storage_location ?? 'its storage location'} is kept`,
+      VIEW: `View ${fullName} would be dropped; its underlying tables are not affected`,
+    };
+
+    // Views in the same schema that mention the table by name
+    const notes = ['Only views in the same schema are checked for references'];
+    const views = await scan(
+      'table',
+      (page) => client.listTables(table.catalog_name, table.schema_name, page),
+      notes,
+      (other) =>
+        other.name !== table.name &&
+        !!other.view_definition?.toLowerCase().includes(table.name.toLowerCase())
+    );
+    return {
+      summary,
+      current: table,
+      changes: [
+        effects[table.table_type] ?? `${table.table_type} ${fullName} would be deleted`,
+        ...(views.length > 0 ? [`${views.length} views that read it would stop working`] : []),
+      ],
+      dependents: { views: views.map((view) => view.full_name ?? view.name) },
+      notes,
+    };
+  }),
+
+  databricks_delete_volume: planner<{ fullName: string }>(async (client, { fullName }) => {
+    const summary = `delete volume ${fullName}`;
+    const volume = await find(() => client.getVolume(fullName, { noCache: true }));
+    if (!volume) {
+      return missing(summary, `volume ${fullName}`);
+    }
+    return {
+      summary,
+      current: volume,
+      changes: [
+        volume.volume_type === 'MANAGED'
+          ? `Managed volume ${fullName} and every file in it would be deleted`
+          : `External volume ${fullName} would be removed from Unity Catalog; ` +
+            `the files at ${volume.storage_location ?? 'its storage location'} are kept`,
+      ],
+    };
+  }),
+
+  // ---------------------------------------------------------------------------
+  // MLflow
+  // ---------------------------------------------------------------------------
+  databricks_delete_experiment: planner<{ experimentId: string }>(
+    async (client, { experimentId }) => {
+      const summary = `delete experiment ${experimentId}`;
+      const experiment = await find(() => client.getExperiment(experimentId, { noCache: true }));
+      if (!experiment) {
+        return missing(summary, `experiment ${experimentId}`);
+      }
+      const notes: string[] = [];
+      const runs = await scan(
+        'run',
+        (page) => client.searchMlflowRuns({ ...page, experimentIds: [experimentId] }),
+        notes
+      );
+      return {
+        summary,
+        current: experiment,
+        changes: [
+          `Experiment "${experiment.name}" and its ${runs.length} runs would be marked deleted; ` +
+            'it can be restored with databricks_restore_experiment',
+        ],
+        dependents: { runs: runs.map((run) => run.info.run_id) },
+        notes,
+      };
+    }
+  ),
+
+  databricks_update_run: planner<{ runId: string; status: string; endTime?: number }>(
+    async (client, { runId, status, endTime }) => {
+      const summary = `update MLflow run ${runId}`;
+      const run = await find(() => client.getMlflowRun(runId));
+      if (!run) {
+        return missing(summary, `run ${runId}`);
+      }
+      const next = { status, ...(endTime !== undefined && { end_time: endTime }) };
+      return { summary, current: run.info, changes: unchanged(diffFields({ ...run.info }, next)) };
+    }
+  ),
+
+  databricks_delete_run: planner<{ runId: string }>(async (client, { runId }) => {
+    const summary = `delete MLflow run ${runId}`;
+    const run = await find(() => client.getMlflowRun(runId));
+    if (!run) {
+      return missing(summary, `run ${runId}`);
+    }
+    return {
+      summary,
+      current: run.info,
+      changes: [`Run ${runId} would be marked deleted with its metrics, parameters and tags`],
+    };
+  }),
+
+  databricks_set_tag: planner<{ runId: string; key: string; value: string }>(
+    async (client, { runId, key, value }) => {
+      const summary = `set tag ${key} on MLflow run ${runId}`;
+      const run = await find(() => client.getMlflowRun(runId));
+      if (!run) {
+        return missing(summary, `run ${runId}`);
+      }
+      const tag = run.data?.tags?.find((existing) => existing.key === key);
+      return {
+        summary,
+        current: tag ?? null,
+        changes: unchanged(diffFields({ [key]: tag?.value }, { [key]: value })),
+      };
+    }
+  ),
+
+  databricks_delete_model: planner<{ name: string }>(async (client, { name }) => {
+    const summary = `delete registered model ${name}`;
+    const model = await find(() => client.getRegisteredModel(name));
+    if (!model) {
+      return missing(summary, `model ${name}`);
+    }
+    const notes: string[] = [];
+    const versions = await scan(
+      'model version',
+      (page) => client.listModelVersions(name, page),
+      notes
+    );
+    return {
+      summary,
+      current: model,
+      changes: [`Model ${name} and all ${versions.length} of its versions would be deleted`],
+      dependents: {
+        versions: versions.map((version) => ({
+          version: version.version,
+          current_stage: version.current_stage,
+          aliases: version.aliases,
+        })),
+      },
+      notes,
+    };
+  }),
+
+  databricks_delete_model_version: planner<{ name: string; version: string }>(
+    async (client, { name, version }) => {
+      const summary = `delete version ${version} of model ${name}`;
+      const modelVersion = await find(() => client.getModelVersion(name, version));
+      if (!modelVersion) {
+        return missing(summary, `version ${version} of model ${name}`);
+      }
+      const aliases = modelVersion.aliases ?? [];
+      return {
+        summary,
+        current: modelVersion,
+        changes: [
+          `Version ${version} of model ${name} would be deleted`,
+          ...(modelVersion.current_stage && modelVersion.current_stage !== 'None'
+            ? [`It is currently in stage ${modelVersion.current_stage}`]
+            : []),
+          ...(aliases.length > 0
+            ? [`Aliases ${aliases.join(', ')} would no longer resolve to a version`]
+            : []),
+        ],
+      };
+    }
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Secrets (values are never fetched or returned)
+  // ---------------------------------------------------------------------------
+  databricks_delete_secret_scope: planner<{ scope: string }>(async (client, { scope }) => {
+    const summary = `delete secret scope ${scope}`;
+    const notes: string[] = [];
+    const current = await scanFor(
+      'secret scope',
+      (page) => client.listSecretScopes(page),
+      notes,
+      (existing) => existing.name === scope
+    );
+    if (current === undefined) {
+      const change = 'it and every secret in it would be deleted';
+      return unlisted(summary, `Secret scope ${scope}`, change, notes);
+    }
+    if (!current) {
+      return { ...missing(summary, `secret scope ${scope}`), notes };
+    }
+    const secrets = await scan('secret', (page) => client.listSecrets(scope, page), notes);
+    const acls = await scan('ACL', (page) => client.listSecretAcls(scope, page), notes);
+    return {
+      summary,
+      current,
+      changes: [
+        `Secret scope ${scope} would be deleted with its ${secrets.length} secrets and ${acls.length} ACLs`,
+        'Jobs and notebooks that read these secrets would fail',
+      ],
+      dependents: { secrets: secrets.map((secret) => secret.key), acls },
+      notes,
+    };
+  }),
+
+  databricks_put_secret: planner<{ scope: string; key: string }>(async (client, { scope, key }) => {
+    const notes: string[] = [];
+    const existing = await scanFor(
+      'secret',
+      (page) => client.listSecrets(scope, page),
+      notes,
+      (secret) => secret.key === key
+    );
+    return {
+      summary: `write secret ${key} in scope ${scope}`,
+      current: existing,
+      changes: [
+        existing
+          ? `The value of secret ${key} would be overwritten; readers get the new value`
+          : existing === null
+            ? `Secret ${key} would be created in scope ${scope}`
+            : `Secret ${key} would be created in scope ${scope}, or overwritten if it is ` +
+              `beyond the first ${MAX_SCAN_PAGES} pages`,
+      ],
+      notes,
+    };
+  }),
+
+  databricks_delete_secret: planner<{ scope: string; key: string }>(
+    async (client, { scope, key }) => {
+      const summary = `delete secret ${key} from scope ${scope}`;
+      const notes: string[] = [];
+      const existing = await scanFor(
+        'secret',
+        (page) => client.listSecrets(scope, page),
+        notes,
+        (secret) => secret.key === key
+      );
+      if (existing === undefined) {
+        const change = 'it would be deleted';
+        return unlisted(summary, `Secret ${key} in scope ${scope}`, change, notes);
+      }
+      if (!existing) {
+        return { ...missing(summary, `secret ${key} in scope ${scope}`), notes };
+      }
+      return {
+        summary,
+        current: existing,
+        changes: [`Secret ${key} would be deleted; jobs and notebooks that read it would fail`],
+        notes,
+      };
+    }
+  ),
+
+  databricks_put_secret_acl: planner<{ scope: string; principal: string; permission: string }>(
+    async (client, { scope, principal, permission }) => {
+      const acl = await find(() => client.getSecretAcl(scope, principal));
+      return {
+        summary: `grant ${permission} on secret scope ${scope} to ${principal}`,
+        current: acl,
+        changes: unchanged(
+          diffFields({ permission: acl?.permission }, { permission }).map(
+            (change) => `${principal} ${change}`
+          )
+        ),
+      };
+    }
+  ),
+
+  databricks_delete_secret_acl: planner<{ scope: string; principal: string }>(
+    async (client, { scope, principal }) => {
+      const summary = `remove the ACL of ${principal} on secret scope ${scope}`;
+      const acl = await find(() => client.getSecretAcl(scope, principal));
+      if (!acl) {
+        return missing(summary, `an ACL for ${principal} on scope ${scope}`);
+      }
+      return {
+        summary,
+        current: acl,
+        changes: [`${principal} would lose ${acl.permission} permission on scope ${scope}`],
+      };
+    }
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Repos
+  // ---------------------------------------------------------------------------
+  databricks_update_repo: planner<{ repoId: number; branch?: string; tag?: string }>(
+    async (client, { repoId, branch, tag }) => {
+      const summary = `update repo ${repoId}`;
+      const repo = await find(() => client.getRepo(repoId));
+      if (!repo) {
+        return missing(summary, `repo ${repoId}`);
+      }
+      let changes = ['Nothing: neither branch nor tag is set'];
+      if (tag) {
+        changes = [
+          `The repo would check out tag ${tag} (detached from branch ${repo.branch ?? '-'})`,
+        ];
+      } else if (branch) {
+        changes = unchanged(diffFields({ ...repo }, { branch }));
+      }
+      return {
+        summary,
+        current: repo,
+        changes: [
+          ...changes,
+          'Uncommitted changes in the repo may be lost when the checkout changes',
+        ],
+      };
+    }
+  ),
+
+  databricks_delete_repo: planner<{ repoId: number }>(async (client, { repoId }) => {
+    const summary = `delete repo ${repoId}`;
+    const repo = await find(() => client.getRepo(repoId));
+    if (!repo) {
+      return missing(summary, `repo ${repoId}`);
+    }
+    const notes: string[] = [];
+    const jobs = repo.path
+      ? await scanJobs(client, notes, (job) => referencesPath(job, repo.path ?? ''))
+      : [];
+    return {
+      summary,
+      current: repo,
+      changes: [
+        `Repo ${repo.path ?? repoId} and its working copy would be deleted; uncommitted changes are lost`,
+        ...(jobs.length > 0 ? [`${jobs.length} jobs that run code from it would fail`] : []),
+      ],
+      dependents: { jobs },
+      notes,
+    };
+  }),
+
+  databricks_delete_git_credential: planner<{ credentialId: number }>(
+    async (client, { credentialId }) => {
+      const summary = `delete Git credential ${credentialId}`;
+      const notes: string[] = [];
+      const credential = await scanFor(
+        'Git credential',
+        (page) => client.listGitCredentials(page),
+        notes,
+        (existing) => existing.credential_id === credentialId
+      );
+      if (credential === undefined) {
+        const change = 'it would be deleted';
+        return unlisted(summary, `Git credential ${credentialId}`, change, notes);
+      }
+      if (!credential) {
+        return { ...missing(summary, `Git credential ${credentialId}`), notes };
+      }
+      return {
+        summary,
+        current: credential,
+        changes: [
+          `The ${credential.git_provider} credential would be deleted; repos of this user can no ` +
+            'longer pull or push until a new credential is added',
+        ],
+        notes,
+      };
+    }
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Pipelines
+  // ---------------------------------------------------------------------------
+  databricks_update_pipeline: planner<{ pipelineId: string; spec: string }>(
+    async (client, { pipelineId, spec }) => {
+      const summary = `update pipeline ${pipelineId}`;
+      const pipeline = await find(() => client.getPipeline(pipelineId));
+      if (!pipeline) {
+        return missing(summary, `pipeline ${pipelineId}`);
+      }
+      // The update replaces the whole specification, so fields left out are removed
+      const current: Record<string, unknown> = { ...(pipeline.spec ?? {}) };
+      const next = jsonArgument(spec, 'spec');
+      const keys = [...new Set([...Object.keys(current), ...Object.keys(next)])].filter(
+        (key) => key !== 'id'
+      );
+      return {
+        summary,
+        current: pipeline.spec,
+        changes: unchanged(diffFields(current, next, keys)),
+      };
+    }
+  ),
+
+  databricks_delete_pipeline: planner<{ pipelineId: string }>(async (client, { pipelineId }) =>
+    planPipelineChange(client, pipelineId, 'delete', (pipeline) => [
+      `Pipeline "${pipeline.name ?? pipelineId}" and its update history would be deleted`,
+    ])
+  ),
+
+  databricks_stop_pipeline: planner<{ pipelineId: string }>(async (client, { pipelineId }) =>
+    planPipelineChange(client, pipelineId, 'stop', (pipeline) => [
+      pipeline.state === 'IDLE' || pipeline.state === 'FAILED'
+        ? `Nothing: the pipeline is ${pipeline.state} and has no active update`
+        : `The active update of pipeline "${pipeline.name ?? pipelineId}" (${pipeline.state}) would be canceled`,
+    ])
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Instance Pools
+  // ---------------------------------------------------------------------------
+  databricks_edit_instance_pool: planner<{
+    instancePoolId: string;
+    instancePoolName: string;
+    nodeTypeId: string;
+    minIdleInstances?: number;
+    maxCapacity?: number;
+  }>(async (client, args) =>
+    planInstancePoolChange(client, args.instancePoolId, 'edit', (pool) =>
+      unchanged(
+        diffFields(
+          { ...pool },
+          {
+            instance_pool_name: args.instancePoolName,
+            node_type_id: args.nodeTypeId,
+            ...(args.minIdleInstances !== undefined && {
+              min_idle_instances: args.minIdleInstances,
+            }),
+            ...(args.maxCapacity !== undefined && { max_capacity: args.maxCapacity }),
+          }
+        )
+      )
+    )
+  ),
+
+  databricks_delete_instance_pool: planner<{ instancePoolId: string }>(
+    async (client, { instancePoolId }) =>
+      planInstancePoolChange(client, instancePoolId, 'delete', (pool) => [
+        `Instance pool "${pool.instance_pool_name}" would be deleted and its ` +
+          `${pool.stats?.idle_count ?? 0} idle instances terminated`,
+        'Clusters and jobs that use the pool can no longer start',
+      ])
+  ),
+
+  // ---------------------------------------------------------------------------
+  // Tokens
+  // ---------------------------------------------------------------------------
+  databricks_revoke_token: planner<{ tokenId: string }>(async (client, { tokenId }) => {
+    const summary = `revoke token ${tokenId}`;
+    const notes: string[] = [];
+    const token = await scanFor(
+      'token',
+      (page) => client.listTokens(page),
+      notes,
+      (existing) => existing.token_id === tokenId
+    );
+    if (token === undefined) {
+      const change = 'it would be revoked and every client using it would lose access';
+      return unlisted(summary, `Token ${tokenId}`, change, notes);
+    }
+    if (!token) {
+      return { ...missing(summary, `token ${tokenId}`), notes };
+    }
+    return {
+      summary,
+      current: token,
+      changes: [
+        `Token ${tokenId}${token.comment ? ` ("${token.comment}")` : ''} would be revoked; ` +
+          'every client using it loses access immediately',
+      ],
+      notes,
+    };
+  }),
+};
+
+/**
+ * Shared plan for cluster lifecycle changes, listing the jobs that run on the cluster
+ */
+async function planClusterChange(
+  client: DatabricksClient,
+  clusterId: string,
+  action: string,
+  effect: string
+): Promise<DryRunPlan> {
+  const summary = `${action} cluster ${clusterId}`;
+  const cluster = await find(() => client.getCluster(clusterId));
+  if (!cluster) {
+    return missing(summary, `cluster ${clusterId}`);
+  }
+  const notes: string[] = [];
+  const jobs = await scanJobs(client, notes, (job) =>
+    (job.settings?.tasks ?? []).some((task) => task.existing_cluster_id === clusterId)
+  );
+  const idle = cluster.state === 'TERMINATED' && action !== 'permanently delete';
+  return {
+    summary,
+    current: cluster,
+    changes: [
+      idle
+        ? `Nothing: the cluster is already ${cluster.state}`
+        : `Cluster "${cluster.cluster_name}" (${cluster.state}) ${effect}`,
+      ...(jobs.length > 0 && action === 'permanently delete'
+        ? [`${jobs.length} jobs that run on this cluster would fail`]
+        : []),
+    ],
+    dependents: { jobs },
+    notes,
+  };
+}
+
+/**
+ * Shared plan for pipeline changes, listing the jobs that trigger the pipeline
+ */
+async function planPipelineChange(
+  client: DatabricksClient,
+  pipelineId: string,
+  action: string,
+  describe: (pipeline: Pipeline) => string[]
+): Promise<DryRunPlan> {
+  const summary = `${action} pipeline ${pipelineId}`;
+  const pipeline = await find(() => client.getPipeline(pipelineId));
+  if (!pipeline) {
+    return missing(summary, `pipeline ${pipelineId}`);
+  }
+  const notes: string[] = [];
+  const jobs = await scanJobs(client, notes, (job) =>
+    (job.settings?.tasks ?? []).some((task) => task.pipeline_task?.pipeline_id === pipelineId)
+  );
+  return { summary, current: pipeline, changes: describe(pipeline), dependents: { jobs }, notes };
+}
+
+/**
+ * Shared plan for instance pool changes, listing the clusters and jobs that use the pool
+ */
+async function planInstancePoolChange(
+  client: DatabricksClient,
+  instancePoolId: string,
+  action: string,
+  describe: (pool: InstancePool) => string[]
+): Promise<DryRunPlan> {
+  const summary = `${action} instance pool ${instancePoolId}`;
+  const pool = await find(() => client.getInstancePool(instancePoolId));
+  if (!pool) {
+    return missing(summary, `instance pool ${instancePoolId}`);
+  }
+  const usesPool = (cluster: NewCluster) =>
+    cluster.instance_pool_id === instancePoolId ||
+    cluster.driver_instance_pool_id === instancePoolId;
+  const notes: string[] = [];
+  const clusters = await scan('cluster', (page) => client.listClusters(page), notes, usesPool);
+  const jobs = await scanJobs(client, notes, (job) => jobClusters(job).some(usesPool));
+  return {
+    summary,
+    current: pool,
+    changes: describe(pool),
+    dependents: {
+      clusters: clusters.map((cluster) => ({
+        cluster_id: cluster.cluster_id,
+        cluster_name: cluster.cluster_name,
+        state: cluster.state,
+      })),
+      jobs,
+    },
+    notes,
+  };
+}
+
+// =============================================================================
+// Tool Wrapper
+// =============================================================================
+
+const dryRunParam = z
+  .boolean()
+  .optional()
+  .describe(
+    'Preview the change without making it: report the current state, what would change and what depends on it'
+  );
+
+/** Fields a dry run adds to the tool result */
+const dryRunOutput = {
+  dry_run: z.boolean().optional().describe('True when nothing was changed because dryRun was set'),
+  current: z.unknown().optional().describe('Current state of the target (dry run)'),
+  changes: z.array(z.string()).optional().describe('Changes the call would make (dry run)'),
+  dependents: z
+    .record(z.string(), z.array(z.unknown()))
+    .optional()
+    .describe('Objects that depend on the target, by kind (dry run)'),
+  notes: z.array(z.string()).optional(),
+};
+
+/**
+ * Result of a dry run, shaped like the tool's success result
+ */
+function formatPlan({ summary, notes, ...plan }: DryRunPlan) {
+  return formatResponse({
+    success: true,
+    dry_run: true,
+    message: `Dry run of ${summary}: nothing was changed`,
+    ...plan,
+    ...(notes && notes.length > 0 && { notes }),
+  });
+}
+
+/**
+ * Whether a tool accepts the dryRun option
+ */
+export function supportsDryRun(name: string): boolean {
+  return name in DRY_RUN_PLANNERS;
+}
+
+/**
+ * Dry-run plan of a tool call, or undefined for tools without a planner
+ */
+export async function planToolCall(
+  name: string,
+  client: DatabricksClient,
+  args: Record<string, unknown>
+): Promise<DryRunPlan | undefined> {
+  const plan = DRY_RUN_PLANNERS[name];
+  return plan ? plan(client, args) : undefined;
+}
+
+/**
+ * Wrap a server so every tool with a planner accepts `dryRun`. Register it outside
+ * limitToolResponses so dry-run results respect the character limit too.
+ */
+export function enableDryRun(server: McpServer, client: DatabricksClient): McpServer {
+  const planned = wrapTools(server, (name, handler) => {
+    const plan = DRY_RUN_PLANNERS[name];
+    if (!plan) {
+      return handler;
+    }
+    return async (args, ...rest) => {
+      const params = args as Record<string, unknown>;
+      if (!params.dryRun) {
+        return handler(args, ...rest);
+      }
+      try {
+        return formatPlan(await plan(client, params));
+      } catch (error) {
+        return formatError(error);
+      }
+    };
+  });
+
+  return decorateTools(planned, (name, registered) => {
+    if (!supportsDryRun(name)) {
+      return;
+    }
+    const input = registered.inputSchema as z.ZodObject | undefined;
+    registered.inputSchema = z.object({ ...input?.shape, dryRun: dryRunParam });
+    registered.description = `${registered.description ?? ''}\n\nSet dryRun to true to preview the change without making it.`;
+
+    // A dry run returns no data, so the success data becomes optional
+    const output = registered.outputSchema as z.ZodObject | undefined;
+    if (output) {
+      const { data } = output.shape;
+      registered.outputSchema = output.extend({
+        ...(data && { data: data.optional() }),
+        ...dryRunOutput,
+      });
+    }
+  });
+}
@@ -0,0 +1,114 @@
+/**
+ * Tool Filtering
+ *
+ * Helpers for registering only a subset of tools on a server instance, for wrapping the
+ * handlers of every tool or prompt registered through a server, and for amending the
+ * registered tools.
+ */
+
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+/**
+ * Wrap a server so that tool registrations for names rejected by `include` are skipped.
+ *
+ * The register*Tools functions can be passed the wrapped server unchanged; every other
+ * McpServer method is forwarded to the underlying server.
+ */
+export function filterTools(server: McpServer, include: (name: string) => boolean): McpServer {
+  const tool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property === 'tool') {
+        return (name: string, ...rest: unknown[]) =>
+          include(name) ? tool(name, ...rest) : undefined;
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/**
+ * Tool handler as passed to McpServer.tool (always the last argument)
+ */
+export type ToolHandler = (...args: unknown[]) => unknown;
+
+/**
+ * Wrap a server so that every tool handler registered through it is passed to `wrap`.
+ *
+ * `wrap` receives the tool name and the original handler and returns the handler to
+ * register in its place. Wrappers can be stacked with filterTools and each other.
+ */
+export function wrapTools(
+  server: McpServer,
+  wrap: (name: string, handler: ToolHandler) => ToolHandler
+): McpServer {
+  const tool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property === 'tool') {
+        return (name: string, ...rest: unknown[]) => {
+          const handler = rest.pop() as ToolHandler;
+          return tool(name, ...rest, wrap(name, handler));
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/**
+ * Prompt callback as passed to McpServer.registerPrompt (always the last argument)
+ */
+export type PromptHandler = (...args: unknown[]) => unknown;
+
+/**
+ * Wrap a server so that every prompt callback registered through it is passed to `wrap`,
+ * as wrapTools does for tool handlers.
+ */
+export function wrapPrompts(
+  server: McpServer,
+  wrap: (name: string, handler: PromptHandler) => PromptHandler
+): McpServer {
+  const registerPrompt = server.registerPrompt.bind(server) as (
+    name: string,
+    ...rest: unknown[]
+  ) => unknown;
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property === 'registerPrompt') {
+        return (name: string, ...rest: unknown[]) => {
+          const handler = rest.pop() as PromptHandler;
+          return registerPrompt(name, ...rest, wrap(name, handler));
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
+
+/**
+ * Wrap a server so that `decorate` is called with every tool registered through it.
+ *
+ * Used to set tool properties that McpServer.tool cannot take, such as the output schema.
+ * Tools skipped by an inner filterTools are not passed to `decorate`.
+ */
+export function decorateTools(
+  server: McpServer,
+  decorate: (name: string, registered: RegisteredTool) => void
+): McpServer {
+  const tool = server.tool.bind(server) as (name: string, ...rest: unknown[]) => unknown;
+  return new Proxy(server, {
+    get(target, property, receiver) {
+      if (property === 'tool') {
+        return (name: string, ...rest: unknown[]) => {
+          const registered = tool(name, ...rest) as RegisteredTool | undefined;
+          if (registered) {
+            decorate(name, registered);
+          }
+          return registered;
+        };
+      }
+      return Reflect.get(target, property, receiver);
+    },
+  });
+}
@@ -10,3 +10,28 @@ export { registerReposTools } from './repos.js';
 export { registerPipelinesTools } from './pipelines.js';
 export { registerInstancePoolsTools } from './instance-pools.js';
 export { registerTokensTools } from './tokens.js';
+export { registerSessionTools } from './session.js';
+export { type AuditTenant, auditTools } from './audit.js';
+export { propagateCancellation } from './cancellation.js';
+export { limitToolResponses, registerContinuationTools } from './continuation.js';
+export { requireConfirmation, requiresConfirmation } from './confirmation.js';
+export { type DryRunPlan, enableDryRun, planToolCall, supportsDryRun } from './dry-run.js';
+export { declareOutputSchemas, TOOL_OUTPUT_SCHEMAS } from './output-schemas.js';
+export { getRateLimitCategory, limitToolRate } from './rate-limit.js';
+export {
+  annotateTools,
+  getToolAnnotations,
+  getToolSafety,
+  isReadOnlyTool,
+  type ToolSafety,
+  type ToolSafetyClass,
+} from './registry.js';
+export {
+  getActiveToolsets,
+  getToolsetsByTool,
+  parseToolSelection,
+  TOOLSET_NAMES,
+  TOOLSETS,
+  type ToolSelection,
+  type ToolsetName,
+} from './toolsets.js';
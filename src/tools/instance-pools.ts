@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all instance pools-related tools
@@ -20,13 +21,20 @@ export function registerInstancePoolsTools(server: McpServer, client: Databricks
     'databricks_list_instance_pools',
     `List all instance pools.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+
 Returns:
-  List of instance pools.`,
-    {},
-    async () => {
+  List of instance pools.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+    },
+    async ({ pageSize, cursor }) => {
       try {
-        const pools = await client.listInstancePools();
-        return formatResponse({ instance_pools: pools, count: pools.length });
+        const page = await client.listInstancePools({ pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
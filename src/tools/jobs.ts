@@ -8,6 +8,11 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
+import { describeWait, waitForState, waitParams } from './wait.js';
+
+/** Run life cycle states in which waiting for a run ends */
+const RUN_FINAL_STATES = new Set(['TERMINATED', 'SKIPPED', 'INTERNAL_ERROR']);
 
 /**
  * Register all job-related tools
@@ -21,21 +26,21 @@ export function registerJobTools(server: McpServer, client: DatabricksClient): v
     `List all jobs in the workspace.
 
 Args:
-  - limit: (Optional) Maximum number of jobs to return (default: 20)
-  - offset: (Optional) Offset for pagination
   - name: (Optional) Filter jobs by name (substring match)
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of jobs with their settings and metadata.`,
+  List of jobs with their settings and metadata.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
-      limit: z.number().int().min(1).max(100).optional().describe('Maximum jobs to return'),
-      offset: z.number().int().min(0).optional().describe('Pagination offset'),
       name: z.string().optional().describe('Filter by job name'),
+      ...paginationParams,
     },
-    async ({ limit, offset, name }) => {
+    async ({ name, pageSize, cursor }) => {
       try {
-        const result = await client.listJobs({ limit, offset, name });
-        return formatResponse({ ...result, count: result.jobs.length });
+        const page = await client.listJobs({ name, pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -172,17 +177,35 @@ Returns:
 Args:
   - jobId: Job ID to run
   - parameters: (Optional) Runtime parameters as JSON string
+  - wait: (Optional) Wait until the run finishes, reporting progress
+  - timeoutSeconds: (Optional) Most seconds to wait (default: 600)
 
 Returns:
-  Run ID of the triggered run.`,
+  Run ID of the triggered run. With wait, its final state and details.`,
     {
       jobId: z.number().int().describe('Job ID'),
       parameters: z.string().optional().describe('Runtime parameters as JSON'),
+      ...waitParams,
     },
-    async ({ jobId, parameters }) => {
+    async ({ jobId, parameters, wait, timeoutSeconds }, extra) => {
       try {
         const params = parameters ? JSON.parse(parameters) : undefined;
         const result = await client.runJobNow(jobId, params);
+        if (wait) {
+          const label = `Run ${result.run_id}`;
+          const waited = await waitForState(extra, {
+            label,
+            fetch: () => client.getRun(result.run_id),
+            state: (run) => run.state?.life_cycle_state,
+            final: RUN_FINAL_STATES,
+            timeoutSeconds,
+          });
+          const outcome = waited.resource.state?.result_state;
+          return formatSuccess(
+            `${describeWait(label, waited, 'databricks_get_run')}${outcome ? ` (${outcome})` : ''}`,
+            { ...result, ...waited }
+          );
+        }
         return formatSuccess('Job run triggered', result);
       } catch (error) {
         return formatError(error);
@@ -201,22 +224,22 @@ Args:
   - jobId: (Optional) Filter by job ID
   - activeOnly: (Optional) Only return active runs
   - completedOnly: (Optional) Only return completed runs
-  - limit: (Optional) Maximum runs to return (default: 20)
-  - offset: (Optional) Pagination offset
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of job runs with status.`,
+  List of job runs with status.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       jobId: z.number().int().optional().describe('Filter by job ID'),
       activeOnly: z.boolean().optional().describe('Only active runs'),
       completedOnly: z.boolean().optional().describe('Only completed runs'),
-      limit: z.number().int().min(1).max(100).optional().describe('Maximum runs to return'),
-      offset: z.number().int().min(0).optional().describe('Pagination offset'),
+      ...paginationParams,
     },
-    async ({ jobId, activeOnly, completedOnly, limit, offset }) => {
+    async ({ jobId, activeOnly, completedOnly, pageSize, cursor }) => {
       try {
-        const result = await client.listRuns({ jobId, activeOnly, completedOnly, limit, offset });
-        return formatResponse({ ...result, count: result.runs.length });
+        const page = await client.listRuns({ jobId, activeOnly, completedOnly, pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -8,6 +8,8 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { cacheParams } from './cache.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all MLflow-related tools
@@ -22,19 +24,21 @@ export function registerMlflowTools(server: McpServer, client: DatabricksClient)
     `List MLflow experiments.
 
 Args:
-  - maxResults: (Optional) Maximum experiments to return
-  - pageToken: (Optional) Pagination token
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
-  List of experiments.`,
+  List of experiments.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
-      maxResults: z.number().int().min(1).max(1000).optional().describe('Maximum results'),
-      pageToken: z.string().optional().describe('Pagination token'),
+      ...paginationParams,
+      ...cacheParams,
     },
-    async ({ maxResults, pageToken }) => {
+    async ({ pageSize, cursor, noCache }) => {
       try {
-        const result = await client.listExperiments({ maxResults, pageToken });
-        return formatResponse({ ...result, count: result.experiments.length });
+        const page = await client.listExperiments({ pageSize, cursor, noCache });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -47,15 +51,17 @@ Returns:
 
 Args:
   - experimentId: Experiment ID
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Experiment metadata.`,
     {
       experimentId: z.string().describe('Experiment ID'),
+      ...cacheParams,
     },
-    async ({ experimentId }) => {
+    async ({ experimentId, noCache }) => {
       try {
-        const experiment = await client.getExperiment(experimentId);
+        const experiment = await client.getExperiment(experimentId, { noCache });
         return formatResponse(experiment);
       } catch (error) {
         return formatError(error);
@@ -69,15 +75,17 @@ Returns:
 
 Args:
   - experimentName: Experiment name/path
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Experiment metadata.`,
     {
       experimentName: z.string().describe('Experiment name'),
+      ...cacheParams,
     },
-    async ({ experimentName }) => {
+    async ({ experimentName, noCache }) => {
       try {
-        const experiment = await client.getExperimentByName(experimentName);
+        const experiment = await client.getExperimentByName(experimentName, { noCache });
         return formatResponse(experiment);
       } catch (error) {
         return formatError(error);
@@ -164,29 +172,29 @@ Returns:
 Args:
   - experimentIds: Array of experiment IDs to search
   - filter: (Optional) Filter string (e.g., "metrics.accuracy > 0.9")
-  - maxResults: (Optional) Maximum results to return
   - orderBy: (Optional) Order by fields (e.g., ["metrics.accuracy DESC"])
-  - pageToken: (Optional) Pagination token
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of matching runs.`,
+  List of matching runs.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       experimentIds: z.array(z.string()).describe('Experiment IDs'),
       filter: z.string().optional().describe('Filter expression'),
-      maxResults: z.number().int().min(1).max(50000).optional().describe('Maximum results'),
       orderBy: z.array(z.string()).optional().describe('Order by fields'),
-      pageToken: z.string().optional().describe('Pagination token'),
+      ...paginationParams,
     },
-    async ({ experimentIds, filter, maxResults, orderBy, pageToken }) => {
+    async ({ experimentIds, filter, orderBy, pageSize, cursor }) => {
       try {
-        const result = await client.searchMlflowRuns({
+        const page = await client.searchMlflowRuns({
           experimentIds,
           filter,
-          maxResults,
           orderBy,
-          pageToken,
+          pageSize,
+          cursor,
         });
-        return formatResponse({ ...result, count: result.runs.length });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -359,19 +367,19 @@ Returns:
     `List registered MLflow models.
 
 Args:
-  - maxResults: (Optional) Maximum models to return
-  - pageToken: (Optional) Pagination token
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of registered models.`,
+  List of registered models.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
-      maxResults: z.number().int().min(1).max(1000).optional().describe('Maximum results'),
-      pageToken: z.string().optional().describe('Pagination token'),
+      ...paginationParams,
     },
-    async ({ maxResults, pageToken }) => {
+    async ({ pageSize, cursor }) => {
       try {
-        const result = await client.listRegisteredModels({ maxResults, pageToken });
-        return formatResponse({ ...result, count: result.registered_models.length });
+        const page = await client.listRegisteredModels({ pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -455,16 +463,20 @@ Returns:
 
 Args:
   - name: Model name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of model versions.`,
+  List of model versions.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       name: z.string().describe('Model name'),
+      ...paginationParams,
     },
-    async ({ name }) => {
+    async ({ name, pageSize, cursor }) => {
       try {
-        const versions = await client.listModelVersions(name);
-        return formatResponse({ versions, count: versions.length, model: name });
+        const page = await client.listModelVersions(name, { pageSize, cursor });
+        return formatResponse({ ...page, model: name });
       } catch (error) {
         return formatError(error);
       }
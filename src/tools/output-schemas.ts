@@ -0,0 +1,278 @@
+/**
+ * Tool Output Schemas
+ *
+ * The MCP output schema of every tool, keyed by tool name. The schemas are attached when
+ * the tools are registered, and the SDK validates each tool's `structuredContent` against
+ * its schema before the result is returned.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import {
+  catalogSchema,
+  clusterEventSchema,
+  clusterSchema,
+  dbfsFileInfoSchema,
+  experimentRunSchema,
+  experimentSchema,
+  functionSchema,
+  gitCredentialSchema,
+  instancePoolSchema,
+  jobSchema,
+  modelVersionSchema,
+  pipelineSchema,
+  registeredModelSchema,
+  repoSchema,
+  runSchema,
+  schemaSchema,
+  secretAclSchema,
+  secretMetadataSchema,
+  secretScopeSchema,
+  sqlWarehouseSchema,
+  statementResponseSchema,
+  statementResultSchema,
+  tableSchema,
+  tokenInfoSchema,
+  volumeSchema,
+  workspaceObjectSchema,
+} from '../types/schemas.js';
+import { decorateTools } from './filter.js';
+
+type OutputSchema = z.ZodObject;
+
+/**
+ * One page of a list (see PaginatedResponse), plus the context fields the tool echoes back
+ */
+function paginated(item: z.ZodType, context: z.ZodRawShape = {}): OutputSchema {
+  return z.looseObject({
+    items: z.array(item),
+    count: z.number(),
+    has_more: z.boolean(),
+    next_cursor: z.string().optional().describe('Pass back as cursor to fetch the next page'),
+    ...context,
+  });
+}
+
+/**
+ * Result of formatSuccess, optionally with the created or updated resource
+ */
+function success(data?: z.ZodType): OutputSchema {
+  return z.looseObject({
+    success: z.literal(true),
+    message: z.string(),
+    ...(data && { data }),
+  });
+}
+
+/**
+ * Fields a tool adds when called with wait (see WaitResult)
+ */
+function waitFields(resource: z.ZodType): z.ZodRawShape {
+  return {
+    state: z.string().optional(),
+    timed_out: z.boolean().optional(),
+    waited_seconds: z.number().optional(),
+    resource: resource.optional(),
+  };
+}
+
+const sessionContextSchema = z.looseObject({
+  warehouseId: z.string().optional(),
+  catalog: z.string().optional(),
+  schema: z.string().optional(),
+  inFlightStatements: z.array(z.string()),
+});
+
+const runOutputSchema = z.looseObject({
+  metadata: runSchema.optional(),
+  notebook_output: z
+    .looseObject({ result: z.string().optional(), truncated: z.boolean().optional() })
+    .optional(),
+  logs: z.string().optional(),
+  error: z.string().optional(),
+  error_trace: z.string().optional(),
+});
+
+const ucContext = { catalog: z.string(), schema: z.string() };
+
+/**
+ * Output schema per tool name. Tools without an entry (databricks_get_more_results, whose
+ * shape depends on the truncated response) return unstructured text only.
+ */
+export const TOOL_OUTPUT_SCHEMAS: Record<string, OutputSchema> = {
+  // Connection and session
+  databricks_test_connection: z.looseObject({
+    connected: z.boolean(),
+    message: z.string(),
+    toolsets: z.array(z.string()),
+    readOnly: z.boolean(),
+  }),
+  databricks_get_session_context: sessionContextSchema,
+  databricks_set_session_context: success(sessionContextSchema),
+
+  // SQL
+  databricks_execute_sql: statementResponseSchema,
+  databricks_get_sql_status: statementResponseSchema,
+  databricks_get_sql_result_chunk: statementResultSchema,
+  databricks_cancel_sql: success(),
+  databricks_list_warehouses: paginated(sqlWarehouseSchema),
+  databricks_get_warehouse: sqlWarehouseSchema,
+  databricks_start_warehouse: success(z.looseObject(waitFields(sqlWarehouseSchema)).optional()),
+  databricks_stop_warehouse: success(),
+
+  // Jobs
+  databricks_list_jobs: paginated(jobSchema),
+  databricks_get_job: jobSchema,
+  databricks_create_job: success(z.looseObject({ job_id: z.number() })),
+  databricks_update_job: success(),
+  databricks_delete_job: success(),
+  databricks_run_job: success(z.looseObject({ run_id: z.number(), ...waitFields(runSchema) })),
+  databricks_list_runs: paginated(runSchema),
+  databricks_get_run: runSchema,
+  databricks_get_run_output: runOutputSchema,
+  databricks_cancel_run: success(),
+  databricks_cancel_all_runs: success(),
+
+  // Clusters
+  databricks_list_clusters: paginated(clusterSchema),
+  databricks_get_cluster: clusterSchema,
+  databricks_create_cluster: success(z.looseObject({ cluster_id: z.string() })),
+  databricks_start_cluster: success(z.looseObject(waitFields(clusterSchema)).optional()),
+  databricks_restart_cluster: success(),
+  databricks_terminate_cluster: success(),
+  databricks_delete_cluster: success(),
+  databricks_list_cluster_events: paginated(clusterEventSchema),
+  databricks_pin_cluster: success(),
+  databricks_unpin_cluster: success(),
+
+  // Workspace
+  databricks_list_workspace: paginated(workspaceObjectSchema, { path: z.string() }),
+  databricks_get_workspace_status: workspaceObjectSchema,
+  databricks_mkdirs: success(),
+  databricks_delete_workspace: success(),
+  databricks_import_notebook: success(),
+  databricks_export_notebook: z.looseObject({
+    path: z.string(),
+    format: z.string(),
+    content: z.string().describe('Base64-encoded notebook content'),
+  }),
+
+  // DBFS
+  databricks_list_dbfs: paginated(dbfsFileInfoSchema, { path: z.string() }),
+  databricks_get_dbfs_status: dbfsFileInfoSchema,
+  databricks_mkdirs_dbfs: success(),
+  databricks_delete_dbfs: success(),
+  databricks_read_dbfs: z.looseObject({
+    path: z.string(),
+    bytes_read: z.number(),
+    data: z.string().describe('Base64-encoded file content'),
+  }),
+  databricks_put_dbfs: success(),
+  databricks_move_dbfs: success(),
+
+  // Unity Catalog
+  databricks_list_catalogs: paginated(catalogSchema),
+  databricks_get_catalog: catalogSchema,
+  databricks_create_catalog: success(catalogSchema),
+  databricks_delete_catalog: success(),
+  databricks_list_schemas: paginated(schemaSchema, { catalog: z.string() }),
+  databricks_get_schema: schemaSchema,
+  databricks_create_schema: success(schemaSchema),
+  databricks_delete_schema: success(),
+  databricks_list_tables: paginated(tableSchema, ucContext),
+  databricks_get_table: tableSchema,
+  databricks_delete_table: success(),
+  databricks_list_volumes: paginated(volumeSchema, ucContext),
+  databricks_get_volume: volumeSchema,
+  databricks_create_volume: success(volumeSchema),
+  databricks_delete_volume: success(),
+  databricks_list_functions: paginated(functionSchema, ucContext),
+  databricks_get_function: functionSchema,
+
+  // MLflow
+  databricks_list_experiments: paginated(experimentSchema),
+  databricks_get_experiment: experimentSchema,
+  databricks_get_experiment_by_name: experimentSchema,
+  databricks_create_experiment: success(z.looseObject({ experiment_id: z.string() })),
+  databricks_delete_experiment: success(),
+  databricks_restore_experiment: success(),
+  databricks_search_runs: paginated(experimentRunSchema),
+  databricks_create_run: success(experimentRunSchema),
+  databricks_update_run: success(),
+  databricks_delete_run: success(),
+  databricks_log_metric: success(),
+  databricks_log_param: success(),
+  databricks_set_tag: success(),
+  databricks_list_models: paginated(registeredModelSchema),
+  databricks_get_model: registeredModelSchema,
+  databricks_create_model: success(registeredModelSchema),
+  databricks_delete_model: success(),
+  databricks_list_model_versions: paginated(modelVersionSchema, { model: z.string() }),
+  databricks_get_model_version: modelVersionSchema,
+  databricks_delete_model_version: success(),
+
+  // Secrets
+  databricks_list_secret_scopes: paginated(secretScopeSchema),
+  databricks_create_secret_scope: success(),
+  databricks_delete_secret_scope: success(),
+  databricks_list_secrets: paginated(secretMetadataSchema, { scope: z.string() }),
+  databricks_put_secret: success(),
+  databricks_delete_secret: success(),
+  databricks_list_secret_acls: paginated(secretAclSchema, { scope: z.string() }),
+  databricks_get_secret_acl: secretAclSchema,
+  databricks_put_secret_acl: success(),
+  databricks_delete_secret_acl: success(),
+
+  // Repos
+  databricks_list_repos: paginated(repoSchema),
+  databricks_get_repo: repoSchema,
+  databricks_create_repo: success(repoSchema),
+  databricks_update_repo: success(repoSchema),
+  databricks_delete_repo: success(),
+  databricks_list_git_credentials: paginated(gitCredentialSchema),
+  databricks_create_git_credential: success(gitCredentialSchema),
+  databricks_delete_git_credential: success(),
+
+  // Pipelines
+  databricks_list_pipelines: paginated(pipelineSchema),
+  databricks_get_pipeline: pipelineSchema,
+  databricks_create_pipeline: success(z.looseObject({ pipeline_id: z.string() })),
+  databricks_update_pipeline: success(),
+  databricks_delete_pipeline: success(),
+  databricks_start_pipeline: success(
+    z.looseObject({ update_id: z.string(), ...waitFields(pipelineSchema) })
+  ),
+  databricks_stop_pipeline: success(),
+
+  // Instance pools
+  databricks_list_instance_pools: paginated(instancePoolSchema),
+  databricks_get_instance_pool: instancePoolSchema,
+  databricks_create_instance_pool: success(z.looseObject({ instance_pool_id: z.string() })),
+  databricks_edit_instance_pool: success(),
+  databricks_delete_instance_pool: success(),
+
+  // Tokens
+  databricks_list_tokens: paginated(tokenInfoSchema),
+  databricks_create_token: success(
+    z.looseObject({
+      token_value: z.string(),
+      token_info: tokenInfoSchema,
+      one_time_values: z
+        .array(z.string())
+        .describe('Fields shown only once; store them and do not repeat them'),
+    })
+  ),
+  databricks_revoke_token: success(),
+};
+
+/**
+ * Wrap a server so every tool registered through it declares its output schema
+ */
+export function declareOutputSchemas(server: McpServer): McpServer {
+  return decorateTools(server, (name, registered) => {
+    const schema = TOOL_OUTPUT_SCHEMAS[name];
+    if (schema) {
+      registered.outputSchema = schema;
+    }
+  });
+}
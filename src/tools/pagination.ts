@@ -0,0 +1,17 @@
+/**
+ * Pagination Parameters
+ *
+ * Input parameters shared by every list tool.
+ */
+
+import { z } from 'zod';
+
+export const paginationParams = {
+  pageSize: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Items per page (defaults to the server page size, capped at its maximum)'),
+  cursor: z.string().optional().describe('next_cursor from the previous page'),
+};
@@ -8,6 +8,11 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
+import { describeWait, waitForState, waitParams } from './wait.js';
+
+/** Pipeline update states in which waiting for an update ends */
+const UPDATE_FINAL_STATES = new Set(['COMPLETED', 'FAILED', 'CANCELED']);
 
 /**
  * Register all pipelines-related tools
@@ -21,21 +26,21 @@ export function registerPipelinesTools(server: McpServer, client: DatabricksClie
     `List Delta Live Tables pipelines.
 
 Args:
-  - maxResults: (Optional) Maximum pipelines to return
-  - pageToken: (Optional) Pagination token
   - filter: (Optional) Filter expression
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of pipelines.`,
+  List of pipelines.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
-      maxResults: z.number().int().min(1).max(100).optional().describe('Maximum results'),
-      pageToken: z.string().optional().describe('Pagination token'),
       filter: z.string().optional().describe('Filter expression'),
+      ...paginationParams,
     },
-    async ({ maxResults, pageToken, filter }) => {
+    async ({ filter, pageSize, cursor }) => {
       try {
-        const result = await client.listPipelines({ maxResults, pageToken, filter });
-        return formatResponse({ pipelines: result.statuses, count: result.statuses.length, next_page_token: result.next_page_token });
+        const page = await client.listPipelines({ filter, pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -158,16 +163,36 @@ Returns:
 Args:
   - pipelineId: Pipeline ID
   - fullRefresh: (Optional) Perform a full refresh (default: false)
+  - wait: (Optional) Wait until the update finishes, reporting progress
+  - timeoutSeconds: (Optional) Most seconds to wait (default: 600)
 
 Returns:
-  Update ID.`,
+  Update ID. With wait, the final update state and the pipeline details.`,
     {
       pipelineId: z.string().describe('Pipeline ID'),
       fullRefresh: z.boolean().optional().describe('Perform full refresh'),
+      ...waitParams,
     },
-    async ({ pipelineId, fullRefresh }) => {
+    async ({ pipelineId, fullRefresh, wait, timeoutSeconds }, extra) => {
       try {
         const result = await client.startPipelineUpdate(pipelineId, { fullRefresh });
+        if (wait) {
+          const label = `Pipeline update ${result.update_id}`;
+          const waited = await waitForState(extra, {
+            label,
+            fetch: () => client.getPipeline(pipelineId),
+            // The update is listed once the pipeline has picked it up
+            state: (pipeline) =>
+              pipeline.latest_updates?.find((update) => update.update_id === result.update_id)
+                ?.state ?? 'QUEUED',
+            final: UPDATE_FINAL_STATES,
+            timeoutSeconds,
+          });
+          return formatSuccess(describeWait(label, waited, 'databricks_get_pipeline'), {
+            ...result,
+            ...waited,
+          });
+        }
         return formatSuccess('Pipeline update started', result);
       } catch (error) {
         return formatError(error);
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import { createRateLimiter } from '../rate-limits.js';
+import type { Env } from '../types/env.js';
+import { formatResponse } from '../utils/formatters.js';
+import { limitToolRate } from './rate-limit.js';
+
+/**
+ * Client for a server with databricks_start_cluster, limited to one start a day. Each call
+ * runs until `finish` is called.
+ */
+async function connect(host: string): Promise<{ client: Client; finish: () => void }> {
+  const server = new McpServer({ name: 'test', version: '1.0.0' });
+  const limiter = createRateLimiter({ RATE_LIMITS: 'compute=1/day' } as Env, {
+    host,
+    clientId: 'sp',
+    clientSecret: 'secret',
+  });
+  const running: (() => void)[] = [];
+  limitToolRate(server, limiter).tool(
+    'databricks_start_cluster',
+    'Start a cluster',
+    {},
+    async () => {
+      await new Promise<void>((resolve) => running.push(resolve));
+      return formatResponse({ started: true });
+    }
+  );
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '1.0.0' });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return {
+    client,
+    finish: () => {
+      for (const resolve of running.splice(0)) {
+        resolve();
+      }
+    },
+  };
+}
+
+function errorCode(result: Awaited<ReturnType<Client['callTool']>>): string | undefined {
+  const [content] = result.content as { text: string }[];
+  return JSON.parse(content.text).details?.code;
+}
+
+describe('limitToolRate', () => {
+  it('counts a call while it is still running', async () => {
+    const { client, finish } = await connect('https://rate-limit-1.cloud.databricks.com');
+    const first = client.callTool({ name: 'databricks_start_cluster', arguments: {} });
+    const second = await client.callTool({ name: 'databricks_start_cluster', arguments: {} });
+    assert.equal(errorCode(second), 'TENANT_RATE_LIMITED');
+
+    finish();
+    assert.equal((await first).isError, undefined);
+    await client.close();
+  });
+
+  it('counts prompt requests and refuses them over the limit', async () => {
+    const server = new McpServer({ name: 'test', version: '1.0.0' });
+    const limiter = createRateLimiter({ RATE_LIMITS: 'sql=1/day' } as Env, {
+      host: 'https://rate-limit-2.cloud.databricks.com',
+      token: 'dapi-1',
+    });
+    limitToolRate(server, limiter).registerPrompt(
+      'optimize_sql_query',
+      { argsSchema: { query: z.string() } },
+      ({ query }) => ({ messages: [{ role: 'user', content: { type: 'text', text: query } }] })
+    );
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    const request = { name: 'optimize_sql_query', arguments: { query: 'SELECT 1' } };
+    assert.equal((await client.getPrompt(request)).messages.length, 1);
+    await assert.rejects(client.getPrompt(request), /Rate limit reached/);
+    await client.close();
+  });
+});
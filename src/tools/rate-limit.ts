@@ -0,0 +1,149 @@
+/**
+ * Rate Limiting of Tool Calls
+ *
+ * Counts every tool call and prompt request against the tenant's limit for its category
+ * (see src/rate-limits.ts) before it runs, and holds a concurrency slot for every SQL
+ * statement until it is seen to finish. Calls over a limit fail with TENANT_RATE_LIMITED and
+ * say when to retry.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RateLimitCategory, RateLimiter } from '../rate-limits.js';
+import { isStatementInFlight } from '../session.js';
+import { randomToken } from '../utils/crypto.js';
+import { formatError, type ToolResponse } from '../utils/formatters.js';
+import { wrapPrompts, wrapTools } from './filter.js';
+import { getToolSafety } from './registry.js';
+
+/**
+ * Tools counted in a category of their own rather than as reads or writes
+ */
+const TOOL_CATEGORIES: Record<string, RateLimitCategory> = {
+  databricks_execute_sql: 'sql',
+  databricks_create_cluster: 'compute',
+  databricks_start_cluster: 'compute',
+  databricks_restart_cluster: 'compute',
+  databricks_start_warehouse: 'compute',
+  databricks_create_instance_pool: 'compute',
+  databricks_run_job: 'runs',
+  databricks_start_pipeline: 'runs',
+};
+
+/**
+ * Prompts counted in a category of their own rather than as reads (they only fetch data)
+ */
+const PROMPT_CATEGORIES: Record<string, RateLimitCategory> = {
+  optimize_sql_query: 'sql',
+};
+
+/**
+ * The category a tool call counts against; undefined for tools that never reach the
+ * workspace (session and continuation tools)
+ */
+export function getRateLimitCategory(name: string): RateLimitCategory | undefined {
+  const category = TOOL_CATEGORIES[name];
+  if (category) {
+    return category;
+  }
+  const safety = getToolSafety(name);
+  if (!safety?.openWorld) {
+    return undefined;
+  }
+  return safety.safety === 'read' ? 'read' : 'write';
+}
+
+/**
+ * Statement ID and state from a statement response, when the call succeeded
+ */
+function statementOf(result: unknown): { id?: string; inFlight: boolean } | undefined {
+  const response = result as ToolResponse | undefined;
+  if (!response || response.isError) {
+    return undefined;
+  }
+  const statement = response.structuredContent as
+    | { statement_id?: string; status?: { state?: string } }
+    | undefined;
+  return {
+    id: statement?.statement_id,
+    inFlight: isStatementInFlight(statement?.status?.state),
+  };
+}
+
+/**
+ * Wrap a server so every tool call and prompt request is checked against the tenant's rate
+ * limits.
+ *
+ * Register it outermost (wrap the server last) so the statement tools see the handler's
+ * own result, before it is cut to CHARACTER_LIMIT. Dry runs and calls that wait for
+ * confirmation do not reach it and are not counted.
+ */
+export function limitToolRate(server: McpServer, limiter: RateLimiter): McpServer {
+  const limited = wrapTools(server, (name, handler) => {
+    const category = getRateLimitCategory(name);
+
+    if (name === 'databricks_execute_sql') {
+      return async (...args) => {
+        // Hold a slot while the statement is submitted; keep it if it is still running
+        const pending = `pending-${randomToken(8)}`;
+        try {
+          await limiter.startStatement(pending);
+        } catch (error) {
+          return formatError(error);
+        }
+        try {
+          await limiter.consume('sql');
+        } catch (error) {
+          await limiter.finishStatement(pending);
+          return formatError(error);
+        }
+        let result: unknown;
+        try {
+          result = await handler(...args);
+        } finally {
+          await limiter.finishStatement(pending);
+        }
+        const statement = statementOf(result);
+        if (statement?.id && statement.inFlight) {
+          // The statement is already running, so it keeps the slot even over the cap
+          await limiter.startStatement(statement.id, { force: true });
+        }
+        return result;
+      };
+    }
+
+    if (name === 'databricks_get_sql_status' || name === 'databricks_cancel_sql') {
+      return async (...args) => {
+        try {
+          await limiter.consume(category ?? 'read');
+        } catch (error) {
+          return formatError(error);
+        }
+        const result = await handler(...args);
+        const statement = statementOf(result);
+        if (statement && (name === 'databricks_cancel_sql' || !statement.inFlight)) {
+          const { statementId } = args[0] as { statementId: string };
+          await limiter.finishStatement(statementId);
+        }
+        return result;
+      };
+    }
+
+    if (!category) {
+      return handler;
+    }
+    return async (...args) => {
+      try {
+        await limiter.consume(category);
+      } catch (error) {
+        return formatError(error);
+      }
+      return handler(...args);
+    };
+  });
+
+  // A prompt over a limit throws, which the client receives as a JSON-RPC error
+  return wrapPrompts(limited, (name, handler) => async (...args) => {
+    await limiter.consume(PROMPT_CATEGORIES[name] ?? 'read');
+    return handler(...args);
+  });
+}
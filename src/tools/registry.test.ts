@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isReadOnlyTool } from './registry.js';
+
+describe('isReadOnlyTool', () => {
+  it('keeps reads, session tools and SQL queries in read-only mode', () => {
+    assert.equal(isReadOnlyTool('databricks_list_clusters'), true);
+    assert.equal(isReadOnlyTool('databricks_set_session_context'), true);
+    assert.equal(isReadOnlyTool('databricks_execute_sql'), true);
+  });
+
+  it('leaves out tools that change the workspace and unknown tools', () => {
+    assert.equal(isReadOnlyTool('databricks_delete_catalog'), false);
+    assert.equal(isReadOnlyTool('databricks_start_cluster'), false);
+    assert.equal(isReadOnlyTool('databricks_unknown_tool'), false);
+  });
+});
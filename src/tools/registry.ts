@@ -0,0 +1,249 @@
+/**
+ * Tool Registry
+ *
+ * Central record of every tool's safety class. The MCP tool annotations (readOnlyHint,
+ * destructiveHint, idempotentHint, openWorldHint) are derived from it, and server features
+ * such as read-only mode query it instead of relying on tool naming.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js';
+import { decorateTools } from './filter.js';
+
+// =============================================================================
+// Safety Classes
+// =============================================================================
+
+/**
+ * How a tool affects its environment:
+ *
+ * - read: only reads from the workspace
+ * - session: only changes this server's session state, never the workspace
+ * - additive: creates or starts things in the workspace without losing existing state
+ * - destructive: deletes, overwrites, stops or cancels existing workspace state
+ */
+export type ToolSafetyClass = 'read' | 'session' | 'additive' | 'destructive';
+
+export interface ToolSafety {
+  safety: ToolSafetyClass;
+
+  /** Repeating the call with the same arguments has no further effect */
+  idempotent: boolean;
+
+  /** The tool talks to the Databricks workspace (false for purely local tools) */
+  openWorld: boolean;
+}
+
+const READ: ToolSafety = { safety: 'read', idempotent: true, openWorld: true };
+const LOCAL_READ: ToolSafety = { safety: 'read', idempotent: true, openWorld: false };
+const SESSION: ToolSafety = { safety: 'session', idempotent: true, openWorld: false };
+const ADDITIVE: ToolSafety = { safety: 'additive', idempotent: false, openWorld: true };
+const ADDITIVE_IDEMPOTENT: ToolSafety = { safety: 'additive', idempotent: true, openWorld: true };
+const DESTRUCTIVE: ToolSafety = { safety: 'destructive', idempotent: true, openWorld: true };
+const DESTRUCTIVE_NON_IDEMPOTENT: ToolSafety = {
+  safety: 'destructive',
+  idempotent: false,
+  openWorld: true,
+};
+
+/**
+ * Safety class of every tool, keyed by tool name
+ */
+const TOOL_SAFETY: Record<string, ToolSafety> = {
+  // Connection, session and continuation
+  databricks_test_connection: READ,
+  databricks_get_session_context: LOCAL_READ,
+  databricks_set_session_context: SESSION,
+  databricks_get_more_results: LOCAL_READ,
+
+  // SQL (arbitrary statements may modify or drop data)
+  databricks_execute_sql: DESTRUCTIVE_NON_IDEMPOTENT,
+  databricks_get_sql_status: READ,
+  databricks_get_sql_result_chunk: READ,
+  databricks_cancel_sql: DESTRUCTIVE,
+  databricks_list_warehouses: READ,
+  databricks_get_warehouse: READ,
+  databricks_start_warehouse: ADDITIVE_IDEMPOTENT,
+  databricks_stop_warehouse: DESTRUCTIVE,
+
+  // Jobs
+  databricks_list_jobs: READ,
+  databricks_get_job: READ,
+  databricks_create_job: ADDITIVE,
+  databricks_update_job: DESTRUCTIVE,
+  databricks_delete_job: DESTRUCTIVE,
+  databricks_run_job: ADDITIVE,
+  databricks_list_runs: READ,
+  databricks_get_run: READ,
+  databricks_get_run_output: READ,
+  databricks_cancel_run: DESTRUCTIVE,
+  databricks_cancel_all_runs: DESTRUCTIVE,
+
+  // Clusters
+  databricks_list_clusters: READ,
+  databricks_get_cluster: READ,
+  databricks_create_cluster: ADDITIVE,
+  databricks_start_cluster: ADDITIVE_IDEMPOTENT,
+  databricks_restart_cluster: DESTRUCTIVE_NON_IDEMPOTENT,
+  databricks_terminate_cluster: DESTRUCTIVE,
+  databricks_delete_cluster: DESTRUCTIVE,
+  databricks_list_cluster_events: READ,
+  databricks_pin_cluster: ADDITIVE_IDEMPOTENT,
+  databricks_unpin_cluster: ADDITIVE_IDEMPOTENT,
+
+  // Workspace
+  databricks_list_workspace: READ,
+  databricks_get_workspace_status: READ,
+  databricks_mkdirs: ADDITIVE_IDEMPOTENT,
+  databricks_delete_workspace: DESTRUCTIVE,
+  databricks_import_notebook: DESTRUCTIVE,
+  databricks_export_notebook: READ,
+
+  // DBFS
+  databricks_list_dbfs: READ,
+  databricks_get_dbfs_status: READ,
+  databricks_mkdirs_dbfs: ADDITIVE_IDEMPOTENT,
+  databricks_delete_dbfs: DESTRUCTIVE,
+  databricks_read_dbfs: READ,
+  databricks_put_dbfs: DESTRUCTIVE,
+  databricks_move_dbfs: DESTRUCTIVE_NON_IDEMPOTENT,
+
+  // Unity Catalog
+  databricks_list_catalogs: READ,
+  databricks_get_catalog: READ,
+  databricks_create_catalog: ADDITIVE,
+  databricks_delete_catalog: DESTRUCTIVE,
+  databricks_list_schemas: READ,
+  databricks_get_schema: READ,
+  databricks_create_schema: ADDITIVE,
+  databricks_delete_schema: DESTRUCTIVE,
+  databricks_list_tables: READ,
+  databricks_get_table: READ,
+  databricks_delete_table: DESTRUCTIVE,
+  databricks_list_volumes: READ,
+  databricks_get_volume: READ,
+  databricks_create_volume: ADDITIVE,
+  databricks_delete_volume: DESTRUCTIVE,
+  databricks_list_functions: READ,
+  databricks_get_function: READ,
+
+  // MLflow
+  databricks_list_experiments: READ,
+  databricks_get_experiment: READ,
+  databricks_get_experiment_by_name: READ,
+  databricks_create_experiment: ADDITIVE,
+  databricks_delete_experiment: DESTRUCTIVE,
+  databricks_restore_experiment: ADDITIVE_IDEMPOTENT,
+  databricks_search_runs: READ,
+  databricks_create_run: ADDITIVE,
+  databricks_update_run: DESTRUCTIVE,
+  databricks_delete_run: DESTRUCTIVE,
+  databricks_log_metric: ADDITIVE,
+  databricks_log_param: ADDITIVE_IDEMPOTENT,
+  databricks_set_tag: DESTRUCTIVE,
+  databricks_list_models: READ,
+  databricks_get_model: READ,
+  databricks_create_model: ADDITIVE,
+  databricks_delete_model: DESTRUCTIVE,
+  databricks_list_model_versions: READ,
+  databricks_get_model_version: READ,
+  databricks_delete_model_version: DESTRUCTIVE,
+
+  // Secrets
+  databricks_list_secret_scopes: READ,
+  databricks_create_secret_scope: ADDITIVE,
+  databricks_delete_secret_scope: DESTRUCTIVE,
+  databricks_list_secrets: READ,
+  databricks_put_secret: DESTRUCTIVE,
+  databricks_delete_secret: DESTRUCTIVE,
+  databricks_list_secret_acls: READ,
+  databricks_get_secret_acl: READ,
+  databricks_put_secret_acl: DESTRUCTIVE,
+  databricks_delete_secret_acl: DESTRUCTIVE,
+
+  // Repos
+  databricks_list_repos: READ,
+  databricks_get_repo: READ,
+  databricks_create_repo: ADDITIVE,
+  databricks_update_repo: DESTRUCTIVE,
+  databricks_delete_repo: DESTRUCTIVE,
+  databricks_list_git_credentials: READ,
+  databricks_create_git_credential: ADDITIVE,
+  databricks_delete_git_credential: DESTRUCTIVE,
+
+  // Pipelines
+  databricks_list_pipelines: READ,
+  databricks_get_pipeline: READ,
+  databricks_create_pipeline: ADDITIVE,
+  databricks_update_pipeline: DESTRUCTIVE,
+  databricks_delete_pipeline: DESTRUCTIVE,
+  databricks_start_pipeline: ADDITIVE,
+  databricks_stop_pipeline: DESTRUCTIVE,
+
+  // Instance pools
+  databricks_list_instance_pools: READ,
+  databricks_get_instance_pool: READ,
+  databricks_create_instance_pool: ADDITIVE,
+  databricks_edit_instance_pool: DESTRUCTIVE,
+  databricks_delete_instance_pool: DESTRUCTIVE,
+
+  // Tokens
+  databricks_list_tokens: READ,
+  databricks_create_token: ADDITIVE,
+  databricks_revoke_token: DESTRUCTIVE,
+};
+
+// =============================================================================
+// Queries
+// =============================================================================
+
+/**
+ * Safety class of a tool, or undefined for unknown tools
+ */
+export function getToolSafety(name: string): ToolSafety | undefined {
+  return TOOL_SAFETY[name];
+}
+
+/**
+ * Tools kept in read-only mode although they can change the workspace, because the client
+ * checks each call: databricks_execute_sql only runs single pure queries there
+ * (see isReadOnlyStatement)
+ */
+const READ_ONLY_CHECKED_TOOLS = new Set(['databricks_execute_sql']);
+
+/**
+ * Whether a tool may be exposed in read-only mode: it never changes the workspace, or the
+ * client refuses its mutating calls. Unknown tools are treated as mutating.
+ */
+export function isReadOnlyTool(name: string): boolean {
+  const safety = getToolSafety(name)?.safety;
+  return safety === 'read' || safety === 'session' || READ_ONLY_CHECKED_TOOLS.has(name);
+}
+
+/**
+ * MCP annotations for a tool, derived from its safety class
+ */
+export function getToolAnnotations(name: string): ToolAnnotations | undefined {
+  const tool = getToolSafety(name);
+  if (!tool) {
+    return undefined;
+  }
+  return {
+    readOnlyHint: tool.safety === 'read',
+    destructiveHint: tool.safety === 'destructive',
+    idempotentHint: tool.idempotent,
+    openWorldHint: tool.openWorld,
+  };
+}
+
+/**
+ * Wrap a server so every tool registered through it carries its annotations
+ */
+export function annotateTools(server: McpServer): McpServer {
+  return decorateTools(server, (name, registered) => {
+    const annotations = getToolAnnotations(name);
+    if (annotations) {
+      registered.annotations = { ...registered.annotations, ...annotations };
+    }
+  });
+}
@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all repos-related tools
@@ -23,18 +24,20 @@ export function registerReposTools(server: McpServer, client: DatabricksClient):
 
 Args:
   - pathPrefix: (Optional) Filter by path prefix
-  - pageToken: (Optional) Pagination token
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of repos.`,
+  List of repos.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       pathPrefix: z.string().optional().describe('Filter by path prefix'),
-      pageToken: z.string().optional().describe('Pagination token'),
+      ...paginationParams,
     },
-    async ({ pathPrefix, pageToken }) => {
+    async ({ pathPrefix, pageSize, cursor }) => {
       try {
-        const result = await client.listRepos({ pathPrefix, nextPageToken: pageToken });
-        return formatResponse({ ...result, count: result.repos.length });
+        const page = await client.listRepos({ pathPrefix, pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -145,13 +148,20 @@ Returns:
     'databricks_list_git_credentials',
     `List Git credentials for the current user.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+
 Returns:
-  List of Git credentials.`,
-    {},
-    async () => {
+  List of Git credentials.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+    },
+    async ({ pageSize, cursor }) => {
       try {
-        const credentials = await client.listGitCredentials();
-        return formatResponse({ credentials, count: credentials.length });
+        const page = await client.listGitCredentials({ pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
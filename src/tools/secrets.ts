@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all secrets-related tools
@@ -21,13 +22,20 @@ export function registerSecretsTools(server: McpServer, client: DatabricksClient
     'databricks_list_secret_scopes',
     `List all secret scopes.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+
 Returns:
-  List of secret scopes.`,
-    {},
-    async () => {
+  List of secret scopes.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+    },
+    async ({ pageSize, cursor }) => {
       try {
-        const scopes = await client.listSecretScopes();
-        return formatResponse({ scopes, count: scopes.length });
+        const page = await client.listSecretScopes({ pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -92,16 +100,20 @@ Note: This lists secret metadata only, not the actual values.
 
 Args:
   - scope: Scope name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of secret keys.`,
+  List of secret keys.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       scope: z.string().describe('Scope name'),
+      ...paginationParams,
     },
-    async ({ scope }) => {
+    async ({ scope, pageSize, cursor }) => {
       try {
-        const secrets = await client.listSecrets(scope);
-        return formatResponse({ secrets, count: secrets.length, scope });
+        const page = await client.listSecrets(scope, { pageSize, cursor });
+        return formatResponse({ ...page, scope });
       } catch (error) {
         return formatError(error);
       }
@@ -168,16 +180,20 @@ Returns:
 
 Args:
   - scope: Scope name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of ACLs.`,
+  List of ACLs.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       scope: z.string().describe('Scope name'),
+      ...paginationParams,
     },
-    async ({ scope }) => {
+    async ({ scope, pageSize, cursor }) => {
       try {
-        const acls = await client.listSecretAcls(scope);
-        return formatResponse({ acls, count: acls.length, scope });
+        const page = await client.listSecretAcls(scope, { pageSize, cursor });
+        return formatResponse({ ...page, scope });
       } catch (error) {
         return formatError(error);
       }
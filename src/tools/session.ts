@@ -0,0 +1,72 @@
+/**
+ * Session Context Tools
+ *
+ * MCP tools for reading and changing the per-session context (default warehouse,
+ * current catalog and schema) used by other tools.
+ */
+
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+import type { SessionStore } from '../session.js';
+import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+
+/**
+ * Register all session context tools
+ */
+export function registerSessionTools(server: McpServer, session: SessionStore): void {
+  // ===========================================================================
+  // Get Session Context
+  // ===========================================================================
+  server.tool(
+    'databricks_get_session_context',
+    `Get the current session context.
+
+Returns:
+  Default warehouse ID, current catalog and schema, and the IDs of SQL statements
+  started in this session that are still running.`,
+    {},
+    async () => {
+      try {
+        return formatResponse(session.get());
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+
+  // ===========================================================================
+  // Set Session Context
+  // ===========================================================================
+  server.tool(
+    'databricks_set_session_context',
+    `Set the default warehouse, catalog and schema for this session.
+
+Values set here are used by SQL tools when the corresponding argument is omitted.
+Pass an empty string to clear a value.
+
+Args:
+  - warehouseId: (Optional) Default SQL warehouse ID
+  - catalog: (Optional) Current catalog
+  - schema: (Optional) Current schema
+
+Returns:
+  The updated session context.`,
+    {
+      warehouseId: z.string().optional().describe('Default SQL warehouse ID'),
+      catalog: z.string().optional().describe('Current catalog'),
+      schema: z.string().optional().describe('Current schema'),
+    },
+    async ({ warehouseId, catalog, schema }) => {
+      try {
+        const changes: Record<string, string | undefined> = {};
+        if (warehouseId !== undefined) changes.warehouseId = warehouseId || undefined;
+        if (catalog !== undefined) changes.catalog = catalog || undefined;
+        if (schema !== undefined) changes.schema = schema || undefined;
+        session.update(changes);
+        return formatSuccess('Session context updated', session.get());
+      } catch (error) {
+        return formatError(error);
+      }
+    }
+  );
+}
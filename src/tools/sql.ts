@@ -7,12 +7,24 @@
 import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
+import { isStatementInFlight, type SessionStore } from '../session.js';
+import { ValidationError } from '../utils/errors.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { cacheParams } from './cache.js';
+import { paginationParams } from './pagination.js';
+import { describeWait, waitForState, waitParams } from './wait.js';
+
+/** Warehouse states in which waiting for a start ends */
+const WAREHOUSE_FINAL_STATES = new Set(['RUNNING', 'STOPPED', 'DELETING', 'DELETED']);
 
 /**
  * Register all SQL-related tools
  */
-export function registerSqlTools(server: McpServer, client: DatabricksClient): void {
+export function registerSqlTools(
+  server: McpServer,
+  client: DatabricksClient,
+  session: SessionStore
+): void {
   // ===========================================================================
   // Execute SQL Statement
   // ===========================================================================
@@ -24,17 +36,17 @@ The statement will be executed and results returned inline if they complete with
 For long-running queries, use databricks_get_sql_status to poll for completion.
 
 Args:
-  - warehouseId: SQL warehouse ID to execute on
+  - warehouseId: (Optional) SQL warehouse ID to execute on (default: session warehouse)
   - statement: SQL statement to execute
-  - catalog: (Optional) Default catalog for the statement
-  - schema: (Optional) Default schema for the statement
+  - catalog: (Optional) Default catalog for the statement (default: session catalog)
+  - schema: (Optional) Default schema for the statement (default: session schema)
   - waitTimeout: (Optional) Time to wait for results (e.g., "50s", default: "50s")
   - format: (Optional) Result format: JSON_ARRAY, CSV, or ARROW_STREAM
 
 Returns:
   Statement ID and status. If completed, includes result data.`,
     {
-      warehouseId: z.string().describe('SQL warehouse ID'),
+      warehouseId: z.string().optional().describe('SQL warehouse ID'),
       statement: z.string().describe('SQL statement to execute'),
       catalog: z.string().optional().describe('Default catalog'),
       schema: z.string().optional().describe('Default schema'),
@@ -43,12 +55,23 @@ Returns:
     },
     async ({ warehouseId, statement, catalog, schema, waitTimeout, format }) => {
       try {
-        const result = await client.executeStatement(warehouseId, statement, {
-          catalog,
-          schema,
+        const context = session.get();
+        const targetWarehouseId = warehouseId || context.warehouseId;
+        if (!targetWarehouseId) {
+          throw new ValidationError(
+            'No warehouseId provided and no default warehouse set for this session. ' +
+              'Pass warehouseId or call databricks_set_session_context.'
+          );
+        }
+        const result = await client.executeStatement(targetWarehouseId, statement, {
+          catalog: catalog || context.catalog,
+          schema: schema || context.schema,
           waitTimeout,
           format,
         });
+        if (isStatementInFlight(result.status?.state)) {
+          session.trackStatement(result.statement_id);
+        }
         return formatResponse(result);
       } catch (error) {
         return formatError(error);
@@ -76,6 +99,9 @@ Returns:
     async ({ statementId }) => {
       try {
         const result = await client.getStatementStatus(statementId);
+        if (!isStatementInFlight(result.status?.state)) {
+          session.untrackStatement(statementId);
+        }
         return formatResponse(result);
       } catch (error) {
         return formatError(error);
@@ -130,6 +156,7 @@ Returns:
     async ({ statementId }) => {
       try {
         await client.cancelStatement(statementId);
+        session.untrackStatement(statementId);
         return formatSuccess(`Statement ${statementId} cancelled`);
       } catch (error) {
         return formatError(error);
@@ -144,13 +171,22 @@ Returns:
     'databricks_list_warehouses',
     `List all SQL warehouses in the workspace.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
+
 Returns:
-  List of SQL warehouses with their status and configuration.`,
-    {},
-    async () => {
+  List of SQL warehouses with their status and configuration.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+      ...cacheParams,
+    },
+    async ({ pageSize, cursor, noCache }) => {
       try {
-        const warehouses = await client.listWarehouses();
-        return formatResponse({ warehouses, count: warehouses.length });
+        const page = await client.listWarehouses({ pageSize, cursor, noCache });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -191,15 +227,29 @@ Returns:
 
 Args:
   - warehouseId: SQL warehouse ID to start
+  - wait: (Optional) Wait until the warehouse is running, reporting progress
+  - timeoutSeconds: (Optional) Most seconds to wait (default: 600)
 
 Returns:
-  Confirmation that the warehouse is starting.`,
+  Confirmation that the warehouse is starting. With wait, its final state and details.`,
     {
       warehouseId: z.string().describe('SQL warehouse ID'),
+      ...waitParams,
     },
-    async ({ warehouseId }) => {
+    async ({ warehouseId, wait, timeoutSeconds }, extra) => {
       try {
         await client.startWarehouse(warehouseId);
+        if (wait) {
+          const label = `SQL warehouse ${warehouseId}`;
+          const result = await waitForState(extra, {
+            label,
+            fetch: () => client.getWarehouse(warehouseId),
+            state: (warehouse) => warehouse.state,
+            final: WAREHOUSE_FINAL_STATES,
+            timeoutSeconds,
+          });
+          return formatSuccess(describeWait(label, result, 'databricks_get_warehouse'), result);
+        }
         return formatSuccess(`SQL warehouse ${warehouseId} is starting`);
       } catch (error) {
         return formatError(error);
@@ -8,6 +8,8 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { markOneTime } from '../utils/redact.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all tokens-related tools
@@ -20,13 +22,20 @@ export function registerTokensTools(server: McpServer, client: DatabricksClient)
     'databricks_list_tokens',
     `List all personal access tokens for the current user.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+
 Returns:
-  List of token metadata (not the actual token values).`,
-    {},
-    async () => {
+  List of token metadata (not the actual token values).
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+    },
+    async ({ pageSize, cursor }) => {
       try {
-        const tokens = await client.listTokens();
-        return formatResponse({ tokens, count: tokens.length });
+        const page = await client.listTokens({ pageSize, cursor });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -53,7 +62,10 @@ Returns:
     async ({ comment, lifetimeSeconds }) => {
       try {
         const result = await client.createToken(comment, lifetimeSeconds);
-        return formatSuccess('Token created (save the token_value - it will not be shown again)', result);
+        return formatSuccess(
+          'Token created. token_value is a one-time value: save it now, it will not be shown again',
+          markOneTime(result, ['token_value'])
+        );
       } catch (error) {
         return formatError(error);
       }
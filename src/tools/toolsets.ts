@@ -0,0 +1,140 @@
+/**
+ * Toolsets
+ *
+ * Maps toolset names to the register*Tools functions so clients can shrink the tool list,
+ * e.g. `X-Databricks-Toolsets: sql,unity_catalog,jobs`.
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { DatabricksClient } from '../client.js';
+import type { SessionStore } from '../session.js';
+import { ValidationError } from '../utils/errors.js';
+import { registerClusterTools } from './clusters.js';
+import { registerDbfsTools } from './dbfs.js';
+import { decorateTools } from './filter.js';
+import { registerInstancePoolsTools } from './instance-pools.js';
+import { registerJobTools } from './jobs.js';
+import { registerMlflowTools } from './mlflow.js';
+import { registerPipelinesTools } from './pipelines.js';
+import { registerReposTools } from './repos.js';
+import { registerSecretsTools } from './secrets.js';
+import { registerSqlTools } from './sql.js';
+import { registerTokensTools } from './tokens.js';
+import { registerUnityCatalogTools } from './unity-catalog.js';
+import { registerWorkspaceTools } from './workspace.js';
+
+type ToolsetRegistrar = (
+  server: McpServer,
+  client: DatabricksClient,
+  session: SessionStore
+) => void;
+
+/**
+ * Every selectable toolset, in registration order
+ */
+export const TOOLSETS = {
+  sql: registerSqlTools,
+  jobs: (server, client) => registerJobTools(server, client),
+  clusters: (server, client) => registerClusterTools(server, client),
+  workspace: (server, client) => registerWorkspaceTools(server, client),
+  dbfs: (server, client) => registerDbfsTools(server, client),
+  unity_catalog: (server, client) => registerUnityCatalogTools(server, client),
+  mlflow: (server, client) => registerMlflowTools(server, client),
+  secrets: (server, client) => registerSecretsTools(server, client),
+  repos: (server, client) => registerReposTools(server, client),
+  pipelines: (server, client) => registerPipelinesTools(server, client),
+  instance_pools: (server, client) => registerInstancePoolsTools(server, client),
+  tokens: (server, client) => registerTokensTools(server, client),
+} satisfies Record<string, ToolsetRegistrar>;
+
+export type ToolsetName = keyof typeof TOOLSETS;
+
+export const TOOLSET_NAMES = Object.keys(TOOLSETS) as ToolsetName[];
+
+/**
+ * The toolset that registers each tool, found by registering every toolset on a scratch
+ * server. Tools outside the toolsets (session, continuation, connection) are not listed.
+ */
+export function getToolsetsByTool(
+  client: DatabricksClient,
+  session: SessionStore
+): Map<string, ToolsetName> {
+  const scratch = new McpServer({ name: 'toolsets', version: '0.0.0' });
+  const toolsets = new Map<string, ToolsetName>();
+  for (const name of TOOLSET_NAMES) {
+    const recording = decorateTools(scratch, (tool) => toolsets.set(tool, name));
+    TOOLSETS[name](recording, client, session);
+  }
+  return toolsets;
+}
+
+// =============================================================================
+// Tool Selection
+// =============================================================================
+
+export interface ToolSelection {
+  /** Toolsets to register; all toolsets when omitted */
+  toolsets?: ToolsetName[];
+
+  /** Individual tool names to register even if their toolset is not selected */
+  include?: string[];
+
+  /** Individual tool names to leave out */
+  exclude?: string[];
+}
+
+function parseList(value: string | null): string[] | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const items = value
+    .split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Parse the tool selection from headers or query parameters.
+ *
+ * Headers: X-Databricks-Toolsets, X-Databricks-Include-Tools, X-Databricks-Exclude-Tools
+ * Query:   ?toolsets=, ?include_tools=, ?exclude_tools=
+ */
+export function parseToolSelection(request: Request): ToolSelection {
+  const { headers } = request;
+  const query = new URL(request.url).searchParams;
+
+  const toolsets = parseList(headers.get('X-Databricks-Toolsets') || query.get('toolsets'));
+  const include = parseList(
+    headers.get('X-Databricks-Include-Tools') || query.get('include_tools')
+  );
+  const exclude = parseList(
+    headers.get('X-Databricks-Exclude-Tools') || query.get('exclude_tools')
+  );
+
+  if (toolsets?.includes('all')) {
+    return { include, exclude };
+  }
+
+  const unknown = toolsets?.filter((name) => !(name in TOOLSETS)) ?? [];
+  if (unknown.length > 0) {
+    throw new ValidationError(
+      `Unknown toolset(s): ${unknown.join(', ')}. Available toolsets: ${TOOLSET_NAMES.join(', ')}, all.`
+    );
+  }
+
+  return { toolsets: toolsets as ToolsetName[] | undefined, include, exclude };
+}
+
+/**
+ * Resolve which toolsets are active for a selection.
+ *
+ * With no toolsets and no include list every toolset is active. An include list on its own
+ * acts as an allowlist of individual tools, so no whole toolset is active.
+ */
+export function getActiveToolsets(selection: ToolSelection): ToolsetName[] {
+  if (selection.toolsets) {
+    return TOOLSET_NAMES.filter((name) => selection.toolsets?.includes(name));
+  }
+  return selection.include ? [] : [...TOOLSET_NAMES];
+}
@@ -8,6 +8,8 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { cacheParams } from './cache.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all Unity Catalog-related tools
@@ -21,13 +23,22 @@ export function registerUnityCatalogTools(server: McpServer, client: DatabricksC
     'databricks_list_catalogs',
     `List all catalogs in Unity Catalog.
 
+Args:
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
+
 Returns:
-  List of catalogs with metadata.`,
-    {},
-    async () => {
+  List of catalogs with metadata.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
+    {
+      ...paginationParams,
+      ...cacheParams,
+    },
+    async ({ pageSize, cursor, noCache }) => {
       try {
-        const catalogs = await client.listCatalogs();
-        return formatResponse({ catalogs, count: catalogs.length });
+        const page = await client.listCatalogs({ pageSize, cursor, noCache });
+        return formatResponse(page);
       } catch (error) {
         return formatError(error);
       }
@@ -40,15 +51,17 @@ Returns:
 
 Args:
   - name: Catalog name
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Catalog metadata and properties.`,
     {
       name: z.string().describe('Catalog name'),
+      ...cacheParams,
     },
-    async ({ name }) => {
+    async ({ name, noCache }) => {
       try {
-        const catalog = await client.getCatalog(name);
+        const catalog = await client.getCatalog(name, { noCache });
         return formatResponse(catalog);
       } catch (error) {
         return formatError(error);
@@ -114,16 +127,22 @@ Returns:
 
 Args:
   - catalogName: Catalog name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
-  List of schemas.`,
+  List of schemas.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       catalogName: z.string().describe('Catalog name'),
+      ...paginationParams,
+      ...cacheParams,
     },
-    async ({ catalogName }) => {
+    async ({ catalogName, pageSize, cursor, noCache }) => {
       try {
-        const schemas = await client.listSchemas(catalogName);
-        return formatResponse({ schemas, count: schemas.length, catalog: catalogName });
+        const page = await client.listSchemas(catalogName, { pageSize, cursor, noCache });
+        return formatResponse({ ...page, catalog: catalogName });
       } catch (error) {
         return formatError(error);
       }
@@ -136,15 +155,17 @@ Returns:
 
 Args:
   - fullName: Full schema name (catalog.schema)
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Schema metadata.`,
     {
       fullName: z.string().describe('Full schema name (catalog.schema)'),
+      ...cacheParams,
     },
-    async ({ fullName }) => {
+    async ({ fullName, noCache }) => {
       try {
-        const schema = await client.getSchema(fullName);
+        const schema = await client.getSchema(fullName, { noCache });
         return formatResponse(schema);
       } catch (error) {
         return formatError(error);
@@ -211,17 +232,27 @@ Returns:
 Args:
   - catalogName: Catalog name
   - schemaName: Schema name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
-  List of tables.`,
+  List of tables.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       catalogName: z.string().describe('Catalog name'),
       schemaName: z.string().describe('Schema name'),
+      ...paginationParams,
+      ...cacheParams,
     },
-    async ({ catalogName, schemaName }) => {
+    async ({ catalogName, schemaName, pageSize, cursor, noCache }) => {
       try {
-        const tables = await client.listTables(catalogName, schemaName);
-        return formatResponse({ tables, count: tables.length, catalog: catalogName, schema: schemaName });
+        const page = await client.listTables(catalogName, schemaName, {
+          pageSize,
+          cursor,
+          noCache,
+        });
+        return formatResponse({ ...page, catalog: catalogName, schema: schemaName });
       } catch (error) {
         return formatError(error);
       }
@@ -234,15 +265,17 @@ Returns:
 
 Args:
   - fullName: Full table name (catalog.schema.table)
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Table metadata including columns.`,
     {
       fullName: z.string().describe('Full table name (catalog.schema.table)'),
+      ...cacheParams,
     },
-    async ({ fullName }) => {
+    async ({ fullName, noCache }) => {
       try {
-        const table = await client.getTable(fullName);
+        const table = await client.getTable(fullName, { noCache });
         return formatResponse(table);
       } catch (error) {
         return formatError(error);
@@ -283,17 +316,27 @@ Returns:
 Args:
   - catalogName: Catalog name
   - schemaName: Schema name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
-  List of volumes.`,
+  List of volumes.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       catalogName: z.string().describe('Catalog name'),
       schemaName: z.string().describe('Schema name'),
+      ...paginationParams,
+      ...cacheParams,
     },
-    async ({ catalogName, schemaName }) => {
+    async ({ catalogName, schemaName, pageSize, cursor, noCache }) => {
       try {
-        const volumes = await client.listVolumes(catalogName, schemaName);
-        return formatResponse({ volumes, count: volumes.length, catalog: catalogName, schema: schemaName });
+        const page = await client.listVolumes(catalogName, schemaName, {
+          pageSize,
+          cursor,
+          noCache,
+        });
+        return formatResponse({ ...page, catalog: catalogName, schema: schemaName });
       } catch (error) {
         return formatError(error);
       }
@@ -306,15 +349,17 @@ Returns:
 
 Args:
   - fullName: Full volume name (catalog.schema.volume)
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Volume metadata.`,
     {
       fullName: z.string().describe('Full volume name (catalog.schema.volume)'),
+      ...cacheParams,
     },
-    async ({ fullName }) => {
+    async ({ fullName, noCache }) => {
       try {
-        const volume = await client.getVolume(fullName);
+        const volume = await client.getVolume(fullName, { noCache });
         return formatResponse(volume);
       } catch (error) {
         return formatError(error);
@@ -390,17 +435,27 @@ Returns:
 Args:
   - catalogName: Catalog name
   - schemaName: Schema name
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
-  List of functions.`,
+  List of functions.
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       catalogName: z.string().describe('Catalog name'),
       schemaName: z.string().describe('Schema name'),
+      ...paginationParams,
+      ...cacheParams,
     },
-    async ({ catalogName, schemaName }) => {
+    async ({ catalogName, schemaName, pageSize, cursor, noCache }) => {
       try {
-        const functions = await client.listFunctions(catalogName, schemaName);
-        return formatResponse({ functions, count: functions.length, catalog: catalogName, schema: schemaName });
+        const page = await client.listFunctions(catalogName, schemaName, {
+          pageSize,
+          cursor,
+          noCache,
+        });
+        return formatResponse({ ...page, catalog: catalogName, schema: schemaName });
       } catch (error) {
         return formatError(error);
       }
@@ -413,15 +468,17 @@ Returns:
 
 Args:
   - fullName: Full function name (catalog.schema.function)
+  - noCache: (Optional) Skip the response cache and read fresh data
 
 Returns:
   Function metadata.`,
     {
       fullName: z.string().describe('Full function name (catalog.schema.function)'),
+      ...cacheParams,
     },
-    async ({ fullName }) => {
+    async ({ fullName, noCache }) => {
       try {
-        const func = await client.getFunction(fullName);
+        const func = await client.getFunction(fullName, { noCache });
         return formatResponse(func);
       } catch (error) {
         return formatError(error);
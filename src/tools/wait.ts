@@ -0,0 +1,159 @@
+/**
+ * Waiting for Long-Running Operations
+ *
+ * Input parameters and polling shared by the tools that start long-running operations
+ * (warehouses, clusters, job runs, pipeline updates). With `wait` set, the tool polls the
+ * resource until it reaches a final state, sends MCP progress notifications as its state
+ * changes, and stops early when the client cancels the request.
+ */
+
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type { ServerNotification, ServerRequest } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+/** Default time to wait for a final state */
+const DEFAULT_WAIT_SECONDS = 600;
+
+/** Longest time a caller may ask to wait */
+const MAX_WAIT_SECONDS = 3600;
+
+/** Delay between polls */
+const POLL_INTERVAL_MS = 5000;
+
+/** Longest gap between progress notifications while the state does not change */
+const HEARTBEAT_MS = 30_000;
+
+export const waitParams = {
+  wait: z
+    .boolean()
+    .optional()
+    .describe('Wait until the operation reaches a final state, reporting progress as it changes'),
+  timeoutSeconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_WAIT_SECONDS)
+    .optional()
+    .describe(`Most seconds to wait when wait is set (default ${DEFAULT_WAIT_SECONDS})`),
+};
+
+/**
+ * Request context passed to tool handlers
+ */
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Outcome of waiting for a resource
+ */
+export interface WaitResult<T> {
+  /** Last observed state */
+  state: string;
+
+  /** True when the timeout passed before a final state was reached */
+  timed_out: boolean;
+
+  waited_seconds: number;
+
+  /** The resource as last fetched */
+  resource: T;
+}
+
+export interface WaitOptions<T> {
+  /** Name of the resource in progress messages, e.g. "Cluster 0123-abc" */
+  label: string;
+
+  fetch: () => Promise<T>;
+
+  /** Current lifecycle state of the resource */
+  state: (resource: T) => string | undefined;
+
+  /** States in which waiting stops */
+  final: ReadonlySet<string>;
+
+  timeoutSeconds?: number;
+}
+
+/**
+ * Resolve after `ms`, or reject as soon as the request is cancelled
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new Error('Cancelled by the client'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Cancelled by the client'));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Poll a resource until it reaches a final state or the timeout passes.
+ *
+ * A progress notification is sent whenever the state changes, and at least every
+ * HEARTBEAT_MS otherwise, when the client asked for progress. `progress` counts elapsed
+ * seconds out of the timeout. Cancelling the request stops the wait with an error.
+ */
+export async function waitForState<T>(
+  extra: ToolExtra,
+  { label, fetch, state, final, timeoutSeconds = DEFAULT_WAIT_SECONDS }: WaitOptions<T>
+): Promise<WaitResult<T>> {
+  const started = Date.now();
+  const deadline = started + timeoutSeconds * 1000;
+  const progressToken = extra._meta?.progressToken;
+  let previous: string | undefined;
+  let lastNotified = 0;
+
+  for (;;) {
+    const resource = await fetch();
+    const current = state(resource) ?? 'UNKNOWN';
+    const now = Date.now();
+    const elapsed = Math.round((now - started) / 1000);
+
+    if (
+      progressToken !== undefined &&
+      (current !== previous || now - lastNotified >= HEARTBEAT_MS)
+    ) {
+      await extra.sendNotification({
+        method: 'notifications/progress',
+        params: {
+          progressToken,
+          progress: elapsed,
+          total: timeoutSeconds,
+          message:
+            previous && current !== previous
+              ? `${label}: ${previous} -> ${current}`
+              : `${label}: ${current} (${elapsed}s)`,
+        },
+      });
+      lastNotified = now;
+    }
+    previous = current;
+
+    if (final.has(current) || now + POLL_INTERVAL_MS > deadline) {
+      return {
+        state: current,
+        timed_out: !final.has(current),
+        waited_seconds: elapsed,
+        resource,
+      };
+    }
+    await delay(POLL_INTERVAL_MS, extra.signal);
+  }
+}
+
+/**
+ * Success message for a wait, e.g. "Cluster x is RUNNING" or a timeout notice
+ */
+export function describeWait(label: string, result: WaitResult<unknown>, check: string): string {
+  return result.timed_out
+    ? `${label} is still ${result.state} after ${result.waited_seconds}s; call ${check} to check again`
+    : `${label} is ${result.state} after ${result.waited_seconds}s`;
+}
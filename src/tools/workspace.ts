@@ -8,6 +8,7 @@ import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
 import type { DatabricksClient } from '../client.js';
 import { formatError, formatResponse, formatSuccess } from '../utils/formatters.js';
+import { paginationParams } from './pagination.js';
 
 /**
  * Register all workspace-related tools
@@ -22,16 +23,20 @@ export function registerWorkspaceTools(server: McpServer, client: DatabricksClie
 
 Args:
   - path: Workspace path (e.g., "/Users/user@example.com")
+  - pageSize: (Optional) Items per page (server default and maximum apply)
+  - cursor: (Optional) next_cursor from the previous page
 
 Returns:
-  List of workspace objects (notebooks, folders, etc.).`,
+  List of workspace objects (notebooks, folders, etc.).
+  Paginated: pass next_cursor back as cursor to fetch the next page.`,
     {
       path: z.string().describe('Workspace path'),
+      ...paginationParams,
     },
-    async ({ path }) => {
+    async ({ path, pageSize, cursor }) => {
       try {
-        const objects = await client.listWorkspace(path);
-        return formatResponse({ objects, count: objects.length, path });
+        const page = await client.listWorkspace(path, { pageSize, cursor });
+        return formatResponse({ ...page, path });
       } catch (error) {
         return formatError(error);
       }
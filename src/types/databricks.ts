@@ -8,11 +8,34 @@
 // Common Types
 // =============================================================================
 
+/**
+ * One page of a list, shared by every list tool
+ */
 export interface PaginatedResponse<T> {
   items: T[];
   count: number;
-  hasMore: boolean;
-  nextPageToken?: string;
+  has_more: boolean;
+  /** Opaque cursor for the next page; pass it back as `cursor` */
+  next_cursor?: string;
+}
+
+/**
+ * Options for reads the client may answer from its response cache
+ */
+export interface ReadOptions {
+  /** Skip the cache and read fresh data (the fresh response is cached) */
+  noCache?: boolean;
+}
+
+/**
+ * Page selection accepted by every list method
+ */
+export interface PageOptions extends ReadOptions {
+  /** Items per page; defaults to DEFAULT_PAGE_SIZE and is capped at MAX_PAGE_SIZE */
+  pageSize?: number;
+
+  /** `next_cursor` from the previous page */
+  cursor?: string;
 }
 
 // =============================================================================
@@ -11,9 +11,19 @@
  * Request Headers:
  * - X-Databricks-Host: Databricks workspace URL (e.g., https://adb-xxx.azuredatabricks.net)
  * - X-Databricks-Token: Personal access token for authentication
+ * - X-Databricks-Client-Id / X-Databricks-Client-Secret: Service principal OAuth credentials
+ *   (alternative to X-Databricks-Token)
+ * - X-Databricks-Azure-Token: Microsoft Entra ID access token (Azure Databricks)
+ * - X-Databricks-Azure-Tenant-Id / X-Databricks-Azure-Client-Id / X-Databricks-Azure-Client-Secret:
+ *   Entra ID service principal, exchanged for an Azure Databricks access token
  * - X-Databricks-Warehouse-Id: (Optional) Default SQL warehouse ID
+ * - X-Databricks-Read-Only: (Optional) "true" to expose only non-mutating tools
  */
 
+import type { AuditLogObject } from '../audit.js';
+import { sha256 } from '../utils/crypto.js';
+import { normalizeWorkspaceHost, parseAllowedHosts } from '../utils/host.js';
+
 // =============================================================================
 // Tenant Credentials (parsed from request headers)
 // =============================================================================
@@ -23,10 +33,41 @@ export interface TenantCredentials {
   host: string;
 
   /** Personal access token (from X-Databricks-Token header) */
-  token: string;
+  token?: string;
+
+  /** Service principal OAuth client ID (from X-Databricks-Client-Id header) */
+  clientId?: string;
+
+  /** Service principal OAuth client secret (from X-Databricks-Client-Secret header) */
+  clientSecret?: string;
+
+  /** Microsoft Entra ID access token (from X-Databricks-Azure-Token header) */
+  azureToken?: string;
+
+  /** Entra ID tenant ID (from X-Databricks-Azure-Tenant-Id header) */
+  azureTenantId?: string;
+
+  /** Entra ID application (client) ID (from X-Databricks-Azure-Client-Id header) */
+  azureClientId?: string;
+
+  /** Entra ID client secret (from X-Databricks-Azure-Client-Secret header) */
+  azureClientSecret?: string;
 
   /** Default SQL warehouse ID (from X-Databricks-Warehouse-Id header) */
   warehouseId?: string;
+
+  /** Block every mutating operation (from X-Databricks-Read-Only header or READ_ONLY env var) */
+  readOnly?: boolean;
+
+  /** OAuth grant the access token was issued for; outlives the hourly access token */
+  subject?: string;
+}
+
+/**
+ * Parse a boolean flag from a header or environment value
+ */
+export function parseBooleanFlag(value: string | null | undefined): boolean {
+  return ['true', '1', 'yes'].includes((value || '').trim().toLowerCase());
 }
 
 /**
@@ -37,23 +78,92 @@ export function parseTenantCredentials(request: Request): TenantCredentials {
 
   return {
     host: headers.get('X-Databricks-Host') || '',
-    token: headers.get('X-Databricks-Token') || '',
+    token: headers.get('X-Databricks-Token') || undefined,
+    clientId: headers.get('X-Databricks-Client-Id') || undefined,
+    clientSecret: headers.get('X-Databricks-Client-Secret') || undefined,
+    azureToken: headers.get('X-Databricks-Azure-Token') || undefined,
+    azureTenantId: headers.get('X-Databricks-Azure-Tenant-Id') || undefined,
+    azureClientId: headers.get('X-Databricks-Azure-Client-Id') || undefined,
+    azureClientSecret: headers.get('X-Databricks-Azure-Client-Secret') || undefined,
     warehouseId: headers.get('X-Databricks-Warehouse-Id') || undefined,
+    readOnly: parseBooleanFlag(headers.get('X-Databricks-Read-Only')),
   };
 }
 
 /**
- * Validate that required credentials are present
+ * Stable, non-reversible identifier of a tenant: a hash of the workspace host and the
+ * credential that authenticates it. Used to key per-tenant state without storing secrets.
+ *
+ * Service principals are identified by their client ID and secret, so knowing a client ID
+ * is not enough to reach its state, and OAuth users by their grant rather than the access
+ * token, which is replaced every hour.
+ */
+export async function getTenantFingerprint(credentials: TenantCredentials): Promise<string> {
+  const identity =
+    (credentials.subject && `grant:${credentials.subject}`) ||
+    credentials.token ||
+    credentials.azureToken ||
+    (credentials.azureClientId &&
+      `${credentials.azureTenantId}:${credentials.azureClientId}:${credentials.azureClientSecret}`) ||
+    (credentials.clientId && `${credentials.clientId}:${credentials.clientSecret}`) ||
+    '';
+  return (await sha256(`${credentials.host}\n${identity}`)).slice(0, 22);
+}
+
+/**
+ * Throw if only part of a multi-header credential set was supplied
  */
-export function validateCredentials(credentials: TenantCredentials): void {
+function requireAll(kind: string, parts: Record<string, string | undefined>): void {
+  const missing = Object.entries(parts)
+    .filter(([, value]) => !value)
+    .map(([header]) => header);
+  if (missing.length > 0) {
+    throw new Error(
+      `Incomplete ${kind} credentials. Missing ${missing.join(', ')} ` +
+        `(requires ${Object.keys(parts).join(', ')}).`
+    );
+  }
+}
+
+/**
+ * Validate that required credentials are present.
+ *
+ * Accepts one of: a personal access token, a Databricks service principal client ID/secret
+ * pair, an Entra ID access token, or an Entra ID service principal (tenant ID, client ID
+ * and client secret).
+ *
+ * The host must be a Databricks workspace domain or match the ALLOWED_HOSTS allowlist; it
+ * is normalized to the workspace origin in place.
+ */
+export function validateCredentials(credentials: TenantCredentials, env: Env): void {
   if (!credentials.host) {
     throw new Error('Missing X-Databricks-Host header. Provide your Databricks workspace URL.');
   }
-  if (!credentials.token) {
-    throw new Error(
-      'Missing X-Databricks-Token header. Provide your Databricks personal access token.'
-    );
+  credentials.host = normalizeWorkspaceHost(credentials.host, getAllowedHosts(env));
+  if (credentials.token || credentials.azureToken) {
+    return;
+  }
+  if (credentials.azureTenantId || credentials.azureClientId || credentials.azureClientSecret) {
+    requireAll('Azure Entra ID service principal', {
+      'X-Databricks-Azure-Tenant-Id': credentials.azureTenantId,
+      'X-Databricks-Azure-Client-Id': credentials.azureClientId,
+      'X-Databricks-Azure-Client-Secret': credentials.azureClientSecret,
+    });
+    return;
   }
+  if (credentials.clientId || credentials.clientSecret) {
+    requireAll('service principal', {
+      'X-Databricks-Client-Id': credentials.clientId,
+      'X-Databricks-Client-Secret': credentials.clientSecret,
+    });
+    return;
+  }
+  throw new Error(
+    'Missing credentials. Provide X-Databricks-Token (personal access token), ' +
+      'X-Databricks-Client-Id and X-Databricks-Client-Secret (service principal), ' +
+      'X-Databricks-Azure-Token (Entra ID token), or X-Databricks-Azure-Tenant-Id, ' +
+      'X-Databricks-Azure-Client-Id and X-Databricks-Azure-Client-Secret (Entra ID service principal).'
+  );
 }
 
 // =============================================================================
@@ -74,16 +184,66 @@ export interface Env {
   /** Maximum page size allowed */
   MAX_PAGE_SIZE: string;
 
+  /** Maximum retries for transient Databricks API failures (default 3) */
+  MAX_RETRIES?: string;
+
+  /** Time budget in milliseconds for a Databricks API call including retries (default 25000) */
+  RETRY_BUDGET_MS?: string;
+
+  /** Time in milliseconds a single Databricks API request may take (default 60000) */
+  REQUEST_TIMEOUT_MS?: string;
+
+  /** Force read-only mode for every tenant ("true" to enable) */
+  READ_ONLY?: string;
+
+  /**
+   * Additional workspace hosts tenants may connect to, comma-separated. Entries are exact
+   * hostnames or domain suffixes (".example.com"). Databricks domains are always allowed.
+   */
+  ALLOWED_HOSTS?: string;
+
+  /**
+   * Per-tenant rate limits, comma-separated, e.g. "sql=60/minute,compute=20/day,
+   * sql_concurrency=5"; "default" applies the recommended limits. Unset for no limits
+   * (see src/rate-limits.ts)
+   */
+  RATE_LIMITS?: string;
+
+  /** "off" disables the read-through cache for slow-changing metadata (see src/cache.ts) */
+  RESPONSE_CACHE?: string;
+
+  /** Days CACHE_KV keeps audit entries when AUDIT_LOG is not bound (default 30) */
+  AUDIT_RETENTION_DAYS?: string;
+
+  /** Bearer token for querying the audit log at /audit (wrangler secret; unset disables it) */
+  AUDIT_ADMIN_TOKEN?: string;
+
+  // ===========================================================================
+  // MCP OAuth (optional - enables browser login instead of credential headers)
+  // ===========================================================================
+
+  /** Client ID of the Databricks OAuth app used for the U2M flow */
+  DATABRICKS_OAUTH_CLIENT_ID?: string;
+
+  /** Client secret of the Databricks OAuth app (omit for public apps) */
+  DATABRICKS_OAUTH_CLIENT_SECRET?: string;
+
+  /** Secret used to encrypt stored Databricks refresh tokens (wrangler secret) */
+  OAUTH_ENCRYPTION_KEY?: string;
+
   // ===========================================================================
   // Bindings
   // ===========================================================================
 
-  /** KV namespace for caching */
+  /** KV namespace for caching and MCP OAuth grants */
   CACHE_KV?: KVNamespace;
 
   /** Durable Object namespace for MCP sessions */
   MCP_SESSIONS?: DurableObjectNamespace;
 
+  /** Durable Object namespace for the audit log (falls back to CACHE_KV, then memory) */
+  AUDIT_LOG?: DurableObjectNamespace<AuditLogObject>;
+
   /** Cloudflare AI binding (optional) */
   AI?: Ai;
 }
@@ -104,6 +264,41 @@ export function getEnvNumber(env: Env, key: keyof Env, defaultValue: number): nu
   return defaultValue;
 }
 
+/**
+ * Whether read-only mode is forced for every tenant by the environment
+ */
+export function isReadOnlyEnv(env: Env): boolean {
+  return parseBooleanFlag(env.READ_ONLY);
+}
+
+/**
+ * Get the operator-configured workspace host allowlist
+ */
+export function getAllowedHosts(env: Env): string[] {
+  return parseAllowedHosts(env.ALLOWED_HOSTS);
+}
+
+/**
+ * Get the maximum number of API retries from environment
+ */
+export function getMaxRetries(env: Env): number {
+  return getEnvNumber(env, 'MAX_RETRIES', 3);
+}
+
+/**
+ * Get the API retry time budget (milliseconds) from environment
+ */
+export function getRetryBudgetMs(env: Env): number {
+  return getEnvNumber(env, 'RETRY_BUDGET_MS', 25_000);
+}
+
+/**
+ * Get the per-request Databricks API timeout (milliseconds) from environment
+ */
+export function getRequestTimeoutMs(env: Env): number {
+  return getEnvNumber(env, 'REQUEST_TIMEOUT_MS', 60_000);
+}
+
 /**
  * Get the character limit from environment
  */
@@ -0,0 +1,457 @@
+/**
+ * Databricks Output Schemas
+ *
+ * Zod schemas for the tool results, declared as MCP output schemas so clients get
+ * `structuredContent` with a known shape.
+ *
+ * Each schema mirrors an interface from databricks.ts and is checked against it at compile
+ * time, so a value of the interface always validates. Only the fields clients commonly rely on
+ * are listed; objects are loose so any other field returned by Databricks passes through, and
+ * enum-like fields are plain strings because Databricks adds new states over time.
+ */
+
+import { z } from 'zod';
+import type {
+  Catalog,
+  Cluster,
+  ClusterEvent,
+  DbfsFileInfo,
+  Experiment,
+  ExperimentRun,
+  GitCredential,
+  InstancePool,
+  Job,
+  ModelVersion,
+  Pipeline,
+  RegisteredModel,
+  Repo,
+  Run,
+  RunState,
+  Schema,
+  SecretAcl,
+  SecretMetadata,
+  SecretScope,
+  SqlWarehouse,
+  StatementResponse,
+  StatementResult,
+  StatementStatus,
+  Table,
+  TableColumn,
+  TokenInfo,
+  Function as UcFunction,
+  Volume,
+  WorkspaceObject,
+} from './databricks.js';
+
+/**
+ * The declared fields of a parsed schema type, without the index signatures that loose
+ * objects add (interfaces are not assignable to index signatures)
+ */
+type DeclaredFields<T> = T extends readonly (infer Item)[]
+  ? DeclaredFields<Item>[]
+  : T extends object
+    ? { [K in keyof T as string extends K ? never : K]: DeclaredFields<T[K]> }
+    : T;
+
+/**
+ * Build a loose object schema from a shape that every value of `T` satisfies.
+ *
+ * Fails to compile when a field's schema does not accept the interface's type, or when a
+ * field is required in the schema but optional in the interface.
+ */
+function outputSchemaFor<T>() {
+  return <Shape extends z.ZodRawShape>(
+    shape: Shape & (T extends DeclaredFields<z.input<z.ZodObject<Shape>>> ? unknown : never)
+  ) => z.looseObject(shape);
+}
+
+const keyValueList = z.array(z.looseObject({ key: z.string(), value: z.string() })).optional();
+
+// =============================================================================
+// SQL Statement Execution
+// =============================================================================
+
+const statementStatusSchema = outputSchemaFor<StatementStatus>()({
+  state: z.string().describe('PENDING, RUNNING, SUCCEEDED, FAILED, CANCELED or CLOSED'),
+  error: z.looseObject({ error_code: z.string(), message: z.string() }).optional(),
+});
+
+export const statementResultSchema = outputSchemaFor<StatementResult>()({
+  chunk_index: z.number().optional(),
+  row_offset: z.number().optional(),
+  row_count: z.number().optional(),
+  data_array: z.array(z.array(z.unknown())).optional().describe('Rows as arrays of values'),
+  external_links: z.array(z.looseObject({})).optional(),
+});
+
+export const statementResponseSchema = outputSchemaFor<StatementResponse>()({
+  statement_id: z.string(),
+  status: statementStatusSchema,
+  manifest: z
+    .looseObject({
+      schema: z
+        .looseObject({
+          column_count: z.number().optional(),
+          columns: z
+            .array(
+              z.looseObject({
+                name: z.string(),
+                type_name: z.string().optional(),
+                type_text: z.string().optional(),
+                position: z.number().optional(),
+              })
+            )
+            .optional(),
+        })
+        .optional(),
+      total_chunk_count: z.number().optional(),
+      total_row_count: z.number().optional(),
+      truncated: z.boolean().optional(),
+    })
+    .optional(),
+  result: statementResultSchema.optional(),
+});
+
+export const sqlWarehouseSchema = outputSchemaFor<SqlWarehouse>()({
+  id: z.string(),
+  name: z.string().optional(),
+  cluster_size: z.string().optional(),
+  state: z.string().optional(),
+  warehouse_type: z.string().optional(),
+  enable_serverless_compute: z.boolean().optional(),
+  auto_stop_mins: z.number().optional(),
+  min_num_clusters: z.number().optional(),
+  max_num_clusters: z.number().optional(),
+  num_clusters: z.number().optional(),
+  creator_name: z.string().optional(),
+});
+
+// =============================================================================
+// Jobs
+// =============================================================================
+
+const runStateSchema = outputSchemaFor<RunState>()({
+  life_cycle_state: z.string().optional(),
+  result_state: z.string().optional(),
+  state_message: z.string().optional(),
+});
+
+export const jobSchema = outputSchemaFor<Job>()({
+  job_id: z.number(),
+  creator_user_name: z.string().optional(),
+  run_as_user_name: z.string().optional(),
+  created_time: z.number().optional(),
+  settings: z
+    .looseObject({
+      name: z.string().optional(),
+      tasks: z.array(z.looseObject({ task_key: z.string() })).optional(),
+      max_concurrent_runs: z.number().optional(),
+      timeout_seconds: z.number().optional(),
+      schedule: z
+        .looseObject({
+          quartz_cron_expression: z.string(),
+          timezone_id: z.string(),
+          pause_status: z.string().optional(),
+        })
+        .optional(),
+    })
+    .optional(),
+});
+
+export const runSchema = outputSchemaFor<Run>()({
+  run_id: z.number(),
+  job_id: z.number().optional(),
+  run_name: z.string().optional(),
+  state: runStateSchema.optional(),
+  tasks: z
+    .array(
+      z.looseObject({ run_id: z.number(), task_key: z.string(), state: runStateSchema.optional() })
+    )
+    .optional(),
+  start_time: z.number().optional(),
+  end_time: z.number().optional(),
+  setup_duration: z.number().optional(),
+  execution_duration: z.number().optional(),
+  cleanup_duration: z.number().optional(),
+  trigger: z.string().optional(),
+  run_type: z.string().optional(),
+  attempt_number: z.number().optional(),
+});
+
+// =============================================================================
+// Clusters
+// =============================================================================
+
+export const clusterSchema = outputSchemaFor<Cluster>()({
+  cluster_id: z.string(),
+  cluster_name: z.string().optional(),
+  spark_version: z.string().optional(),
+  node_type_id: z.string().optional(),
+  driver_node_type_id: z.string().optional(),
+  num_workers: z.number().optional(),
+  autoscale: z.looseObject({ min_workers: z.number(), max_workers: z.number() }).optional(),
+  autotermination_minutes: z.number().optional(),
+  state: z.string().optional(),
+  state_message: z.string().optional(),
+  cluster_source: z.string().optional(),
+  creator_user_name: z.string().optional(),
+  instance_pool_id: z.string().optional(),
+  policy_id: z.string().optional(),
+  start_time: z.number().optional(),
+  terminated_time: z.number().optional(),
+  termination_reason: z
+    .looseObject({ code: z.string().optional(), type: z.string().optional() })
+    .optional(),
+});
+
+export const clusterEventSchema = outputSchemaFor<ClusterEvent>()({
+  cluster_id: z.string(),
+  timestamp: z.number().optional(),
+  type: z.string().optional(),
+  details: z.record(z.string(), z.unknown()).optional(),
+});
+
+export const instancePoolSchema = outputSchemaFor<InstancePool>()({
+  instance_pool_id: z.string(),
+  instance_pool_name: z.string().optional(),
+  node_type_id: z.string().optional(),
+  min_idle_instances: z.number().optional(),
+  max_capacity: z.number().optional(),
+  idle_instance_autotermination_minutes: z.number().optional(),
+  state: z.string().optional(),
+  stats: z
+    .looseObject({
+      used_count: z.number().optional(),
+      idle_count: z.number().optional(),
+      pending_used_count: z.number().optional(),
+      pending_idle_count: z.number().optional(),
+    })
+    .optional(),
+});
+
+// =============================================================================
+// Workspace and DBFS
+// =============================================================================
+
+export const workspaceObjectSchema = outputSchemaFor<WorkspaceObject>()({
+  path: z.string(),
+  object_type: z.string().optional(),
+  object_id: z.number().optional(),
+  language: z.string().optional(),
+  created_at: z.number().optional(),
+  modified_at: z.number().optional(),
+  size: z.number().optional(),
+});
+
+export const dbfsFileInfoSchema = outputSchemaFor<DbfsFileInfo>()({
+  path: z.string(),
+  is_dir: z.boolean().optional(),
+  file_size: z.number().optional(),
+  modification_time: z.number().optional(),
+});
+
+export const repoSchema = outputSchemaFor<Repo>()({
+  id: z.number(),
+  path: z.string().optional(),
+  url: z.string().optional(),
+  provider: z.string().optional(),
+  branch: z.string().optional(),
+  head_commit_id: z.string().optional(),
+});
+
+export const gitCredentialSchema = outputSchemaFor<GitCredential>()({
+  credential_id: z.number(),
+  git_provider: z.string().optional(),
+  git_username: z.string().optional(),
+});
+
+// =============================================================================
+// Unity Catalog
+// =============================================================================
+
+/** Fields shared by every Unity Catalog securable */
+const securableShape = {
+  name: z.string(),
+  full_name: z.string().optional(),
+  owner: z.string().optional(),
+  comment: z.string().optional(),
+  created_at: z.number().optional(),
+  created_by: z.string().optional(),
+  updated_at: z.number().optional(),
+  updated_by: z.string().optional(),
+};
+
+const tableColumnSchema = outputSchemaFor<TableColumn>()({
+  name: z.string(),
+  type_text: z.string().optional(),
+  type_name: z.string().optional(),
+  position: z.number().optional(),
+  nullable: z.boolean().optional(),
+  comment: z.string().optional(),
+  partition_index: z.number().optional(),
+});
+
+export const catalogSchema = outputSchemaFor<Catalog>()({
+  ...securableShape,
+  catalog_type: z.string().optional(),
+  storage_root: z.string().optional(),
+  isolation_mode: z.string().optional(),
+});
+
+export const schemaSchema = outputSchemaFor<Schema>()({
+  ...securableShape,
+  catalog_name: z.string().optional(),
+  storage_root: z.string().optional(),
+});
+
+export const tableSchema = outputSchemaFor<Table>()({
+  ...securableShape,
+  catalog_name: z.string().optional(),
+  schema_name: z.string().optional(),
+  table_type: z.string().optional(),
+  data_source_format: z.string().optional(),
+  columns: z.array(tableColumnSchema).optional(),
+  storage_location: z.string().optional(),
+  view_definition: z.string().optional(),
+  properties: z.record(z.string(), z.string()).optional(),
+});
+
+export const volumeSchema = outputSchemaFor<Volume>()({
+  ...securableShape,
+  catalog_name: z.string().optional(),
+  schema_name: z.string().optional(),
+  volume_type: z.string().optional(),
+  storage_location: z.string().optional(),
+});
+
+export const functionSchema = outputSchemaFor<UcFunction>()({
+  ...securableShape,
+  catalog_name: z.string().optional(),
+  schema_name: z.string().optional(),
+  data_type: z.string().optional(),
+  full_data_type: z.string().optional(),
+  routine_body: z.string().optional(),
+  routine_definition: z.string().optional(),
+  external_language: z.string().optional(),
+});
+
+// =============================================================================
+// MLflow
+// =============================================================================
+
+export const experimentSchema = outputSchemaFor<Experiment>()({
+  experiment_id: z.string(),
+  name: z.string().optional(),
+  artifact_location: z.string().optional(),
+  lifecycle_stage: z.string().optional(),
+  creation_time: z.number().optional(),
+  last_update_time: z.number().optional(),
+  tags: keyValueList,
+});
+
+export const experimentRunSchema = outputSchemaFor<ExperimentRun>()({
+  info: z.looseObject({
+    run_id: z.string(),
+    experiment_id: z.string().optional(),
+    status: z.string().optional(),
+    start_time: z.number().optional(),
+    end_time: z.number().optional(),
+    artifact_uri: z.string().optional(),
+    lifecycle_stage: z.string().optional(),
+  }),
+  data: z
+    .looseObject({
+      metrics: z
+        .array(
+          z.looseObject({
+            key: z.string(),
+            value: z.number(),
+            timestamp: z.number().optional(),
+            step: z.number().optional(),
+          })
+        )
+        .optional(),
+      params: keyValueList,
+      tags: keyValueList,
+    })
+    .optional(),
+});
+
+export const modelVersionSchema = outputSchemaFor<ModelVersion>()({
+  name: z.string(),
+  version: z.string(),
+  current_stage: z.string().optional(),
+  status: z.string().optional(),
+  source: z.string().optional(),
+  run_id: z.string().optional(),
+  description: z.string().optional(),
+  creation_timestamp: z.number().optional(),
+  last_updated_timestamp: z.number().optional(),
+  aliases: z.array(z.string()).optional(),
+});
+
+export const registeredModelSchema = outputSchemaFor<RegisteredModel>()({
+  name: z.string(),
+  description: z.string().optional(),
+  user_id: z.string().optional(),
+  creation_timestamp: z.number().optional(),
+  last_updated_timestamp: z.number().optional(),
+  latest_versions: z.array(modelVersionSchema).optional(),
+  tags: keyValueList,
+});
+
+// =============================================================================
+// Secrets
+// =============================================================================
+
+export const secretScopeSchema = outputSchemaFor<SecretScope>()({
+  name: z.string(),
+  backend_type: z.string().optional(),
+});
+
+export const secretMetadataSchema = outputSchemaFor<SecretMetadata>()({
+  key: z.string(),
+  last_updated_timestamp: z.number().optional(),
+});
+
+export const secretAclSchema = outputSchemaFor<SecretAcl>()({
+  principal: z.string(),
+  permission: z.string().describe('READ, WRITE or MANAGE'),
+});
+
+// =============================================================================
+// Pipelines
+// =============================================================================
+
+export const pipelineSchema = outputSchemaFor<Pipeline>()({
+  pipeline_id: z.string(),
+  name: z.string().optional(),
+  state: z.string().optional(),
+  cluster_id: z.string().optional(),
+  creator_user_name: z.string().optional(),
+  latest_updates: z
+    .array(
+      z.looseObject({
+        update_id: z.string().optional(),
+        state: z.string().optional(),
+        creation_time: z.string().optional(),
+      })
+    )
+    .optional(),
+  catalog: z.string().optional(),
+  target: z.string().optional(),
+  continuous: z.boolean().optional(),
+  development: z.boolean().optional(),
+});
+
+// =============================================================================
+// Tokens
+// =============================================================================
+
+export const tokenInfoSchema = outputSchemaFor<TokenInfo>()({
+  token_id: z.string(),
+  comment: z.string().optional(),
+  creation_time: z.number().optional(),
+  expiry_time: z.number().optional(),
+  created_by_username: z.string().optional(),
+});
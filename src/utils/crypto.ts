@@ -0,0 +1,84 @@
+/**
+ * Crypto Utilities
+ *
+ * Random tokens, hashing and symmetric encryption helpers built on Web Crypto.
+ */
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Encode bytes as base64url without padding
+ */
+export function base64UrlEncode(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (const byte of view) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a base64url string (padding optional)
+ */
+export function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Generate a cryptographically random, URL-safe token
+ */
+export function randomToken(byteLength = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+/**
+ * SHA-256 digest of a string, base64url encoded
+ */
+export async function sha256(value: string): Promise<string> {
+  return base64UrlEncode(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+/**
+ * Derive an AES-GCM key from an arbitrary secret string
+ */
+async function deriveKey(secret: string): Promise<CryptoKey> {
+  const material = await crypto.subtle.digest('SHA-256', encoder.encode(secret));
+  return crypto.subtle.importKey('raw', material, 'AES-GCM', false, ['encrypt', 'decrypt']);
+}
+
+/**
+ * Encrypt a string with AES-GCM. Returns "<iv>.<ciphertext>" in base64url.
+ */
+export async function encryptString(plaintext: string, secret: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await deriveKey(secret),
+    encoder.encode(plaintext)
+  );
+  return `${base64UrlEncode(iv)}.${base64UrlEncode(ciphertext)}`;
+}
+
+/**
+ * Decrypt a value produced by encryptString
+ */
+export async function decryptString(payload: string, secret: string): Promise<string> {
+  const [iv, ciphertext] = payload.split('.');
+  if (!iv || !ciphertext) {
+    throw new Error('Malformed encrypted payload');
+  }
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: base64UrlDecode(iv) },
+    await deriveKey(secret),
+    base64UrlDecode(ciphertext)
+  );
+  return decoder.decode(plaintext);
+}
@@ -4,6 +4,8 @@
  * Custom error classes and error handling helpers for Databricks API.
  */
 
+import { redactSecrets } from './redact.js';
+
 /**
  * Base Databricks API error
  */
@@ -21,35 +23,67 @@ export class DatabricksApiError extends Error {
   }
 }
 
+/** Wait suggested to the model for rate limits that do not send Retry-After */
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
 /**
  * Rate limit exceeded error
  */
 export class RateLimitError extends DatabricksApiError {
+  /** Seconds to wait before calling again; DEFAULT_RETRY_AFTER_SECONDS when not given */
   public retryAfterSeconds: number;
 
-  constructor(message: string, retryAfterSeconds: number) {
-    super(message, 429, 'RATE_LIMIT_EXCEEDED', true);
+  /** Whether the wait was given (e.g. by Retry-After) rather than defaulted */
+  public retryAfterGiven: boolean;
+
+  constructor(message: string, retryAfterSeconds?: number, code = 'RATE_LIMIT_EXCEEDED') {
+    super(message, 429, code, true);
     this.name = 'RateLimitError';
-    this.retryAfterSeconds = retryAfterSeconds;
+    this.retryAfterSeconds = retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS;
+    this.retryAfterGiven = retryAfterSeconds !== undefined;
   }
 }
 
 /**
- * Authentication error
+ * A per-tenant limit of this server was reached (see src/rate-limits.ts), not a Databricks one
+ */
+export class TenantRateLimitError extends RateLimitError {
+  /** The limited category of tools, or "sql_concurrency" */
+  public category: string;
+
+  constructor(message: string, retryAfterSeconds: number, category: string) {
+    super(message, retryAfterSeconds, 'TENANT_RATE_LIMITED');
+    this.name = 'TenantRateLimitError';
+    this.category = category;
+  }
+}
+
+/**
+ * Authentication error: missing, invalid or expired credentials
  */
 export class AuthenticationError extends DatabricksApiError {
-  constructor(message: string) {
-    super(message, 401, 'AUTHENTICATION_FAILED', false);
+  constructor(message: string, code = 'AUTHENTICATION_FAILED') {
+    super(message, 401, code, false);
     this.name = 'AuthenticationError';
   }
 }
 
+/**
+ * Permission denied: the credentials are valid but may not access the resource
+ */
+export class PermissionDeniedError extends DatabricksApiError {
+  constructor(message: string, code = 'PERMISSION_DENIED') {
+    super(message, 403, code, false);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
 /**
  * Not found error
  */
 export class NotFoundError extends DatabricksApiError {
-  constructor(entityType: string, id: string) {
-    super(`${entityType} with ID '${id}' not found`, 404, 'NOT_FOUND', false);
+  constructor(message: string, code = 'NOT_FOUND') {
+    super(message, 404, code, false);
     this.name = 'NotFoundError';
   }
 }
@@ -60,8 +94,8 @@ export class NotFoundError extends DatabricksApiError {
 export class ValidationError extends DatabricksApiError {
   public details: Record<string, string[]>;
 
-  constructor(message: string, details: Record<string, string[]> = {}) {
-    super(message, 400, 'VALIDATION_ERROR', false);
+  constructor(message: string, details: Record<string, string[]> = {}, code = 'VALIDATION_ERROR') {
+    super(message, 400, code, false);
     this.name = 'ValidationError';
     this.details = details;
   }
@@ -71,12 +105,198 @@ export class ValidationError extends DatabricksApiError {
  * Resource already exists error
  */
 export class ResourceExistsError extends DatabricksApiError {
-  constructor(message: string) {
-    super(message, 409, 'RESOURCE_ALREADY_EXISTS', false);
+  constructor(message: string, code = 'RESOURCE_ALREADY_EXISTS') {
+    super(message, 409, code, false);
     this.name = 'ResourceExistsError';
   }
 }
 
+/**
+ * Databricks is temporarily unable to serve the request
+ */
+export class TemporarilyUnavailableError extends DatabricksApiError {
+  constructor(message: string, statusCode = 503, code = 'TEMPORARILY_UNAVAILABLE') {
+    super(message, statusCode, code, true);
+    this.name = 'TemporarilyUnavailableError';
+  }
+}
+
+/**
+ * Databricks did not answer within REQUEST_TIMEOUT_MS
+ */
+export class RequestTimeoutError extends DatabricksApiError {
+  public timeoutMs: number;
+
+  constructor(operation: string, timeoutMs: number) {
+    super(`${operation} timed out after ${timeoutMs}ms`, undefined, 'REQUEST_TIMEOUT', true);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The MCP client cancelled the tool call before Databricks answered
+ */
+export class RequestCancelledError extends DatabricksApiError {
+  constructor(operation: string) {
+    super(`${operation} was aborted because the tool call was cancelled`, undefined, 'CANCELLED');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Operation blocked because the server is in read-only mode
+ */
+export class ReadOnlyModeError extends DatabricksApiError {
+  constructor(operation: string) {
+    super(
+      `Read-only mode: ${operation} is not allowed. This endpoint can only read from the workspace.`,
+      403,
+      'READ_ONLY_MODE',
+      false
+    );
+    this.name = 'ReadOnlyModeError';
+  }
+}
+
+/**
+ * Irreversible operation that the user has not confirmed (or has declined)
+ */
+export class ConfirmationRequiredError extends DatabricksApiError {
+  /** One-time token to pass back as `confirm` once the user has approved the call */
+  public confirmToken?: string;
+
+  constructor(message: string, confirmToken?: string, code = 'CONFIRMATION_REQUIRED') {
+    super(message, undefined, code, false);
+    this.name = 'ConfirmationRequiredError';
+    this.confirmToken = confirmToken;
+  }
+}
+
+// =============================================================================
+// Databricks Error Mapping
+// =============================================================================
+
+/** Databricks error_code values grouped by the error class they map to */
+const NOT_FOUND_CODES = new Set(['RESOURCE_DOES_NOT_EXIST', 'NOT_FOUND']);
+const VALIDATION_CODES = new Set([
+  'INVALID_PARAMETER_VALUE',
+  'INVALID_REQUEST',
+  'MALFORMED_REQUEST',
+  'BAD_REQUEST',
+]);
+const ALREADY_EXISTS_CODES = new Set(['RESOURCE_ALREADY_EXISTS', 'ALREADY_EXISTS']);
+const UNAVAILABLE_CODES = new Set(['TEMPORARILY_UNAVAILABLE', 'SERVICE_UNDER_MAINTENANCE']);
+const RATE_LIMIT_CODES = new Set(['REQUEST_LIMIT_EXCEEDED', 'RESOURCE_EXHAUSTED']);
+const PERMISSION_CODES = new Set(['PERMISSION_DENIED']);
+const AUTHENTICATION_CODES = new Set(['UNAUTHENTICATED', 'INVALID_TOKEN']);
+
+/** HTTP statuses worth retrying when the error_code does not say otherwise */
+const TRANSIENT_STATUS_CODES = new Set([500, 502, 503, 504]);
+
+/**
+ * Map a failed Databricks API response to a typed error.
+ *
+ * The upstream `error_code` decides the class when it is known, otherwise the HTTP status
+ * does. The error keeps the upstream error_code as its `code`.
+ *
+ * @param retryAfterSeconds - Parsed Retry-After header, if any
+ */
+export function createApiError(
+  statusCode: number,
+  message: string,
+  errorCode?: string,
+  retryAfterSeconds?: number
+): DatabricksApiError {
+  const code = errorCode || undefined;
+  if ((code && RATE_LIMIT_CODES.has(code)) || statusCode === 429) {
+    return new RateLimitError(message, retryAfterSeconds, code);
+  }
+  if ((code && UNAVAILABLE_CODES.has(code)) || statusCode === 503) {
+    return new TemporarilyUnavailableError(message, statusCode, code);
+  }
+  if ((code && AUTHENTICATION_CODES.has(code)) || statusCode === 401) {
+    return new AuthenticationError(`Authentication failed: ${message}`, code);
+  }
+  if ((code && PERMISSION_CODES.has(code)) || statusCode === 403) {
+    return new PermissionDeniedError(message, code);
+  }
+  if ((code && NOT_FOUND_CODES.has(code)) || statusCode === 404) {
+    return new NotFoundError(message, code);
+  }
+  if (code && ALREADY_EXISTS_CODES.has(code)) {
+    return new ResourceExistsError(message, code);
+  }
+  if ((code && VALIDATION_CODES.has(code)) || statusCode === 400) {
+    return new ValidationError(message, {}, code);
+  }
+  return new DatabricksApiError(message, statusCode, code, TRANSIENT_STATUS_CODES.has(statusCode));
+}
+
+/**
+ * What the caller can do about an error, phrased for the model
+ */
+export function getRemediationHint(error: unknown): string | undefined {
+  if (error instanceof ReadOnlyModeError) {
+    return 'This server is read-only for the current credentials; use a read-only tool instead.';
+  }
+  if (error instanceof ConfirmationRequiredError) {
+    return error.confirmToken
+      ? 'Show the user what this call would do and ask for approval. Only if they approve, ' +
+          'call the tool again with the same arguments and confirm set to details.confirmToken.'
+      : 'The user declined this operation. Do not retry it unless they ask for it again.';
+  }
+  if (error instanceof TenantRateLimitError) {
+    return (
+      `This server limits how often these credentials may make this kind of call. Wait ` +
+      `${error.retryAfterSeconds}s before calling again; do not retry in a loop.`
+    );
+  }
+  if (error instanceof RateLimitError) {
+    return (
+      `Databricks is rate limiting requests. Wait ${error.retryAfterSeconds}s before calling ` +
+      'again, and make fewer or smaller calls (e.g. a smaller pageSize).'
+    );
+  }
+  if (error instanceof AuthenticationError) {
+    return (
+      'The credentials were rejected. Check the workspace URL and that the token or OAuth ' +
+      'login is still valid; retrying with the same credentials will not help.'
+    );
+  }
+  if (error instanceof PermissionDeniedError) {
+    return (
+      'The credentials are valid but lack permission for this resource or action. Ask a ' +
+      'workspace admin for access or use a resource you can access; do not retry.'
+    );
+  }
+  if (error instanceof NotFoundError) {
+    return (
+      'Check the ID, name or path; use the matching list or get tool to find valid values. ' +
+      'The resource may have been deleted.'
+    );
+  }
+  if (error instanceof ResourceExistsError) {
+    return 'A resource with this name already exists. Use it, update it, or choose another name.';
+  }
+  if (error instanceof ValidationError) {
+    return 'Fix the argument named in the error and call the tool again.';
+  }
+  if (error instanceof RequestTimeoutError) {
+    return (
+      'Databricks did not answer in time. Reads can be retried; a change may still have ' +
+      'been applied, so check its current state before calling again.'
+    );
+  }
+  if (error instanceof RequestCancelledError) {
+    return 'The call was cancelled. Do not retry it unless the user asks for it again.';
+  }
+  if (error instanceof DatabricksApiError && error.retryable) {
+    return 'This looks transient on the Databricks side. Retry after a short wait.';
+  }
+  return undefined;
+}
+
 /**
  * Check if an error is retryable
  */
@@ -96,9 +316,14 @@ export function isRetryableError(error: unknown): boolean {
 }
 
 /**
- * Format an error for logging
+ * Format an error for logging, with credentials scrubbed from messages, stack traces and
+ * details. A confirmation token is left out; formatError returns it to the caller.
  */
 export function formatErrorForLogging(error: unknown): Record<string, unknown> {
+  return redactSecrets(describeError(error));
+}
+
+function describeError(error: unknown): Record<string, unknown> {
   if (error instanceof DatabricksApiError) {
     return {
       name: error.name,
@@ -107,6 +332,7 @@ export function formatErrorForLogging(error: unknown): Record<string, unknown> {
       statusCode: error.statusCode,
       retryable: error.retryable,
       ...(error instanceof RateLimitError && { retryAfterSeconds: error.retryAfterSeconds }),
+      ...(error instanceof TenantRateLimitError && { category: error.category }),
       ...(error instanceof ValidationError && { details: error.details }),
     };
   }
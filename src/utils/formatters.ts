@@ -4,7 +4,13 @@
  * Helpers for formatting tool responses.
  */
 
-import { DatabricksApiError, formatErrorForLogging } from './errors.js';
+import {
+  ConfirmationRequiredError,
+  DatabricksApiError,
+  formatErrorForLogging,
+  getRemediationHint,
+} from './errors.js';
+import { markOneTime, redactText } from './redact.js';
 
 /**
  * MCP tool response type
@@ -12,23 +18,43 @@ import { DatabricksApiError, formatErrorForLogging } from './errors.js';
 export interface ToolResponse {
   [key: string]: unknown;
   content: Array<{ type: 'text'; text: string }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
 /**
- * Format a successful response
+ * Structured content for a response: MCP only allows JSON objects, not arrays or scalars
+ */
+function toStructuredContent(data: unknown): Record<string, unknown> | undefined {
+  return data !== null && typeof data === 'object' && !Array.isArray(data)
+    ? (data as Record<string, unknown>)
+    : undefined;
+}
+
+/**
+ * Format a successful response, as JSON text and as structured content
  */
 export function formatResponse(data: unknown): ToolResponse {
+  const structuredContent = toStructuredContent(data);
   return {
     content: [{ type: 'text', text: JSON.stringify(data, null, 2) }],
+    ...(structuredContent && { structuredContent }),
   };
 }
 
 /**
- * Format an error response
+ * Format an error response, with a remediation hint for the error category.
+ *
+ * Credentials are scrubbed from the message and details, and stack traces are left out.
+ * A confirmation token is the one secret returned, marked as a one-time value.
  */
 export function formatError(error: unknown): ToolResponse {
-  const errorInfo = formatErrorForLogging(error);
+  const { stack: _stack, ...errorInfo } = formatErrorForLogging(error);
+  const hint = getRemediationHint(error);
+  const details =
+    error instanceof ConfirmationRequiredError && error.confirmToken
+      ? markOneTime({ ...errorInfo, confirmToken: error.confirmToken }, ['confirmToken'])
+      : errorInfo;
 
   let message: string;
   if (error instanceof DatabricksApiError) {
@@ -46,7 +72,11 @@ export function formatError(error: unknown): ToolResponse {
     content: [
       {
         type: 'text',
-        text: JSON.stringify({ error: message, details: errorInfo }, null, 2),
+        text: JSON.stringify(
+          { error: redactText(message), ...(hint && { hint }), details },
+          null,
+          2
+        ),
       },
     ],
     isError: true,
@@ -57,12 +87,165 @@ export function formatError(error: unknown): ToolResponse {
  * Format a success message
  */
 export function formatSuccess(message: string, data?: unknown): ToolResponse {
+  return formatResponse({ success: true, message, ...(data !== undefined && { data }) });
+}
+
+// =============================================================================
+// Character Limit
+// =============================================================================
+
+/**
+ * The part of a response left out by truncation: the remaining list items in the same
+ * shape as the response, or the remaining text
+ */
+export type ResponseRemainder = { kind: 'json'; data: unknown } | { kind: 'text'; text: string };
+
+/**
+ * Result of fitting a response into the character limit
+ */
+export interface TruncatedText {
+  /** Text that fits within the limit */
+  text: string;
+
+  /** The JSON value `text` renders, when the response was cut without breaking its JSON */
+  data?: unknown;
+
+  /**
+   * The response with the list or string that did not fit emptied, when `text` had to be
+   * cut mid-JSON and the emptied response fits within the limit
+   */
+  outline?: unknown;
+
+  /** What was left out */
+  remainder: ResponseRemainder;
+
+  /** Number of list items left out (JSON responses with a list only) */
+  omittedItems?: number;
+
+  /** Number of list items in the full response (JSON responses with a list only) */
+  totalItems?: number;
+}
+
+/**
+ * Find the largest array (or string) in a JSON value, at the top level or up to two
+ * properties deep (e.g. `{ jobs: [...] }` or `{ result: { data_array: [...] } }`)
+ */
+function findLargest(data: unknown, matches: (value: unknown) => boolean): string[] | undefined {
+  if (matches(data)) {
+    return [];
+  }
+  let best: { path: string[]; length: number } | undefined;
+  const visit = (node: unknown, path: string[]) => {
+    if (!node || typeof node !== 'object' || path.length >= 2) {
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (matches(child)) {
+        const { length } = child as unknown[] | string;
+        if (!best || length > best.length) {
+          best = { path: [...path, key], length };
+        }
+      } else if (!Array.isArray(child)) {
+        visit(child, [...path, key]);
+      }
+    }
+  };
+  visit(data, []);
+  return best?.path;
+}
+
+function getAtPath(value: unknown, path: string[]): unknown {
+  return path.reduce<unknown>((node, key) => (node as Record<string, unknown>)[key], value);
+}
+
+function replaceAtPath(value: unknown, path: string[], replacement: unknown): unknown {
+  if (path.length === 0) {
+    return replacement;
+  }
+  const [key, ...rest] = path as [string, ...string[]];
+  const node = value as Record<string, unknown>;
+  return { ...node, [key]: replaceAtPath(node[key], rest, replacement) };
+}
+
+/**
+ * Binary search for the largest `count` in [0, max] whose rendering fits within `limit`
+ */
+function fitCount(max: number, limit: number, render: (count: number) => string): number {
+  let low = 0;
+  let high = max;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (render(mid).length <= limit) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Fit a tool response text into `limit` characters.
+ *
+ * JSON responses that contain a list keep as many leading items as fit, and the remainder
+ * keeps the same shape with the remaining items. JSON responses dominated by one long string
+ * (e.g. exported notebook content) keep the start of that string, and the remainder is the
+ * rest of it. Anything else is cut at the limit, with an outline of the JSON (if any) that
+ * keeps its shape but not its largest list or string.
+ *
+ * @returns undefined when the text already fits
+ */
+export function truncateToLimit(text: string, limit: number): TruncatedText | undefined {
+  if (text.length <= limit) {
+    return undefined;
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    data = undefined;
+  }
+
+  const arrayPath = data === undefined ? undefined : findLargest(data, Array.isArray);
+  if (arrayPath) {
+    const items = getAtPath(data, arrayPath) as unknown[];
+    const slice = (count: number) => replaceAtPath(data, arrayPath, items.slice(0, count));
+    const kept = fitCount(items.length, limit, (count) => JSON.stringify(slice(count), null, 2));
+
+    if (kept > 0) {
+      return {
+        text: JSON.stringify(slice(kept), null, 2),
+        data: slice(kept),
+        remainder: { kind: 'json', data: replaceAtPath(data, arrayPath, items.slice(kept)) },
+        omittedItems: items.length - kept,
+        totalItems: items.length,
+      };
+    }
+  }
+
+  const isString = (value: unknown) => typeof value === 'string';
+  const stringPath = data === undefined ? undefined : findLargest(data, isString);
+  if (stringPath) {
+    const value = getAtPath(data, stringPath) as string;
+    const slice = (length: number) => replaceAtPath(data, stringPath, value.slice(0, length));
+    const kept = fitCount(value.length, limit, (length) => JSON.stringify(slice(length), null, 2));
+
+    if (kept > 0) {
+      return {
+        text: JSON.stringify(slice(kept), null, 2),
+        data: slice(kept),
+        remainder: { kind: 'text', text: value.slice(kept) },
+      };
+    }
+  }
+
+  const largestPath = arrayPath ?? stringPath;
+  const outline = largestPath ? replaceAtPath(data, largestPath, arrayPath ? [] : '') : undefined;
+  const outlineFits = outline !== undefined && JSON.stringify(outline, null, 2).length <= limit;
   return {
-    content: [
-      {
-        type: 'text',
-        text: JSON.stringify({ success: true, message, ...((data !== undefined) && { data }) }, null, 2),
-      },
-    ],
+    text: text.slice(0, limit),
+    ...(outlineFits && { outline }),
+    remainder: { kind: 'text', text: text.slice(limit) },
   };
 }
@@ -0,0 +1,113 @@
+/**
+ * Workspace Host Validation
+ *
+ * Tenant-supplied workspace URLs are fetched with the tenant's bearer token attached, so
+ * they are restricted to Databricks domains (plus an operator allowlist) to keep the Worker
+ * from being used to send tokens to arbitrary or internal servers.
+ */
+
+import { ValidationError } from './errors.js';
+
+/** Domain suffixes of Databricks workspaces on AWS, Azure and GCP */
+export const KNOWN_DATABRICKS_DOMAINS = [
+  'cloud.databricks.com',
+  'azuredatabricks.net',
+  'gcp.databricks.com',
+];
+
+/** Hostnames and suffixes that only resolve to local or internal networks */
+const INTERNAL_HOSTNAMES = ['localhost'];
+const INTERNAL_SUFFIXES = ['.localhost', '.local', '.internal', '.intranet', '.lan', '.home.arpa'];
+
+/**
+ * Parse a comma-separated host allowlist.
+ *
+ * Entries are exact hostnames (`dbx.example.com`) or domain suffixes (`.example.com` or
+ * `*.example.com`), matched case-insensitively.
+ */
+export function parseAllowedHosts(value: string | undefined): string[] {
+  return (value || '')
+    .split(',')
+    .map((entry) => entry.trim().toLowerCase().replace(/^\*/, '').replace(/\.$/, ''))
+    .filter(Boolean);
+}
+
+/**
+ * Whether a hostname is a subdomain of a domain suffix
+ */
+function isSubdomainOf(hostname: string, domain: string): boolean {
+  return hostname.endsWith(`.${domain.replace(/^\./, '')}`);
+}
+
+/**
+ * Whether a hostname matches an allowlist entry
+ */
+function matchesAllowedHost(hostname: string, entry: string): boolean {
+  return entry.startsWith('.') ? isSubdomainOf(hostname, entry) : hostname === entry;
+}
+
+/**
+ * Whether a hostname is an IP literal or a name reserved for local/internal networks
+ */
+function isInternalHostname(hostname: string): boolean {
+  // IPv6 literals are bracketed by URL; IPv4 literals (including shorthand forms such as
+  // 127.1 or 0x7f.1) are normalized to dotted decimal
+  if (hostname.startsWith('[') || /^\d+\.\d+\.\d+\.\d+$/.test(hostname)) {
+    return true;
+  }
+  if (!hostname.includes('.')) {
+    return true;
+  }
+  return (
+    INTERNAL_HOSTNAMES.includes(hostname) ||
+    INTERNAL_SUFFIXES.some((suffix) => hostname.endsWith(suffix))
+  );
+}
+
+/**
+ * Validate and normalize a workspace URL.
+ *
+ * Only https URLs without credentials or a custom port are accepted, and the hostname must
+ * be a subdomain of a known Databricks domain or match the operator allowlist. IP literals
+ * and internal hostnames are always rejected.
+ *
+ * @returns The workspace origin, e.g. `https://adb-123.4.azuredatabricks.net`
+ */
+export function normalizeWorkspaceHost(value: string, allowedHosts: string[] = []): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new ValidationError(
+      'Invalid workspace URL. Provide the full workspace URL, e.g. https://adb-xxx.azuredatabricks.net'
+    );
+  }
+
+  if (url.protocol !== 'https:') {
+    throw new ValidationError('Invalid workspace URL. Only https:// workspace URLs are allowed.');
+  }
+  if (url.username || url.password || url.port) {
+    throw new ValidationError(
+      'Invalid workspace URL. Workspace URLs must not include credentials or a port.'
+    );
+  }
+
+  const hostname = url.hostname.replace(/\.$/, '');
+  if (isInternalHostname(hostname)) {
+    throw new ValidationError(
+      `Invalid workspace URL. ${hostname} is not a public Databricks workspace.`
+    );
+  }
+
+  const allowed =
+    KNOWN_DATABRICKS_DOMAINS.some((domain) => isSubdomainOf(hostname, domain)) ||
+    allowedHosts.some((entry) => matchesAllowedHost(hostname, entry));
+  if (!allowed) {
+    throw new ValidationError(
+      `Invalid workspace URL. ${hostname} is not a Databricks workspace domain ` +
+        `(${KNOWN_DATABRICKS_DOMAINS.join(', ')}) and is not in the server's host allowlist.`
+    );
+  }
+
+  return `https://${hostname}`;
+}
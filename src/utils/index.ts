@@ -1,2 +1,7 @@
+export * from './crypto.js';
 export * from './errors.js';
 export * from './formatters.js';
+export * from './host.js';
+export * from './pagination.js';
+export * from './redact.js';
+export * from './sql.js';
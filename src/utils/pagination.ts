@@ -0,0 +1,107 @@
+/**
+ * Pagination Utilities
+ *
+ * Opaque cursors shared by every list tool. A cursor wraps either the upstream
+ * `page_token` (APIs with server-side paging) or an offset into the full list (APIs that
+ * return everything at once, or page by offset).
+ */
+
+import type { PaginatedResponse } from '../types/databricks.js';
+import { base64UrlDecode, base64UrlEncode } from './crypto.js';
+import { ValidationError } from './errors.js';
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+type CursorState = { token: string } | { offset: number };
+
+function encodeCursor(state: CursorState): string {
+  return base64UrlEncode(encoder.encode(JSON.stringify(state)));
+}
+
+function decodeCursor(cursor: string): CursorState {
+  try {
+    const state = JSON.parse(decoder.decode(base64UrlDecode(cursor))) as CursorState;
+    if (
+      ('token' in state && typeof state.token === 'string') ||
+      ('offset' in state && Number.isInteger(state.offset) && state.offset >= 0)
+    ) {
+      return state;
+    }
+  } catch {
+    // Fall through to the validation error
+  }
+  throw new ValidationError('Invalid cursor. Pass the next_cursor value from the previous page.');
+}
+
+/**
+ * Read the upstream page token from a cursor (undefined for the first page)
+ */
+export function getCursorToken(cursor: string | undefined): string | undefined {
+  if (!cursor) {
+    return undefined;
+  }
+  const state = decodeCursor(cursor);
+  if (!('token' in state)) {
+    throw new ValidationError('Cursor does not belong to this list.');
+  }
+  return state.token;
+}
+
+/**
+ * Read the offset from a cursor (0 for the first page)
+ */
+export function getCursorOffset(cursor: string | undefined): number {
+  if (!cursor) {
+    return 0;
+  }
+  const state = decodeCursor(cursor);
+  if (!('offset' in state)) {
+    throw new ValidationError('Cursor does not belong to this list.');
+  }
+  return state.offset;
+}
+
+/**
+ * Build a page from an upstream page and its next_page_token
+ */
+export function pageFromToken<T>(
+  items: T[],
+  nextPageToken: string | undefined
+): PaginatedResponse<T> {
+  return {
+    items,
+    count: items.length,
+    has_more: Boolean(nextPageToken),
+    ...(nextPageToken && { next_cursor: encodeCursor({ token: nextPageToken }) }),
+  };
+}
+
+/**
+ * Build a page from an upstream page fetched at `offset`
+ */
+export function pageFromOffset<T>(
+  items: T[],
+  offset: number,
+  hasMore: boolean
+): PaginatedResponse<T> {
+  return {
+    items,
+    count: items.length,
+    has_more: hasMore,
+    ...(hasMore && { next_cursor: encodeCursor({ offset: offset + items.length }) }),
+  };
+}
+
+/**
+ * Slice one page out of a complete list (APIs without server-side paging)
+ */
+export function paginateItems<T>(
+  items: T[],
+  pageSize: number,
+  cursor: string | undefined
+): PaginatedResponse<T> {
+  const offset = getCursorOffset(cursor);
+  const page = items.slice(offset, offset + pageSize);
+  return pageFromOffset(page, offset, offset + page.length < items.length);
+}
@@ -0,0 +1,112 @@
+/**
+ * Secret Redaction
+ *
+ * Scrubs credentials from values before they are logged, written to the audit log or
+ * returned in error payloads: Databricks personal access tokens (`dapi...`), OAuth and
+ * Entra ID access tokens, git provider tokens, bearer and basic authorization headers, and
+ * fields whose names mark them as secret.
+ *
+ * Values a tool must hand to the caller exactly once, such as a newly minted token, are not
+ * redacted in its result but marked with markOneTime instead.
+ */
+
+/** Replacement for a redacted value */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names (lowercased, without separators) whose values are always secret
+ */
+const SENSITIVE_FIELDS = new Set([
+  'token',
+  'tokenvalue',
+  'accesstoken',
+  'refreshtoken',
+  'idtoken',
+  'personalaccesstoken',
+  'confirmtoken',
+  'authorization',
+  'password',
+  'secret',
+  'clientsecret',
+  'stringvalue',
+  'bytesvalue',
+]);
+
+/**
+ * Credentials recognisable in free text, with the part to keep before the redaction
+ */
+const SECRET_PATTERNS: Array<[RegExp, string]> = [
+  // Databricks personal access tokens
+  [/\bdapi[0-9a-f]{32}(?:-\d+)?\b/gi, REDACTED],
+  // Databricks OAuth secrets
+  [/\bdose[0-9a-f]{32,}\b/gi, REDACTED],
+  // JWTs: Databricks OAuth and Entra ID access tokens
+  [/\beyJ[\w-]+\.[\w-]+\.[\w-]*/g, REDACTED],
+  // GitHub and GitLab personal access tokens (git credentials)
+  [/\b(?:gh[pousr]_[A-Za-z0-9]{30,}|github_pat_\w{30,}|glpat-[\w-]{20,})\b/g, REDACTED],
+  // Authorization header values
+  [/\b(Bearer|Basic)\s+[\w.~+/=-]+/gi, `$1 ${REDACTED}`],
+  // key=value and "key": "value" pairs, e.g. in form bodies and upstream error messages
+  [
+    /(["']?(?:access_token|refresh_token|id_token|client_secret|password|token_value)["']?\s*[:=]\s*["']?)[^"'&\s,}]+/gi,
+    `$1${REDACTED}`,
+  ],
+];
+
+/**
+ * Whether a field name marks its value as secret, e.g. token_value, clientSecret or password
+ */
+export function isSensitiveField(name: string): boolean {
+  const normalized = name.toLowerCase().replace(/[_-]/g, '');
+  return (
+    SENSITIVE_FIELDS.has(normalized) ||
+    normalized.endsWith('secret') ||
+    normalized.endsWith('password')
+  );
+}
+
+/**
+ * Replace credentials found in free text (messages, stack traces, SQL, bodies)
+ */
+export function redactText(text: string): string {
+  return SECRET_PATTERNS.reduce(
+    (redacted, [pattern, replacement]) => redacted.replace(pattern, replacement),
+    text
+  );
+}
+
+/**
+ * Copy of a value with sensitive fields replaced and credentials scrubbed from every string,
+ * at any depth
+ */
+export function redactSecrets<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactText(value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([name, field]) => [
+        name,
+        isSensitiveField(name) && field !== undefined && field !== null
+          ? REDACTED
+          : redactSecrets(field),
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Mark fields of a result as one-time values: secrets returned to the caller now that can
+ * never be retrieved again. `one_time_values` lists them so clients know to store them and
+ * not to echo them into logs or transcripts.
+ */
+export function markOneTime<T extends object>(
+  data: T,
+  fields: Array<keyof T & string>
+): T & { one_time_values: string[] } {
+  return { ...data, one_time_values: fields };
+}
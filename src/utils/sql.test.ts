@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { isReadOnlyStatement } from './sql.js';
+
+describe('isReadOnlyStatement', () => {
+  it('accepts single pure queries', () => {
+    for (const statement of [
+      'SELECT * FROM main.sales.orders',
+      'select 1;',
+      '  WITH totals AS (SELECT 1) SELECT * FROM totals  ',
+      'SHOW TABLES IN main.sales',
+      'DESCRIBE TABLE EXTENDED main.sales.orders',
+      'EXPLAIN SELECT 1',
+      '-- leading comment\nSELECT 1',
+      '/* block */ SELECT 1 /* trailing */',
+    ]) {
+      assert.equal(isReadOnlyStatement(statement), true, statement);
+    }
+  });
+
+  it('refuses statements that change data or metadata', () => {
+    for (const statement of [
+      'DROP TABLE t',
+      'INSERT INTO t VALUES (1)',
+      'WITH src AS (SELECT 1) INSERT INTO t SELECT * FROM src',
+      'SELECT * FROM t; DELETE FROM t',
+      'CREATE TABLE t AS SELECT 1',
+      'OPTIMIZE t',
+      '',
+      '  ;  ',
+      '-- only a comment',
+    ]) {
+      assert.equal(isReadOnlyStatement(statement), false, statement);
+    }
+  });
+
+  it('does not treat comment markers inside string literals as comments', () => {
+    assert.equal(isReadOnlyStatement("SELECT '--'; DROP TABLE t"), false);
+    assert.equal(isReadOnlyStatement("SELECT '/*'; DROP TABLE x; SELECT '*/'"), false);
+    assert.equal(isReadOnlyStatement('SELECT "--" FROM t; DROP TABLE t'), false);
+    assert.equal(isReadOnlyStatement('SELECT `/*` FROM t; DROP TABLE t; SELECT `*/`'), false);
+  });
+
+  it('does not treat quotes inside comments as string literals', () => {
+    assert.equal(isReadOnlyStatement("SELECT 1 -- it's\n; DROP TABLE t; SELECT '"), false);
+    assert.equal(isReadOnlyStatement("SELECT 1 /* ' */; DROP TABLE t; SELECT '"), false);
+  });
+
+  it('ignores keywords and separators inside literals, identifiers and comments', () => {
+    assert.equal(isReadOnlyStatement("SELECT 'DROP TABLE t; DELETE' AS note"), true);
+    assert.equal(isReadOnlyStatement("SELECT 'it\\'s; DROP' FROM t"), true);
+    assert.equal(isReadOnlyStatement('SELECT `update`, "insert;" FROM t'), true);
+    assert.equal(isReadOnlyStatement('SELECT 1 -- DROP TABLE t;\n'), true);
+    assert.equal(isReadOnlyStatement('SELECT 1 /* ; DELETE FROM t */'), true);
+  });
+
+  it('does not apply backslash escapes in raw string literals', () => {
+    assert.equal(isReadOnlyStatement("SELECT r'\\'; DROP TABLE t; SELECT '"), false);
+    assert.equal(isReadOnlyStatement("SELECT r'C:\\data\\' AS path"), true);
+  });
+});
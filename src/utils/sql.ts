@@ -0,0 +1,189 @@
+/**
+ * SQL Utilities
+ *
+ * Lightweight SQL inspection helpers. These do not parse SQL; they classify statements
+ * conservatively so that anything ambiguous is treated as mutating. Also renders DDL for
+ * Unity Catalog tables.
+ */
+
+import type { Table } from '../types/databricks.js';
+
+/** Leading keywords of statements that only read data */
+const READ_ONLY_LEADING_KEYWORDS = new Set([
+  'SELECT',
+  'WITH',
+  'SHOW',
+  'DESCRIBE',
+  'DESC',
+  'EXPLAIN',
+  'VALUES',
+  'TABLE',
+]);
+
+/** Keywords that change data, metadata or permissions, wherever they appear in a query */
+const MUTATING_KEYWORDS = new Set([
+  'INSERT',
+  'UPDATE',
+  'DELETE',
+  'MERGE',
+  'CREATE',
+  'DROP',
+  'ALTER',
+  'TRUNCATE',
+  'GRANT',
+  'REVOKE',
+  'COPY',
+  'OPTIMIZE',
+  'VACUUM',
+  'REFRESH',
+  'RESTORE',
+  'CACHE',
+  'CLONE',
+]);
+
+/**
+ * End of the comment, string literal or quoted identifier starting at `start`, or undefined
+ * when none starts there. Unterminated ones run to the end of the statement.
+ */
+function skipQuotedOrComment(statement: string, start: number): number | undefined {
+  const char = statement[start];
+  const next = statement[start + 1];
+  if (char === '-' && next === '-') {
+    const end = statement.indexOf('\n', start + 2);
+    return end === -1 ? statement.length : end + 1;
+  }
+  if (char === '/' && next === '*') {
+    const end = statement.indexOf('*/', start + 2);
+    return end === -1 ? statement.length : end + 2;
+  }
+  if (char !== "'" && char !== '"' && char !== '`') {
+    return undefined;
+  }
+  // Backslash escapes apply to string literals, but not to raw ones (r'...') or identifiers
+  const raw = /(^|[^A-Za-z0-9_])[rR]$/.test(statement.slice(Math.max(0, start - 2), start));
+  const escapes = char !== '`' && !raw;
+  for (let index = start + 1; index < statement.length; index++) {
+    if (escapes && statement[index] === '\\') {
+      index++;
+    } else if (statement[index] === char) {
+      return index + 1;
+    }
+  }
+  return statement.length;
+}
+
+/**
+ * Words and statement separators of a statement, read left to right. Comments, string
+ * literals and quoted identifiers are skipped, so keywords and `;` inside them are ignored.
+ */
+function tokenize(statement: string): string[] {
+  const tokens: string[] = [];
+  let index = 0;
+  while (index < statement.length) {
+    const skipped = skipQuotedOrComment(statement, index);
+    if (skipped !== undefined) {
+      index = skipped;
+      continue;
+    }
+    const word = /[A-Za-z0-9_]+/y;
+    word.lastIndex = index;
+    const match = word.exec(statement);
+    if (match) {
+      tokens.push(match[0].toUpperCase());
+      index += match[0].length;
+      continue;
+    }
+    if (statement[index] === ';') {
+      tokens.push(';');
+    }
+    index++;
+  }
+  return tokens;
+}
+
+/**
+ * Whether a SQL statement is a single, pure query.
+ *
+ * Rejects multiple statements, statements that do not start with a query keyword, and
+ * queries that contain any data- or metadata-changing keyword (e.g. `WITH ... INSERT`).
+ */
+export function isReadOnlyStatement(statement: string): boolean {
+  const tokens = tokenize(statement);
+  if (tokens.at(-1) === ';') {
+    tokens.pop();
+  }
+  if (tokens.length === 0 || tokens.includes(';')) {
+    return false;
+  }
+  if (!READ_ONLY_LEADING_KEYWORDS.has(tokens[0] ?? '')) {
+    return false;
+  }
+  return !tokens.some((word) => MUTATING_KEYWORDS.has(word));
+}
+
+// =============================================================================
+// DDL
+// =============================================================================
+
+/**
+ * Quote a SQL identifier with backticks
+ */
+function quoteIdentifier(name: string): string {
+  return `\`${name.replace(/`/g, '``')}\``;
+}
+
+/**
+ * Quote a SQL string literal
+ */
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * Render a CREATE statement for a Unity Catalog table or view from its metadata.
+ *
+ * Covers columns, format, partitioning, location and comment; table properties and
+ * constraints are left out.
+ */
+export function buildTableDdl(table: Table): string {
+  const name = (table.full_name || `${table.catalog_name}.${table.schema_name}.${table.name}`)
+    .split('.')
+    .map(quoteIdentifier)
+    .join('.');
+  const comment = table.comment ? `COMMENT ${quoteLiteral(table.comment)}` : undefined;
+
+  if (table.table_type === 'VIEW' || table.table_type === 'MATERIALIZED_VIEW') {
+    const kind = table.table_type === 'VIEW' ? 'VIEW' : 'MATERIALIZED VIEW';
+    return [`CREATE ${kind} ${name}`, comment, `AS ${table.view_definition ?? ''}`]
+      .filter(Boolean)
+      .join('\n');
+  }
+
+  const columns = [...(table.columns ?? [])].sort((a, b) => a.position - b.position);
+  const columnLines = columns.map((column) =>
+    [
+      `  ${quoteIdentifier(column.name)} ${column.type_text}`,
+      column.nullable === false ? 'NOT NULL' : undefined,
+      column.comment ? `COMMENT ${quoteLiteral(column.comment)}` : undefined,
+    ]
+      .filter(Boolean)
+      .join(' ')
+  );
+  const partitionColumns = columns
+    .filter((column) => column.partition_index !== undefined)
+    .sort((a, b) => (a.partition_index ?? 0) - (b.partition_index ?? 0))
+    .map((column) => quoteIdentifier(column.name));
+
+  const kind = table.table_type === 'STREAMING_TABLE' ? 'STREAMING TABLE' : 'TABLE';
+  return [
+    `CREATE ${kind} ${name} (\n${columnLines.join(',\n')}\n)`,
+    table.data_source_format ? `USING ${table.data_source_format}` : undefined,
+    partitionColumns.length > 0 ? `PARTITIONED BY (${partitionColumns.join(', ')})` : undefined,
+    table.table_type === 'EXTERNAL' && table.storage_location
+      ? `LOCATION ${quoteLiteral(table.storage_location)}`
+      : undefined,
+    comment,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}